@@ -1,3 +1,4 @@
+// Generated by tools/tokens/generate-tokens.ts from interface-resources/tokens/tokens.json. Do not edit.
 import 'package:flutter/material.dart';
 
 /// OVU System Color Palette
@@ -6,53 +7,53 @@ class AppColors {
   static const Color primary = Color(0xFF1976D2);
   static const Color primaryLight = Color(0xFF63A4FF);
   static const Color primaryDark = Color(0xFF004BA0);
-  
+
   // Secondary Colors
   static const Color secondary = Color(0xFFDC004E);
   static const Color secondaryLight = Color(0xFFFF5983);
   static const Color secondaryDark = Color(0xFFA00037);
-  
+
   // Semantic Colors
   static const Color success = Color(0xFF4CAF50);
   static const Color warning = Color(0xFFFF9800);
   static const Color error = Color(0xFFF44336);
   static const Color info = Color(0xFF2196F3);
-  
+
   // Text Colors
   static const Color textPrimary = Color(0xFF212121);
   static const Color textSecondary = Color(0xFF757575);
   static const Color textDisabled = Color(0xFF9E9E9E);
   static const Color textHint = Color(0xFFBDBDBD);
-  
+
   // Background Colors
   static const Color background = Color(0xFFFFFFFF);
   static const Color backgroundDark = Color(0xFF121212);
   static const Color surface = Color(0xFFF5F5F5);
   static const Color surfaceDark = Color(0xFF1E1E1E);
-  
+
   // Border & Divider
   static const Color divider = Color(0xFFE0E0E0);
   static const Color dividerDark = Color(0xFF424242);
   static const Color border = Color(0xFFE0E0E0);
   static const Color borderDark = Color(0xFF424242);
-  
+
   // Overlay
   static const Color overlay = Color(0x1F000000);
   static const Color overlayDark = Color(0x1FFFFFFF);
-  
+
   // Gradients
   static const LinearGradient primaryGradient = LinearGradient(
     begin: Alignment.topLeft,
     end: Alignment.bottomRight,
     colors: [primary, primaryDark],
   );
-  
+
   static const LinearGradient secondaryGradient = LinearGradient(
     begin: Alignment.topLeft,
     end: Alignment.bottomRight,
     colors: [secondary, secondaryDark],
   );
-  
+
   // Material Color Swatches
   static const MaterialColor primarySwatch = MaterialColor(
     0xFF1976D2,
@@ -69,26 +70,26 @@ class AppColors {
       900: Color(0xFF0D47A1),
     },
   );
-  
+
   // Dark Mode Helpers
   static Color getTextColor(BuildContext context) {
     return Theme.of(context).brightness == Brightness.dark
         ? Colors.white
         : textPrimary;
   }
-  
+
   static Color getBackgroundColor(BuildContext context) {
     return Theme.of(context).brightness == Brightness.dark
         ? backgroundDark
         : background;
   }
-  
+
   static Color getSurfaceColor(BuildContext context) {
     return Theme.of(context).brightness == Brightness.dark
         ? surfaceDark
         : surface;
   }
-  
+
   static Color getDividerColor(BuildContext context) {
     return Theme.of(context).brightness == Brightness.dark
         ? dividerDark
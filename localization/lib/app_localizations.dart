@@ -118,7 +118,16 @@ class AppLocalizations {
   String get required => translate('required');
   String get invalidEmail => translate('invalid_email');
   String get passwordTooShort => translate('password_too_short');
+  String get passwordNeedsUppercase => translate('password_needs_uppercase');
+  String get passwordNeedsLowercase => translate('password_needs_lowercase');
+  String get passwordNeedsDigit => translate('password_needs_digit');
+  String get passwordNeedsSymbol => translate('password_needs_symbol');
+  String get passwordTooCommon => translate('password_too_common');
+  String get passwordContainsUsername => translate('password_contains_username');
   String get passwordsDoNotMatch => translate('passwords_do_not_match');
+  String get invalidPhone => translate('invalid_phone');
+  String get usernameTaken => translate('username_taken');
+  String get emailTaken => translate('email_taken');
   
   // Error messages
   String get networkError => translate('network_error');
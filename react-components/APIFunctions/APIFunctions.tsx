@@ -1,11 +1,15 @@
 import { useState } from 'react';
 import './APIFunctions.css';
+import type { Language } from '../types';
+import { getDirection } from '../i18n/locales';
 
 interface Parameter {
   name: string;
   type: string;
   required: boolean;
   description: string;
+  // Not in the backend yet: the contract the shared components are written against
+  proposed?: boolean;
 }
 
 interface APIEndpoint {
@@ -19,10 +23,14 @@ interface APIEndpoint {
   requestBody?: string;
   responseExample?: string;
   category: string;
+  // The whole endpoint is a proposed contract, not yet implemented by the backend
+  proposed?: boolean;
+  // Request body fields that are proposed on an otherwise existing endpoint
+  proposedFields?: string[];
 }
 
 interface APIFunctionsProps {
-  language: 'he' | 'en' | 'ar';
+  language: Language;
   theme: 'light' | 'dark';
   appType: 'ulm' | 'aam';
 }
@@ -50,6 +58,9 @@ export const APIFunctions = ({ language, theme, appType }: APIFunctionsProps) =>
       name: 'שם',
       type: 'סוג',
       status: 'סטטוס',
+      proposed: 'מוצע',
+      proposedNote: 'חוזה מוצע: השרת עדיין לא מממש את נקודת הקצה. הקומפוננטים המשותפים קוראים לה כפי שמתועד כאן.',
+      proposedFields: 'שדות מוצעים, שעדיין לא קיימים בשרת:',
     },
     en: {
       title: 'API Functions Documentation',
@@ -69,6 +80,9 @@ export const APIFunctions = ({ language, theme, appType }: APIFunctionsProps) =>
       name: 'Name',
       type: 'Type',
       status: 'Status',
+      proposed: 'Proposed',
+      proposedNote: 'Proposed contract: the backend does not implement this endpoint yet. The shared components call it as documented here.',
+      proposedFields: 'Proposed fields, not in the backend yet:',
     },
     ar: {
       title: 'توثيق وظائف API',
@@ -88,6 +102,9 @@ export const APIFunctions = ({ language, theme, appType }: APIFunctionsProps) =>
       name: 'الاسم',
       type: 'النوع',
       status: 'الحالة',
+      proposed: 'مقترح',
+      proposedNote: 'عقد مقترح: لا ينفّذ الخادم نقطة النهاية هذه بعد. تستدعيها المكونات المشتركة كما هو موثّق هنا.',
+      proposedFields: 'حقول مقترحة، غير موجودة في الخادم بعد:',
     }
   };
 
@@ -114,6 +131,34 @@ export const APIFunctions = ({ language, theme, appType }: APIFunctionsProps) =>
     "email": "john@example.com",
     "role": "user"
   }
+}`
+    },
+    {
+      id: 'auth-oidc-login',
+      method: 'POST',
+      path: '/api/v1/auth/oidc/login',
+      title: 'OIDC Login',
+      description: 'Redeem the authorization code of an identity provider (PKCE) and receive access token',
+      authentication: false,
+      category: 'Authentication',
+      proposed: true,
+      parameters: [],
+      requestBody: `{
+  "provider": "string",
+  "code": "string",
+  "code_verifier": "string",
+  "redirect_uri": "string",
+  "nonce": "string"
+}`,
+      responseExample: `{
+  "access_token": "eyJ0eXAiOiJKV1QiLCJhbGc...",
+  "token_type": "bearer",
+  "user": {
+    "id": 1,
+    "username": "john_doe",
+    "email": "john@example.com",
+    "role": "user"
+  }
 }`
     },
     {
@@ -126,6 +171,25 @@ export const APIFunctions = ({ language, theme, appType }: APIFunctionsProps) =>
       category: 'Authentication',
       responseExample: `{
   "message": "Successfully logged out"
+}`
+    },
+    {
+      id: 'auth-password-policy',
+      method: 'GET',
+      path: '/api/v1/auth/password-policy',
+      title: 'Password Policy',
+      description: 'Password rules enforced when creating users and resetting passwords',
+      authentication: true,
+      category: 'Authentication',
+      proposed: true,
+      responseExample: `{
+  "min_length": 10,
+  "require_uppercase": true,
+  "require_lowercase": true,
+  "require_digit": true,
+  "require_symbol": false,
+  "banned_passwords": ["password", "12345678"],
+  "disallow_username": true
 }`
     },
     {
@@ -140,6 +204,15 @@ export const APIFunctions = ({ language, theme, appType }: APIFunctionsProps) =>
         { name: 'skip', type: 'integer', required: false, description: 'Number of records to skip' },
         { name: 'limit', type: 'integer', required: false, description: 'Maximum records to return' },
         { name: 'search', type: 'string', required: false, description: 'Search query' },
+        { name: 'sort_by', type: 'string', required: false, description: 'Comma-separated fields to sort by (e.g. role,created_at)', proposed: true },
+        { name: 'sort_order', type: 'string', required: false, description: 'Comma-separated directions matching sort_by (asc, desc)', proposed: true },
+        { name: 'username', type: 'string', required: false, description: 'Filter by username (contains)', proposed: true },
+        { name: 'email', type: 'string', required: false, description: 'Filter by email (contains)', proposed: true },
+        { name: 'phone', type: 'string', required: false, description: 'Filter by phone (contains)', proposed: true },
+        { name: 'role', type: 'string', required: false, description: 'Filter by exact role', proposed: true },
+        { name: 'status', type: 'string', required: false, description: 'Filter by status (active, inactive, scheduled_deactivation)', proposed: true },
+        { name: 'created_from', type: 'date', required: false, description: 'Created on or after (YYYY-MM-DD)', proposed: true },
+        { name: 'created_to', type: 'date', required: false, description: 'Created on or before (YYYY-MM-DD)', proposed: true },
       ],
       responseExample: `{
   "users": [
@@ -164,12 +237,14 @@ export const APIFunctions = ({ language, theme, appType }: APIFunctionsProps) =>
       description: 'Create a new user (Admin only)',
       authentication: true,
       category: 'Users',
+      proposedFields: ['must_change_password'],
       requestBody: `{
   "username": "string",
   "email": "user@example.com",
   "password": "string",
   "phone": "string",
-  "role": "user"
+  "role": "user",
+  "must_change_password": true
 }`,
       responseExample: `{
   "id": 2,
@@ -203,6 +278,214 @@ export const APIFunctions = ({ language, theme, appType }: APIFunctionsProps) =>
   "role": "admin",
   "updated_at": "2025-01-15T11:00:00Z"
 }`
+    },
+    {
+      id: 'users-reset-password',
+      method: 'POST',
+      path: '/api/v1/users/{id}/reset-password',
+      title: 'Reset User Password',
+      description: 'Set a new password for a user (Admin only)',
+      authentication: true,
+      category: 'Users',
+      proposed: true,
+      parameters: [
+        { name: 'id', type: 'integer', required: true, description: 'User ID' },
+      ],
+      requestBody: `{
+  "new_password": "string",
+  "must_change_password": true
+}`,
+      responseExample: `{
+  "message": "Password reset successfully"
+}`
+    },
+    {
+      id: 'users-mfa',
+      method: 'GET',
+      path: '/api/v1/users/{id}/mfa',
+      title: 'Get MFA Status',
+      description: 'Whether the user has set up two-factor authentication (Admin only)',
+      authentication: true,
+      category: 'Users',
+      proposed: true,
+      parameters: [
+        { name: 'id', type: 'integer', required: true, description: 'User ID' },
+      ],
+      responseExample: `{
+  "enabled": true,
+  "methods": ["totp"],
+  "enrolled_at": "2025-01-10T08:00:00Z",
+  "backup_codes_remaining": 8
+}`
+    },
+    {
+      id: 'users-mfa-reset',
+      method: 'DELETE',
+      path: '/api/v1/users/{id}/mfa',
+      title: 'Reset MFA',
+      description: 'Remove the user\'s MFA enrollment; they set it up again at their next login (Admin only)',
+      authentication: true,
+      category: 'Users',
+      proposed: true,
+      parameters: [
+        { name: 'id', type: 'integer', required: true, description: 'User ID' },
+      ],
+    },
+    {
+      id: 'users-sessions',
+      method: 'GET',
+      path: '/api/v1/users/{id}/sessions',
+      title: 'List User Sessions',
+      description: 'Devices the user is signed in on (Admin only)',
+      authentication: true,
+      category: 'Users',
+      proposed: true,
+      parameters: [
+        { name: 'id', type: 'integer', required: true, description: 'User ID' },
+      ],
+      responseExample: `{
+  "sessions": [
+    {
+      "id": "a1b2c3",
+      "device": "Safari on iPhone",
+      "ip_address": "192.0.2.20",
+      "location": "Haifa, IL",
+      "created_at": "2025-01-12T09:00:00Z",
+      "last_active_at": "2025-01-15T10:30:00Z",
+      "is_current": false
+    }
+  ]
+}`
+    },
+    {
+      id: 'users-sessions-revoke',
+      method: 'DELETE',
+      path: '/api/v1/users/{id}/sessions',
+      title: 'Sign Out User',
+      description: 'End every session of the user; DELETE /users/{id}/sessions/{session_id} ends a single one (Admin only)',
+      authentication: true,
+      category: 'Users',
+      proposed: true,
+      parameters: [
+        { name: 'id', type: 'integer', required: true, description: 'User ID' },
+      ],
+    },
+    {
+      id: 'users-audit-log',
+      method: 'GET',
+      path: '/api/v1/users/{id}/audit-log',
+      title: 'User Audit Log',
+      description: 'Administrative changes to the user, newest first (Admin only)',
+      authentication: true,
+      category: 'Users',
+      proposed: true,
+      parameters: [
+        { name: 'id', type: 'integer', required: true, description: 'User ID' },
+        { name: 'skip', type: 'integer', required: false, description: 'Number of records to skip' },
+        { name: 'limit', type: 'integer', required: false, description: 'Maximum records to return' },
+      ],
+      responseExample: `{
+  "entries": [
+    {
+      "id": 311,
+      "action": "user.updated",
+      "actor_username": "admin",
+      "ip_address": "192.0.2.1",
+      "changes": [{ "field": "role", "old_value": "user", "new_value": "admin" }],
+      "created_at": "2025-01-15T11:00:00Z"
+    }
+  ],
+  "total": 1
+}`
+    },
+    {
+      id: 'me-update',
+      method: 'PUT',
+      path: '/api/v1/users/me',
+      title: 'Update Own Profile',
+      description: 'Update the signed-in user\'s name, contact details and preferred language',
+      authentication: true,
+      category: 'Account',
+      requestBody: `{
+  "first_name": "string",
+  "last_name": "string",
+  "email": "user@example.com",
+  "phone": "string",
+  "preferred_language": "he"
+}`,
+      responseExample: `{
+  "id": 2,
+  "username": "john_doe",
+  "first_name": "John",
+  "last_name": "Doe",
+  "email": "john@example.com",
+  "preferred_language": "he"
+}`
+    },
+    {
+      id: 'me-change-password',
+      method: 'PUT',
+      path: '/api/v1/users/me/password',
+      title: 'Change Own Password',
+      description: 'Change the signed-in user\'s password; the current password is required',
+      authentication: true,
+      category: 'Account',
+      requestBody: `{
+  "current_password": "string",
+  "new_password": "string"
+}`,
+      responseExample: `{
+  "message": "Password changed successfully"
+}`
+    },
+    {
+      id: 'me-sessions',
+      method: 'GET',
+      path: '/api/v1/users/me/sessions',
+      title: 'List Signed-in Devices',
+      description: 'Active sessions of the signed-in user; the requesting session has is_current set',
+      authentication: true,
+      category: 'Account',
+      proposed: true,
+      responseExample: `{
+  "sessions": [
+    {
+      "id": "a1b2c3",
+      "device": "Chrome on Windows",
+      "ip_address": "192.0.2.10",
+      "location": "Tel Aviv, IL",
+      "created_at": "2025-01-10T08:00:00Z",
+      "last_active_at": "2025-01-15T10:30:00Z",
+      "is_current": true
+    }
+  ]
+}`
+    },
+    {
+      id: 'me-sessions-revoke',
+      method: 'DELETE',
+      path: '/api/v1/users/me/sessions/{id}',
+      title: 'Sign Out Device',
+      description: 'End one of the signed-in user\'s other sessions',
+      authentication: true,
+      category: 'Account',
+      proposed: true,
+      parameters: [
+        { name: 'id', type: 'string', required: true, description: 'Session ID' },
+      ],
+    },
+    {
+      id: 'me-sessions-revoke-others',
+      method: 'DELETE',
+      path: '/api/v1/users/me/sessions',
+      title: 'Sign Out Other Devices',
+      description: 'End every session of the signed-in user except the requesting one',
+      authentication: true,
+      category: 'Account',
+      proposed: true,
+      parameters: [
+        { name: 'keep_current', type: 'boolean', required: false, description: 'Keep the requesting session (default true)' },
+      ],
     }
   ];
 
@@ -271,6 +554,82 @@ export const APIFunctions = ({ language, theme, appType }: APIFunctionsProps) =>
       "permissions": ["users.read", "users.write", "roles.read"]
     }
   ]
+}`
+    },
+    {
+      id: 'roles-create',
+      method: 'POST',
+      path: '/api/v1/roles',
+      title: 'Create Role',
+      description: 'Create a role, optionally with an initial permission list',
+      authentication: true,
+      category: 'Permissions',
+      requestBody: `{
+  "name": "support",
+  "permissions": ["users.read"]
+}`,
+      responseExample: `{
+  "id": 4,
+  "name": "support",
+  "permissions": ["users.read"]
+}`
+    },
+    {
+      id: 'roles-rename',
+      method: 'PUT',
+      path: '/api/v1/roles/{id}',
+      title: 'Rename Role',
+      description: 'Change the name of a role',
+      authentication: true,
+      category: 'Permissions',
+      proposed: true,
+      parameters: [
+        { name: 'id', type: 'integer', required: true, description: 'Role ID' },
+      ],
+      requestBody: `{
+  "name": "helpdesk"
+}`,
+      responseExample: `{
+  "id": 4,
+  "name": "helpdesk",
+  "permissions": ["users.read"]
+}`
+    },
+    {
+      id: 'roles-permissions',
+      method: 'PUT',
+      path: '/api/v1/roles/{id}/permissions',
+      title: 'Update Role Permissions',
+      description: 'Replace the permission list of a role',
+      authentication: true,
+      category: 'Permissions',
+      proposed: true,
+      parameters: [
+        { name: 'id', type: 'integer', required: true, description: 'Role ID' },
+      ],
+      requestBody: `{
+  "permissions": ["users.read", "users.write"]
+}`,
+      responseExample: `{
+  "id": 4,
+  "name": "helpdesk",
+  "permissions": ["users.read", "users.write"]
+}`
+    },
+    {
+      id: 'roles-delete',
+      method: 'DELETE',
+      path: '/api/v1/roles/{id}',
+      title: 'Delete Role',
+      description: 'Delete a role',
+      authentication: true,
+      category: 'Permissions',
+      proposed: true,
+      parameters: [
+        { name: 'id', type: 'integer', required: true, description: 'Role ID' },
+      ],
+      responseExample: `{
+  "message": "Role deleted successfully"
 }`
     },
     {
@@ -316,7 +675,7 @@ export const APIFunctions = ({ language, theme, appType }: APIFunctionsProps) =>
   };
 
   return (
-    <div className={`api-functions ${theme}`} dir={language === 'he' || language === 'ar' ? 'rtl' : 'ltr'}>
+    <div className={`api-functions ${theme}`} dir={getDirection(language)}>
       <div className="api-header">
         <h1 className="api-title">{t[language].title}</h1>
         <p className="api-subtitle">{t[language].subtitle}</p>
@@ -352,7 +711,10 @@ export const APIFunctions = ({ language, theme, appType }: APIFunctionsProps) =>
                   {endpoint.method}
                 </span>
                 <div className="endpoint-info">
-                  <div className="endpoint-title">{endpoint.title}</div>
+                  <div className="endpoint-title">
+                    {endpoint.title}
+                    {endpoint.proposed && <span className="proposed-badge">{t[language].proposed}</span>}
+                  </div>
                   <code className="endpoint-path">{endpoint.path}</code>
                 </div>
               </div>
@@ -382,6 +744,10 @@ export const APIFunctions = ({ language, theme, appType }: APIFunctionsProps) =>
                     🔒 {t[language].authentication} {t[language].required}
                   </div>
                 )}
+
+                {selectedEndpoint.proposed && (
+                  <div className="proposed-note">🚧 {t[language].proposedNote}</div>
+                )}
               </div>
 
               {selectedEndpoint.parameters && selectedEndpoint.parameters.length > 0 && (
@@ -395,7 +761,10 @@ export const APIFunctions = ({ language, theme, appType }: APIFunctionsProps) =>
                         <span className={`param-required ${param.required ? 'required' : 'optional'}`}>
                           {param.required ? t[language].required : t[language].optional}
                         </span>
-                        <span className="param-description">{param.description}</span>
+                        <span className="param-description">
+                          {param.proposed && <span className="proposed-badge">{t[language].proposed}</span>}
+                          {param.description}
+                        </span>
                       </div>
                     ))}
                   </div>
@@ -406,6 +775,11 @@ export const APIFunctions = ({ language, theme, appType }: APIFunctionsProps) =>
                 <div className="detail-section">
                   <h3 className="section-title">{t[language].requestBody}</h3>
                   <pre className="code-block">{selectedEndpoint.requestBody}</pre>
+                  {selectedEndpoint.proposedFields && selectedEndpoint.proposedFields.length > 0 && (
+                    <p className="proposed-note">
+                      🚧 {t[language].proposedFields} <code>{selectedEndpoint.proposedFields.join(', ')}</code>
+                    </p>
+                  )}
                 </div>
               )}
 
@@ -1,5 +1,7 @@
 import { useState } from 'react';
 import './APIUIEndpoints.css';
+import type { Language } from '../types';
+import { getDirection, isRTL } from '../i18n/locales';
 
 interface Endpoint {
   method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
@@ -16,7 +18,7 @@ interface PageEndpoints {
 }
 
 interface APIUIEndpointsProps {
-  language: 'he' | 'en' | 'ar';
+  language: Language;
   theme: 'light' | 'dark';
   appType: 'ulm' | 'aam';
 }
@@ -82,6 +84,23 @@ export const APIUIEndpoints = ({ language, theme, appType }: APIUIEndpointsProps
         { method: 'DELETE', path: '/api/v1/users/{id}', description: 'Delete user', used: false },
       ]
     },
+    {
+      page: 'User Details',
+      route: '/users/all?user={id}',
+      icon: '🪪',
+      endpoints: [
+        { method: 'GET', path: '/api/v1/users/{id}', description: 'Get user', used: true },
+        { method: 'PUT', path: '/api/v1/users/{id}', description: 'Update user', used: true },
+        { method: 'GET', path: '/api/v1/users/{id}/activity-history', description: 'Get activity history', used: true },
+        { method: 'POST', path: '/api/v1/users/{id}/reset-password', description: 'Reset password', used: true },
+        { method: 'GET', path: '/api/v1/users/{id}/mfa', description: 'Get MFA status', used: true },
+        { method: 'DELETE', path: '/api/v1/users/{id}/mfa', description: 'Reset MFA', used: true },
+        { method: 'GET', path: '/api/v1/users/{id}/sessions', description: 'List signed-in devices', used: true },
+        { method: 'DELETE', path: '/api/v1/users/{id}/sessions/{session_id}', description: 'Sign out a device', used: true },
+        { method: 'DELETE', path: '/api/v1/users/{id}/sessions', description: 'Sign out all devices', used: true },
+        { method: 'GET', path: '/api/v1/users/{id}/audit-log', description: 'Get audit log', used: true },
+      ]
+    },
     {
       page: 'Add User',
       route: '/users/add',
@@ -98,7 +117,10 @@ export const APIUIEndpoints = ({ language, theme, appType }: APIUIEndpointsProps
       endpoints: [
         { method: 'GET', path: '/api/v1/auth/me', description: 'Get current user', used: true },
         { method: 'PUT', path: '/api/v1/users/me', description: 'Update profile', used: true },
-        { method: 'PUT', path: '/api/v1/users/me/password', description: 'Change password', used: false },
+        { method: 'PUT', path: '/api/v1/users/me/password', description: 'Change password', used: true },
+        { method: 'GET', path: '/api/v1/users/me/sessions', description: 'List signed-in devices', used: true },
+        { method: 'DELETE', path: '/api/v1/users/me/sessions/{id}', description: 'Sign out a device', used: true },
+        { method: 'DELETE', path: '/api/v1/users/me/sessions', description: 'Sign out other devices', used: true },
       ]
     },
     {
@@ -107,8 +129,9 @@ export const APIUIEndpoints = ({ language, theme, appType }: APIUIEndpointsProps
       icon: '🔐',
       endpoints: [
         { method: 'POST', path: '/api/v1/auth/login', description: 'User login', used: true },
+        { method: 'POST', path: '/api/v1/auth/oidc/login', description: 'Sign in with an identity provider', used: true },
         { method: 'POST', path: '/api/v1/auth/logout', description: 'User logout', used: true },
-        { method: 'POST', path: '/api/v1/auth/refresh', description: 'Refresh token', used: false },
+        { method: 'POST', path: '/api/v1/auth/refresh', description: 'Refresh token', used: true },
       ]
     }
   ];
@@ -141,7 +164,10 @@ export const APIUIEndpoints = ({ language, theme, appType }: APIUIEndpointsProps
       endpoints: [
         { method: 'GET', path: '/api/v1/roles', description: 'Get all roles', used: true },
         { method: 'POST', path: '/api/v1/roles', description: 'Create new role', used: true },
+        { method: 'PUT', path: '/api/v1/roles/{id}', description: 'Rename role', used: true },
         { method: 'PUT', path: '/api/v1/roles/{id}/permissions', description: 'Update role permissions', used: true },
+        { method: 'DELETE', path: '/api/v1/roles/{id}', description: 'Delete role', used: true },
+        { method: 'GET', path: '/api/v1/users?role={name}', description: 'Users assigned to a role', used: true },
       ]
     },
     {
@@ -177,7 +203,7 @@ export const APIUIEndpoints = ({ language, theme, appType }: APIUIEndpointsProps
   };
 
   return (
-    <div className={`api-ui-endpoints ${theme}`} dir={language === 'he' || language === 'ar' ? 'rtl' : 'ltr'}>
+    <div className={`api-ui-endpoints ${theme}`} dir={getDirection(language)}>
       <div className="api-header">
         <h1 className="api-title">{t[language].title}</h1>
         <p className="api-subtitle">{t[language].subtitle}</p>
@@ -200,7 +226,7 @@ export const APIUIEndpoints = ({ language, theme, appType }: APIUIEndpointsProps
                 <span className="page-name">{page.page}</span>
                 <span className="page-route">{page.route}</span>
                 <span className={`expand-icon ${expandedPages.includes(page.page) ? 'expanded' : ''}`}>
-                  {language === 'he' ? '◀' : '▶'}
+                  {isRTL(language) ? '◀' : '▶'}
                 </span>
               </div>
               
@@ -1,5 +1,14 @@
-import { useState, type FormEvent } from 'react';
+import { useState, useMemo, type FormEvent } from 'react';
 import './AddUserModal.css';
+import type { Language, PasswordPolicy } from '../types';
+import { getDirection } from '../i18n/locales';
+import { createNewUserSchema, type NewUserValues } from './validateNewUser';
+import { useOvuApi, getApiFormErrors } from '../api';
+import { unique, type ValidationSchema } from '../utils/validation';
+import { useFormValidation } from '../utils/useFormValidation';
+import { PasswordStrengthMeter } from '../PasswordPolicy/PasswordStrengthMeter';
+import { PasswordActions } from '../PasswordPolicy/PasswordActions';
+import { usePasswordPolicy } from '../PasswordPolicy/usePasswordPolicy';
 
 interface AddUserModalProps {
   onClose: () => void;
@@ -9,10 +18,15 @@ interface AddUserModalProps {
     password: string;
     phone: string;
     role: string;
+    must_change_password: boolean;
   }) => Promise<void>;
-  language: 'he' | 'en';
+  language: Language;
+  // Loaded from the policy endpoint when not given
+  passwordPolicy?: PasswordPolicy;
 }
 
+const FORM_FIELDS = ['username', 'email', 'password', 'phone', 'role'] as const;
+
 const translations = {
   he: {
     title: 'הוספת משתמש חדש',
@@ -26,9 +40,8 @@ const translations = {
     cancel: 'ביטול',
     add: 'הוסף',
     adding: 'מוסיף...',
-    required: 'שדה חובה',
-    passwordTooShort: 'הסיסמה חייבת להכיל לפחות 6 תווים',
-    invalidEmail: 'כתובת אימייל לא תקינה'
+    checking: 'בודק...',
+    mustChangePassword: 'חייב לשנות סיסמה בהתחברות הבאה'
   },
   en: {
     title: 'Add New User',
@@ -42,50 +55,82 @@ const translations = {
     cancel: 'Cancel',
     add: 'Add',
     adding: 'Adding...',
-    required: 'Required field',
-    passwordTooShort: 'Password must be at least 6 characters',
-    invalidEmail: 'Invalid email address'
+    checking: 'Checking...',
+    mustChangePassword: 'Require password change at next login'
+  },
+  ar: {
+    title: 'إضافة مستخدم جديد',
+    username: 'اسم المستخدم',
+    email: 'البريد الإلكتروني',
+    password: 'كلمة المرور',
+    phone: 'الهاتف',
+    role: 'الدور',
+    user: 'مستخدم',
+    admin: 'مدير',
+    cancel: 'إلغاء',
+    add: 'إضافة',
+    adding: 'جارٍ الإضافة...',
+    checking: 'جارٍ التحقق...',
+    mustChangePassword: 'يجب تغيير كلمة المرور عند تسجيل الدخول التالي'
   }
 };
 
-export const AddUserModal = ({ onClose, onAdd, language }: AddUserModalProps) => {
+export const AddUserModal = ({ onClose, onAdd, language, passwordPolicy }: AddUserModalProps) => {
   const [username, setUsername] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [phone, setPhone] = useState('');
   const [role, setRole] = useState('user');
+  const [mustChangePassword, setMustChangePassword] = useState(true);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showPassword, setShowPassword] = useState(false);
+  const api = useOvuApi();
+  const policy = usePasswordPolicy(passwordPolicy);
 
   const t = translations[language];
 
-  const handleSubmit = async (e: FormEvent) => {
-    e.preventDefault();
-    setError(null);
+  const schema = useMemo<ValidationSchema<NewUserValues>>(() => {
+    const baseSchema = createNewUserSchema(policy);
+    return {
+      ...baseSchema,
+      username: {
+        ...baseSchema.username,
+        asyncValidators: [unique(value => api.isUserFieldTaken('username', value), 'username_taken')],
+      },
+      email: {
+        ...baseSchema.email,
+        asyncValidators: [unique(value => api.isUserFieldTaken('email', value), 'email_taken')],
+      },
+    };
+  }, [api, policy]);
 
-    // Validation
-    if (!username || !email || !password) {
-      setError(t.required);
-      return;
-    }
+  const {
+    errors: fieldErrors,
+    validating,
+    validateField,
+    validateForm,
+    clearError,
+    setServerErrors,
+  } = useFormValidation(schema, language);
 
-    if (password.length < 6) {
-      setError(t.passwordTooShort);
-      return;
-    }
+  const values: NewUserValues = { username, email, password, phone };
 
-    if (!email.includes('@')) {
-      setError(t.invalidEmail);
-      return;
-    }
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
 
     setLoading(true);
     try {
-      await onAdd({ username, email, password, phone, role });
+      if (!(await validateForm(values))) return;
+
+      await onAdd({ username, email, password, phone, role, must_change_password: mustChangePassword });
       onClose();
-    } catch (err: any) {
-      setError(err.message || 'Failed to add user');
+    } catch (err) {
+      // Server-side validation (e.g. username already taken) is shown next to the field it belongs to
+      const errors = getApiFormErrors(err, FORM_FIELDS);
+      setServerErrors(errors.fieldErrors);
+      setError(errors.formError);
     } finally {
       setLoading(false);
     }
@@ -95,7 +140,7 @@ export const AddUserModal = ({ onClose, onAdd, language }: AddUserModalProps) =>
     <div className="modal-backdrop" onClick={onClose}>
       <div 
         className="modal-content add-user-modal" 
-        dir={language === 'he' ? 'rtl' : 'ltr'}
+        dir={getDirection(language)}
         onClick={(e) => e.stopPropagation()}
       >
         <div className="modal-header">
@@ -105,7 +150,7 @@ export const AddUserModal = ({ onClose, onAdd, language }: AddUserModalProps) =>
           </button>
         </div>
 
-        <form onSubmit={handleSubmit}>
+        <form onSubmit={handleSubmit} noValidate>
           <div className="modal-body">
             <div className="form-group">
               <label htmlFor="username">{t.username} *</label>
@@ -113,11 +158,18 @@ export const AddUserModal = ({ onClose, onAdd, language }: AddUserModalProps) =>
                 type="text"
                 id="username"
                 value={username}
-                onChange={(e) => setUsername(e.target.value)}
+                aria-invalid={!!fieldErrors.username}
+                onChange={(e) => {
+                  setUsername(e.target.value);
+                  clearError('username');
+                }}
+                onBlur={() => validateField('username', values)}
                 required
                 autoFocus
                 disabled={loading}
               />
+              {fieldErrors.username && <span className="field-error">{fieldErrors.username}</span>}
+              {validating.username && !fieldErrors.username && <span className="field-hint">{t.checking}</span>}
             </div>
 
             <div className="form-group">
@@ -126,10 +178,17 @@ export const AddUserModal = ({ onClose, onAdd, language }: AddUserModalProps) =>
                 type="email"
                 id="email"
                 value={email}
-                onChange={(e) => setEmail(e.target.value)}
+                aria-invalid={!!fieldErrors.email}
+                onChange={(e) => {
+                  setEmail(e.target.value);
+                  clearError('email');
+                }}
+                onBlur={() => validateField('email', values)}
                 required
                 disabled={loading}
               />
+              {fieldErrors.email && <span className="field-error">{fieldErrors.email}</span>}
+              {validating.email && !fieldErrors.email && <span className="field-hint">{t.checking}</span>}
             </div>
 
             <div className="form-group">
@@ -139,7 +198,12 @@ export const AddUserModal = ({ onClose, onAdd, language }: AddUserModalProps) =>
                   type={showPassword ? 'text' : 'password'}
                   id="password"
                   value={password}
-                  onChange={(e) => setPassword(e.target.value)}
+                  aria-invalid={!!fieldErrors.password}
+                  onChange={(e) => {
+                    setPassword(e.target.value);
+                    clearError('password');
+                  }}
+                  onBlur={() => validateField('password', values)}
                   required
                   disabled={loading}
                 />
@@ -152,6 +216,32 @@ export const AddUserModal = ({ onClose, onAdd, language }: AddUserModalProps) =>
                   {showPassword ? '👁️' : '👁️‍🗨️'}
                 </button>
               </div>
+              {fieldErrors.password && <span className="field-error">{fieldErrors.password}</span>}
+              <PasswordStrengthMeter password={password} policy={policy} username={username} language={language} />
+              <PasswordActions
+                password={password}
+                policy={policy}
+                username={username}
+                language={language}
+                disabled={loading}
+                onGenerate={(generated) => {
+                  setPassword(generated);
+                  setShowPassword(true);
+                  clearError('password');
+                }}
+              />
+            </div>
+
+            <div className="form-group">
+              <label className="force-password-change">
+                <input
+                  type="checkbox"
+                  checked={mustChangePassword}
+                  onChange={(e) => setMustChangePassword(e.target.checked)}
+                  disabled={loading}
+                />
+                {t.mustChangePassword}
+              </label>
             </div>
 
             <div className="form-group">
@@ -160,10 +250,16 @@ export const AddUserModal = ({ onClose, onAdd, language }: AddUserModalProps) =>
                 type="tel"
                 id="phone"
                 value={phone}
-                onChange={(e) => setPhone(e.target.value)}
+                aria-invalid={!!fieldErrors.phone}
+                onChange={(e) => {
+                  setPhone(e.target.value);
+                  clearError('phone');
+                }}
+                onBlur={() => validateField('phone', values)}
                 disabled={loading}
                 placeholder="+972-xx-xxx-xxxx"
               />
+              {fieldErrors.phone && <span className="field-error">{fieldErrors.phone}</span>}
             </div>
 
             <div className="form-group">
@@ -171,12 +267,14 @@ export const AddUserModal = ({ onClose, onAdd, language }: AddUserModalProps) =>
               <select
                 id="role"
                 value={role}
+                aria-invalid={!!fieldErrors.role}
                 onChange={(e) => setRole(e.target.value)}
                 disabled={loading}
               >
                 <option value="user">{t.user}</option>
                 <option value="admin">{t.admin}</option>
               </select>
+              {fieldErrors.role && <span className="field-error">{fieldErrors.role}</span>}
             </div>
 
             {error && <div className="error-message">{error}</div>}
@@ -1 +1,3 @@
 export { AddUserModal } from './AddUserModal';
+export { validateNewUser, createNewUserSchema } from './validateNewUser';
+export type { NewUserValues } from './validateNewUser';
@@ -0,0 +1,31 @@
+// Validation rules for creating a user, shared by AddUserModal and the bulk import wizard
+import type { PasswordPolicy } from '../types';
+import {
+  required,
+  email,
+  phone,
+  validateSchema,
+  type ValidationSchema,
+  type ValidationErrors,
+} from '../utils/validation';
+import { DEFAULT_PASSWORD_POLICY, passwordPolicyValidator } from '../PasswordPolicy/passwordPolicy';
+
+export interface NewUserValues {
+  username: string;
+  email: string;
+  password: string;
+  phone: string;
+  [field: string]: string;
+}
+
+export const createNewUserSchema = (policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY): ValidationSchema<NewUserValues> => ({
+  username: { validators: [required] },
+  email: { validators: [required, email] },
+  password: { validators: [required, passwordPolicyValidator<NewUserValues>(policy)] },
+  phone: { validators: [phone] },
+});
+
+export const validateNewUser = (
+  user: NewUserValues,
+  policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY
+): ValidationErrors<NewUserValues> => validateSchema(createNewUserSchema(policy), user);
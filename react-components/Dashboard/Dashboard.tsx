@@ -1,40 +1,45 @@
 import './Dashboard.css';
-
-interface StatCardData {
-  icon: string;
-  label: string;
-  labelEn: string;
-  value: number | string;
-  change?: number;
-  color: 'blue' | 'purple' | 'green' | 'orange';
-}
-
-interface ActivityItem {
-  id: string;
-  icon: string;
-  message: string;
-  messageEn: string;
-  timestamp: string;
-}
+import type { Language, StatCardData, ActivityItem, QuickAction } from '../types';
+import { getDirection, localize } from '../i18n/locales';
+import { parseDate } from '../i18n/format';
+import { useFormatter } from '../i18n/I18nProvider';
 
 interface DashboardProps {
-  language: 'he' | 'en';
+  language: Language;
   theme: 'light' | 'dark';
   stats: StatCardData[];
   activities: ActivityItem[];
-  quickActions?: {
-    label: string;
-    labelEn: string;
-    icon: string;
-    onClick: () => void;
-  }[];
+  quickActions?: QuickAction[];
 }
 
+const translations = {
+  he: {
+    welcome: 'ברוך הבא',
+    recentActivity: 'פעילות אחרונה',
+    quickActions: 'פעולות מהירות',
+    noActivity: 'אין פעילות אחרונה',
+  },
+  en: {
+    welcome: 'Welcome',
+    recentActivity: 'Recent Activity',
+    quickActions: 'Quick Actions',
+    noActivity: 'No recent activity',
+  },
+  ar: {
+    welcome: 'مرحبًا',
+    recentActivity: 'النشاط الأخير',
+    quickActions: 'إجراءات سريعة',
+    noActivity: 'لا يوجد نشاط حديث',
+  },
+};
+
 export const Dashboard = ({ language, theme, stats, activities, quickActions }: DashboardProps) => {
-  const t = {
-    welcome: language === 'he' ? 'ברוך הבא' : 'Welcome',
-    recentActivity: language === 'he' ? 'פעילות אחרונה' : 'Recent Activity',
-    quickActions: language === 'he' ? 'פעולות מהירות' : 'Quick Actions',
+  const t = translations[language] || translations.en;
+  const { formatNumber, formatPercent, formatRelativeTime, formatDateTime } = useFormatter(language);
+
+  const formatStatValue = (stat: StatCardData) => {
+    if (typeof stat.value !== 'number') return stat.value;
+    return stat.valueFormat === 'percent' ? formatPercent(stat.value) : formatNumber(stat.value);
   };
 
   const getColorClass = (color: string) => {
@@ -42,7 +47,7 @@ export const Dashboard = ({ language, theme, stats, activities, quickActions }:
   };
 
   return (
-    <div className={`dashboard ${theme}`}>
+    <div className={`dashboard ${theme}`} dir={getDirection(language)}>
       <div className="dashboard-header">
         <h1 className="dashboard-title">{t.welcome}</h1>
       </div>
@@ -54,12 +59,12 @@ export const Dashboard = ({ language, theme, stats, activities, quickActions }:
             <div className="stat-icon">{stat.icon}</div>
             <div className="stat-content">
               <div className="stat-label">
-                {language === 'he' ? stat.label : stat.labelEn}
+                {localize(stat.label, language)}
               </div>
-              <div className="stat-value">{stat.value}</div>
+              <div className="stat-value">{formatStatValue(stat)}</div>
               {stat.change !== undefined && (
                 <div className={`stat-change ${stat.change >= 0 ? 'positive' : 'negative'}`}>
-                  {stat.change >= 0 ? '↑' : '↓'} {Math.abs(stat.change)}%
+                  {stat.change >= 0 ? '↑' : '↓'} {formatPercent(Math.abs(stat.change))}
                 </div>
               )}
             </div>
@@ -81,7 +86,7 @@ export const Dashboard = ({ language, theme, stats, activities, quickActions }:
                 >
                   <span className="action-icon">{action.icon}</span>
                   <span className="action-label">
-                    {language === 'he' ? action.label : action.labelEn}
+                    {localize(action.label, language)}
                   </span>
                 </button>
               ))}
@@ -95,7 +100,7 @@ export const Dashboard = ({ language, theme, stats, activities, quickActions }:
           <div className="activity-list">
             {activities.length === 0 ? (
               <div className="no-activity">
-                {language === 'he' ? 'אין פעילות אחרונה' : 'No recent activity'}
+                {t.noActivity}
               </div>
             ) : (
               activities.map((activity) => (
@@ -103,9 +108,19 @@ export const Dashboard = ({ language, theme, stats, activities, quickActions }:
                   <div className="activity-icon">{activity.icon}</div>
                   <div className="activity-content">
                     <div className="activity-message">
-                      {language === 'he' ? activity.message : activity.messageEn}
+                      {localize(activity.message, language)}
                     </div>
-                    <div className="activity-timestamp">{activity.timestamp}</div>
+                    {parseDate(activity.timestamp) ? (
+                      <time
+                        className="activity-timestamp"
+                        dateTime={activity.timestamp}
+                        title={formatDateTime(activity.timestamp)}
+                      >
+                        {formatRelativeTime(activity.timestamp)}
+                      </time>
+                    ) : (
+                      <div className="activity-timestamp">{activity.timestamp}</div>
+                    )}
                   </div>
                 </div>
               ))
@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
 import './DeactivateUserModal.css';
+import type { Language } from '../types';
+import { isRTL as isRTLLanguage } from '../i18n/locales';
 
 interface DeactivateUserModalProps {
   isOpen: boolean;
@@ -20,7 +22,7 @@ interface DeactivateUserModalProps {
     scheduledDateRequired: string;
     scheduledDateMustBeFuture: string;
   };
-  preferredLanguage?: string;
+  preferredLanguage?: Language;
 }
 
 export const DeactivateUserModal: React.FC<DeactivateUserModalProps> = ({
@@ -36,7 +38,7 @@ export const DeactivateUserModal: React.FC<DeactivateUserModalProps> = ({
   const [reason, setReason] = useState<string>('');
   const [error, setError] = useState<string>('');
 
-  const isRTL = preferredLanguage === 'he' || preferredLanguage === 'ar';
+  const isRTL = isRTLLanguage(preferredLanguage);
 
   const handleConfirm = () => {
     setError('');
@@ -1,6 +1,9 @@
-import { useState, useEffect, type FormEvent } from 'react';
+import { useState, useEffect, useMemo, type FormEvent } from 'react';
 import type { Language } from '../types';
 import './EditUserModal.css';
+import { useOvuApi, getApiFormErrors } from '../api';
+import { required, email as emailFormat, phone as phoneFormat, unique, type ValidationSchema } from '../utils/validation';
+import { useFormValidation } from '../utils/useFormValidation';
 
 interface EditUserModalProps {
   user: {
@@ -13,8 +16,14 @@ interface EditUserModalProps {
   language: Language;
   onClose: () => void;
   onSave: (id: number, updates: { username: string; email: string; phone: string; role: string }) => Promise<void>;
+  // False keeps the role select read-only (no permission to change roles)
+  canChangeRole?: boolean;
 }
 
+const FORM_FIELDS = ['username', 'email', 'phone', 'role'] as const;
+
+type EditUserValues = Record<typeof FORM_FIELDS[number], string>;
+
 const translations = {
   he: {
     title: 'עריכת משתמש',
@@ -29,7 +38,8 @@ const translations = {
     },
     save: 'שמור',
     cancel: 'ביטול',
-    saving: 'שומר...'
+    saving: 'שומר...',
+    checking: 'בודק...'
   },
   en: {
     title: 'Edit User',
@@ -44,19 +54,62 @@ const translations = {
     },
     save: 'Save',
     cancel: 'Cancel',
-    saving: 'Saving...'
+    saving: 'Saving...',
+    checking: 'Checking...'
+  },
+  ar: {
+    title: 'تعديل المستخدم',
+    username: 'اسم المستخدم',
+    email: 'البريد الإلكتروني',
+    phone: 'الهاتف',
+    role: 'الدور',
+    roles: {
+      user: 'مستخدم',
+      admin: 'مدير',
+      super_admin: 'مدير عام'
+    },
+    save: 'حفظ',
+    cancel: 'إلغاء',
+    saving: 'جارٍ الحفظ...',
+    checking: 'جارٍ التحقق...'
   }
 };
 
-export const EditUserModal = ({ user, language, onClose, onSave }: EditUserModalProps) => {
+export const EditUserModal = ({ user, language, onClose, onSave, canChangeRole = true }: EditUserModalProps) => {
   const [username, setUsername] = useState(user.username);
   const [email, setEmail] = useState(user.email);
   const [phone, setPhone] = useState(user.phone || '');
   const [role, setRole] = useState(user.role);
   const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const api = useOvuApi();
 
   const t = translations[language];
 
+  // Uniqueness checks skip the user being edited
+  const schema = useMemo<ValidationSchema<EditUserValues>>(() => ({
+    username: {
+      validators: [required],
+      asyncValidators: [unique(value => api.isUserFieldTaken('username', value, user.id), 'username_taken')],
+    },
+    email: {
+      validators: [required, emailFormat],
+      asyncValidators: [unique(value => api.isUserFieldTaken('email', value, user.id), 'email_taken')],
+    },
+    phone: { validators: [phoneFormat] },
+  }), [api, user.id]);
+
+  const {
+    errors: fieldErrors,
+    validating,
+    validateField,
+    validateForm,
+    clearError,
+    setServerErrors,
+  } = useFormValidation(schema, language);
+
+  const values: EditUserValues = { username, email, phone, role };
+
   useEffect(() => {
     // Prevent body scroll when modal is open
     document.body.style.overflow = 'hidden';
@@ -68,11 +121,17 @@ export const EditUserModal = ({ user, language, onClose, onSave }: EditUserModal
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     setSaving(true);
+    setFormError(null);
     try {
+      if (!(await validateForm(values))) return;
+
       await onSave(user.id, { username, email, phone, role });
       onClose();
     } catch (error) {
       console.error('Failed to save user:', error);
+      const errors = getApiFormErrors(error, FORM_FIELDS);
+      setServerErrors(errors.fieldErrors);
+      setFormError(errors.formError);
     } finally {
       setSaving(false);
     }
@@ -93,17 +152,24 @@ export const EditUserModal = ({ user, language, onClose, onSave }: EditUserModal
           </button>
         </div>
 
-        <form className="modal-form" onSubmit={handleSubmit}>
+        <form className="modal-form" onSubmit={handleSubmit} noValidate>
           <div className="form-group">
             <label htmlFor="username">{t.username}</label>
             <input
               type="text"
               id="username"
               value={username}
-              onChange={(e) => setUsername(e.target.value)}
+              aria-invalid={!!fieldErrors.username}
+              onChange={(e) => {
+                setUsername(e.target.value);
+                clearError('username');
+              }}
+              onBlur={() => validateField('username', values)}
               required
               disabled={saving}
             />
+            {fieldErrors.username && <span className="field-error">{fieldErrors.username}</span>}
+            {validating.username && !fieldErrors.username && <span className="field-hint">{t.checking}</span>}
           </div>
 
           <div className="form-group">
@@ -112,10 +178,17 @@ export const EditUserModal = ({ user, language, onClose, onSave }: EditUserModal
               type="email"
               id="email"
               value={email}
-              onChange={(e) => setEmail(e.target.value)}
+              aria-invalid={!!fieldErrors.email}
+              onChange={(e) => {
+                setEmail(e.target.value);
+                clearError('email');
+              }}
+              onBlur={() => validateField('email', values)}
               required
               disabled={saving}
             />
+            {fieldErrors.email && <span className="field-error">{fieldErrors.email}</span>}
+            {validating.email && !fieldErrors.email && <span className="field-hint">{t.checking}</span>}
           </div>
 
           <div className="form-group">
@@ -124,10 +197,16 @@ export const EditUserModal = ({ user, language, onClose, onSave }: EditUserModal
               type="tel"
               id="phone"
               value={phone}
-              onChange={(e) => setPhone(e.target.value)}
+              aria-invalid={!!fieldErrors.phone}
+              onChange={(e) => {
+                setPhone(e.target.value);
+                clearError('phone');
+              }}
+              onBlur={() => validateField('phone', values)}
               disabled={saving}
               placeholder="+972-xx-xxx-xxxx"
             />
+            {fieldErrors.phone && <span className="field-error">{fieldErrors.phone}</span>}
           </div>
 
           <div className="form-group">
@@ -135,16 +214,20 @@ export const EditUserModal = ({ user, language, onClose, onSave }: EditUserModal
             <select
               id="role"
               value={role}
+              aria-invalid={!!fieldErrors.role}
               onChange={(e) => setRole(e.target.value)}
               required
-              disabled={saving}
+              disabled={saving || !canChangeRole}
             >
               <option value="user">{t.roles.user}</option>
               <option value="admin">{t.roles.admin}</option>
               <option value="super_admin">{t.roles.super_admin}</option>
             </select>
+            {fieldErrors.role && <span className="field-error">{fieldErrors.role}</span>}
           </div>
 
+          {formError && <div className="error-message">{formError}</div>}
+
           <div className="modal-actions">
             <button
               type="button"
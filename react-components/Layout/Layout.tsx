@@ -2,6 +2,14 @@ import { type ReactNode } from 'react';
 import { Sidebar } from '../Sidebar/Sidebar';
 import './Layout.css';
 import type { MenuItem, Theme, Language, UserInfo } from '../types';
+import { getDirection } from '../i18n/locales';
+import { canAccessPath, usePermissions } from '../permissions';
+
+const translations = {
+  he: { accessDenied: 'אין לך הרשאה לצפות בדף זה' },
+  en: { accessDenied: "You don't have permission to view this page" },
+  ar: { accessDenied: 'ليس لديك إذن لعرض هذه الصفحة' },
+};
 
 interface LayoutProps {
   children: ReactNode;
@@ -36,8 +44,12 @@ export const Layout = ({
   onLogout,
   translations: t,
 }: LayoutProps) => {
+  const { can, ready } = usePermissions();
+  const allowed = canAccessPath(menuItems, currentPath, can);
+  const accessDenied = (translations[language] || translations.en).accessDenied;
+
   return (
-    <div className="app-layout" dir={language === 'he' ? 'rtl' : 'ltr'}>
+    <div className="app-layout" dir={getDirection(language)}>
       <Sidebar
         menuItems={menuItems}
         currentPath={currentPath}
@@ -67,7 +79,13 @@ export const Layout = ({
         </header>
 
         <main className="main-container">
-          {children}
+          {/* Nothing until the permissions are known, so a denied page never flashes */}
+          {ready && (allowed ? children : (
+            <div className="access-denied" role="alert">
+              <span className="access-denied-icon">🔒</span>
+              <p>{accessDenied}</p>
+            </div>
+          ))}
         </main>
       </div>
     </div>
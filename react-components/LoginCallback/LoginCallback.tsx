@@ -0,0 +1,162 @@
+import { useEffect, useRef, useState } from 'react';
+import './LoginCallback.css';
+import type { Theme, Language, AppTranslations, IdentityProvider } from '../types';
+import { getApiErrorMessage } from '../api';
+import { LoginShell } from '../LoginPage';
+import { parseOidcCallback, stripOidcCallbackParams, type OidcCallbackSuccess } from '../auth/oidc';
+
+interface LoginCallbackProps {
+  theme: Theme;
+  language: Language;
+  translations: AppTranslations;
+  logoIcon: string;
+  logoColor?: 'blue' | 'purple';
+  onToggleTheme: () => void;
+  onToggleLanguage: () => void;
+  // The providers LoginPage offered; the callback is matched to one of them
+  providers: IdentityProvider[];
+  // Redeems the code, e.g. api.loginWithOidc(callback); a rejected promise shows its error
+  onExchange: (callback: OidcCallbackSuccess, provider: IdentityProvider) => Promise<void>;
+  // `returnTo` as given to startOidcLogin
+  onSuccess: (returnTo?: string) => void;
+  onBackToLogin: () => void;
+  // Defaults to the current URL, whose code and state are then removed from the address bar
+  callbackUrl?: string;
+  storage?: Storage;
+}
+
+// `error` is a parseOidcCallback error, 'unknown_provider', or 'exchange_failed' with the message as description
+type CallbackState = { status: 'exchanging' } | { status: 'error'; error: string; description?: string };
+
+const translations = {
+  he: {
+    exchanging: 'משלים את ההתחברות...',
+    title: 'ההתחברות נכשלה',
+    accessDenied: 'ההתחברות בוטלה אצל ספק הזהות.',
+    invalidState: 'בקשת ההתחברות אינה תקפה או שכבר נוצלה. התחל מחדש מדף ההתחברות.',
+    expired: 'ההתחברות לקחה יותר מדי זמן. נסה שוב.',
+    missingCode: 'ספק הזהות לא החזיר קוד הרשאה.',
+    unknownProvider: 'ספק הזהות אינו מוגדר באפליקציה.',
+    providerError: (error: string) => `ספק הזהות החזיר שגיאה: ${error}`,
+    back: 'חזרה להתחברות',
+  },
+  en: {
+    exchanging: 'Completing sign-in...',
+    title: 'Sign-in failed',
+    accessDenied: 'Sign-in was cancelled at the identity provider.',
+    invalidState: 'This sign-in request is not valid or was already used. Start again from the sign-in page.',
+    expired: 'The sign-in took too long. Try again.',
+    missingCode: 'The identity provider did not return an authorization code.',
+    unknownProvider: 'The identity provider is not configured in this app.',
+    providerError: (error: string) => `The identity provider returned an error: ${error}`,
+    back: 'Back to sign in',
+  },
+  ar: {
+    exchanging: 'جارٍ إكمال تسجيل الدخول...',
+    title: 'فشل تسجيل الدخول',
+    accessDenied: 'تم إلغاء تسجيل الدخول لدى موفر الهوية.',
+    invalidState: 'طلب تسجيل الدخول هذا غير صالح أو تم استخدامه بالفعل. ابدأ من جديد من صفحة تسجيل الدخول.',
+    expired: 'استغرق تسجيل الدخول وقتًا طويلاً. حاول مرة أخرى.',
+    missingCode: 'لم يُرجع موفر الهوية رمز التفويض.',
+    unknownProvider: 'موفر الهوية غير مُعد في هذا التطبيق.',
+    providerError: (error: string) => `أرجع موفر الهوية خطأ: ${error}`,
+    back: 'العودة إلى تسجيل الدخول',
+  },
+};
+
+/**
+ * The redirect target of an OIDC sign-in: verifies the state and hands the code and PKCE verifier to the app.
+ */
+export const LoginCallback = ({
+  theme,
+  language,
+  translations: appTranslations,
+  logoIcon,
+  logoColor,
+  onToggleTheme,
+  onToggleLanguage,
+  providers,
+  onExchange,
+  onSuccess,
+  onBackToLogin,
+  callbackUrl,
+  storage,
+}: LoginCallbackProps) => {
+  const [state, setState] = useState<CallbackState>({ status: 'exchanging' });
+  // The stored state is consumed on the first read, so the callback must be handled exactly once
+  const handledRef = useRef(false);
+
+  const t = translations[language] || translations.en;
+
+  const describeError = (error: string, description?: string) => {
+    switch (error) {
+      case 'access_denied':
+        return t.accessDenied;
+      case 'invalid_state':
+        return t.invalidState;
+      case 'expired':
+        return t.expired;
+      case 'missing_code':
+        return t.missingCode;
+      case 'unknown_provider':
+        return t.unknownProvider;
+      case 'exchange_failed':
+        return description;
+      default:
+        return t.providerError(description || error);
+    }
+  };
+
+  useEffect(() => {
+    if (handledRef.current) return;
+    handledRef.current = true;
+
+    const result = parseOidcCallback(callbackUrl ?? window.location.href, storage);
+    if (!callbackUrl) {
+      // The code is single-use; keep it out of the history and of any Referer header
+      window.history.replaceState(window.history.state, '', stripOidcCallbackParams(window.location.href));
+    }
+
+    if (result.type === 'error') {
+      setState({ status: 'error', error: result.error, description: result.description });
+      return;
+    }
+
+    const provider = providers.find(candidate => candidate.id === result.providerId);
+    if (!provider) {
+      setState({ status: 'error', error: 'unknown_provider' });
+      return;
+    }
+
+    onExchange(result, provider)
+      .then(() => onSuccess(result.returnTo))
+      .catch(err => setState({ status: 'error', error: 'exchange_failed', description: getApiErrorMessage(err) }));
+  }, []);
+
+  return (
+    <LoginShell
+      theme={theme}
+      language={language}
+      translations={appTranslations}
+      logoIcon={logoIcon}
+      logoColor={logoColor}
+      onToggleTheme={onToggleTheme}
+      onToggleLanguage={onToggleLanguage}
+    >
+      {state.status === 'exchanging' ? (
+        <div className="login-callback-progress" role="status">
+          <div className="login-callback-spinner" aria-hidden="true" />
+          <p className="login-step-prompt">{t.exchanging}</p>
+        </div>
+      ) : (
+        <>
+          <h1 className="login-title">{t.title}</h1>
+          <div className="error-message" role="alert">{describeError(state.error, state.description)}</div>
+          <button type="button" className="login-btn" onClick={onBackToLogin}>
+            {t.back}
+          </button>
+        </>
+      )}
+    </LoginShell>
+  );
+};
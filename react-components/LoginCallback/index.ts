@@ -0,0 +1 @@
+export { LoginCallback } from './LoginCallback';
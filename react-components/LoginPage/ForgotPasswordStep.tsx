@@ -0,0 +1,140 @@
+import { useState, type FormEvent } from 'react';
+import type { Language } from '../types';
+import { getApiErrorMessage } from '../api';
+import { required, email as emailValidator, type ValidationSchema } from '../utils/validation';
+import { useFormValidation } from '../utils/useFormValidation';
+
+interface ForgotPasswordStepProps {
+  language: Language;
+  // Pre-filled from the sign-in form when it holds an address
+  initialEmail: string;
+  onRequest: (email: string) => Promise<void>;
+  onBack: () => void;
+}
+
+type ForgotPasswordValues = { email: string };
+
+const schema: ValidationSchema<ForgotPasswordValues> = {
+  email: { validators: [required, emailValidator] },
+};
+
+export const forgotPasswordTranslations = {
+  he: {
+    link: 'שכחת סיסמה?',
+    title: 'שכחתי סיסמה',
+    prompt: 'הזן את כתובת הדוא"ל שלך ונשלח לך קישור לאיפוס הסיסמה',
+    email: 'דואר אלקטרוני',
+    send: 'שלח קישור',
+    sending: 'שולח...',
+    sentTitle: 'בדוק את תיבת הדואר',
+    sent: (email: string) => `אם קיים חשבון עם הכתובת ${email}, שלחנו אליו קישור לאיפוס הסיסמה.`,
+    resend: 'שלח שוב',
+    back: 'חזרה להתחברות',
+  },
+  en: {
+    link: 'Forgot password?',
+    title: 'Forgot Password',
+    prompt: "Enter your email address and we'll send you a password reset link",
+    email: 'Email',
+    send: 'Send reset link',
+    sending: 'Sending...',
+    sentTitle: 'Check your email',
+    sent: (email: string) => `If an account exists for ${email}, we've sent it a password reset link.`,
+    resend: 'Send again',
+    back: 'Back to sign in',
+  },
+  ar: {
+    link: 'نسيت كلمة المرور؟',
+    title: 'نسيت كلمة المرور',
+    prompt: 'أدخل عنوان بريدك الإلكتروني وسنرسل لك رابط إعادة تعيين كلمة المرور',
+    email: 'البريد الإلكتروني',
+    send: 'إرسال الرابط',
+    sending: 'جارٍ الإرسال...',
+    sentTitle: 'تحقق من بريدك الإلكتروني',
+    sent: (email: string) => `إذا كان هناك حساب بالعنوان ${email}، فقد أرسلنا إليه رابط إعادة تعيين كلمة المرور.`,
+    resend: 'إرسال مرة أخرى',
+    back: 'العودة إلى تسجيل الدخول',
+  },
+};
+
+export const ForgotPasswordStep = ({ language, initialEmail, onRequest, onBack }: ForgotPasswordStepProps) => {
+  const [email, setEmail] = useState(initialEmail);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // The address the link went to; the page never says whether an account has it
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const { errors: fieldErrors, validateField, validateForm, clearError } = useFormValidation(schema, language);
+
+  const t = forgotPasswordTranslations[language] || forgotPasswordTranslations.en;
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    const address = email.trim();
+    if (!(await validateForm({ email: address }))) return;
+
+    setSending(true);
+    try {
+      await onRequest(address);
+      setSentTo(address);
+    } catch (err) {
+      setError(getApiErrorMessage(err));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (sentTo) {
+    return (
+      <div className="login-form forgot-password-step" role="status">
+        <p className="login-step-prompt">
+          <strong>{t.sentTitle}</strong>
+          <br />
+          {t.sent(sentTo)}
+        </p>
+        <button type="button" className="login-btn" onClick={onBack}>
+          {t.back}
+        </button>
+        <div className="login-links">
+          <button type="button" className="link-btn" onClick={() => setSentTo(null)}>
+            {t.resend}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form className="login-form forgot-password-step" onSubmit={handleSubmit} noValidate>
+      <p className="login-step-prompt">{t.prompt}</p>
+      {error && <div className="error-message" role="alert">{error}</div>}
+      <div className="form-group">
+        <label htmlFor="forgot-password-email">{t.email}</label>
+        <input
+          type="email"
+          id="forgot-password-email"
+          autoComplete="email"
+          autoFocus
+          dir="ltr"
+          value={email}
+          onChange={(e) => {
+            setEmail(e.target.value);
+            clearError('email');
+          }}
+          onBlur={() => validateField('email', { email: email.trim() })}
+          aria-invalid={!!fieldErrors.email}
+          disabled={sending}
+        />
+        {fieldErrors.email && <span className="field-error">{fieldErrors.email}</span>}
+      </div>
+      <button type="submit" className="login-btn" disabled={sending}>
+        {sending ? t.sending : t.send}
+      </button>
+      <div className="login-links">
+        <button type="button" className="link-btn" onClick={onBack} disabled={sending}>
+          {t.back}
+        </button>
+      </div>
+    </form>
+  );
+};
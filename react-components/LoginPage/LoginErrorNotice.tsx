@@ -0,0 +1,90 @@
+import type { Language } from '../types';
+import { useFormatter } from '../i18n';
+import type { LoginError } from './loginErrors';
+
+interface LoginErrorNoticeProps {
+  error: LoginError;
+  language: Language;
+  // Epoch milliseconds, ticking while a countdown is shown
+  now: number;
+}
+
+const translations = {
+  he: {
+    invalidCredentials: 'שם המשתמש או הסיסמה שגויים',
+    attemptsRemaining: (count: number) =>
+      count === 1 ? 'נותר ניסיון אחד לפני נעילת החשבון' : `נותרו ${count} ניסיונות לפני נעילת החשבון`,
+    locked: 'החשבון ננעל בעקבות ניסיונות התחברות כושלים',
+    lockedUntil: (time: string, remaining: string) => `אפשר לנסות שוב ב-${time} (בעוד ${remaining}).`,
+    lockedNoEnd: 'פנה למנהל המערכת כדי לשחרר את הנעילה.',
+    rateLimited: 'יותר מדי ניסיונות התחברות',
+    retryIn: (remaining: string) => `נסה שוב בעוד ${remaining}.`,
+    deactivated: 'החשבון הושבת. פנה למנהל המערכת.',
+    captchaRequired: 'השלם את האימות כדי להמשיך',
+  },
+  en: {
+    invalidCredentials: 'Incorrect username or password',
+    attemptsRemaining: (count: number) =>
+      count === 1 ? '1 attempt left before the account is locked' : `${count} attempts left before the account is locked`,
+    locked: 'The account is locked after too many failed sign-in attempts',
+    lockedUntil: (time: string, remaining: string) => `You can try again at ${time} (in ${remaining}).`,
+    lockedNoEnd: 'Contact your administrator to unlock it.',
+    rateLimited: 'Too many sign-in attempts',
+    retryIn: (remaining: string) => `Try again in ${remaining}.`,
+    deactivated: 'This account has been deactivated. Contact your administrator.',
+    captchaRequired: 'Complete the verification to continue',
+  },
+  ar: {
+    invalidCredentials: 'اسم المستخدم أو كلمة المرور غير صحيحة',
+    attemptsRemaining: (count: number) =>
+      count === 1 ? 'تبقّت محاولة واحدة قبل قفل الحساب' : `تبقّت ${count} محاولات قبل قفل الحساب`,
+    locked: 'تم قفل الحساب بعد محاولات تسجيل دخول فاشلة كثيرة',
+    lockedUntil: (time: string, remaining: string) => `يمكنك المحاولة مرة أخرى في ${time} (بعد ${remaining}).`,
+    lockedNoEnd: 'تواصل مع المسؤول لإلغاء القفل.',
+    rateLimited: 'محاولات تسجيل دخول كثيرة جدًا',
+    retryIn: (remaining: string) => `حاول مرة أخرى بعد ${remaining}.`,
+    deactivated: 'تم تعطيل هذا الحساب. تواصل مع المسؤول.',
+    captchaRequired: 'أكمل التحقق للمتابعة',
+  },
+};
+
+export const LoginErrorNotice = ({ error, language, now }: LoginErrorNoticeProps) => {
+  const { formatDuration, formatTime } = useFormatter(language);
+  const t = translations[language] || translations.en;
+
+  // Whole seconds, rounded up so the countdown never shows zero while the form is still disabled
+  const remaining = (until: number) =>
+    formatDuration(Math.max(1000, Math.ceil((until - now) / 1000) * 1000), { maxUnits: 2 });
+
+  switch (error.type) {
+    case 'invalid_credentials':
+      return (
+        <div className="error-message" role="alert">
+          {t.invalidCredentials}
+          {error.attemptsRemaining !== undefined && (
+            <div className="login-error-detail">{t.attemptsRemaining(error.attemptsRemaining)}</div>
+          )}
+        </div>
+      );
+    case 'locked':
+      return (
+        <div className="error-message" role="alert">
+          {t.locked}
+          <div className="login-error-detail" aria-live="polite">
+            {error.until ? t.lockedUntil(formatTime(error.until), remaining(error.until)) : t.lockedNoEnd}
+          </div>
+        </div>
+      );
+    case 'rate_limited':
+      return (
+        <div className="error-message" role="alert">
+          {t.rateLimited}
+          <div className="login-error-detail" aria-live="polite">{t.retryIn(remaining(error.until))}</div>
+        </div>
+      );
+    case 'deactivated':
+      return <div className="error-message" role="alert">{t.deactivated}</div>;
+    case 'captcha_required':
+      return <div className="login-notice" role="status">{t.captchaRequired}</div>;
+  }
+};
@@ -1,18 +1,54 @@
-import { useState, type FormEvent } from 'react';
-import './LoginPage.css';
-import type { Theme, Language, AppTranslations } from '../types';
+import { useEffect, useReducer, useState, type FormEvent, type ReactNode } from 'react';
+import type { Theme, Language, AppTranslations, IdentityProvider } from '../types';
+import { getApiErrorMessage } from '../api';
+import { startOidcLogin } from '../auth/oidc';
+import { MfaEnrollment } from '../MfaEnrollment';
+import { LoginShell } from './LoginShell';
+import { MfaStep, mfaTranslations } from './MfaStep';
+import { ForgotPasswordStep, forgotPasswordTranslations } from './ForgotPasswordStep';
+import { LoginErrorNotice } from './LoginErrorNotice';
+import { SsoProviderButtons, ssoDividerTranslations } from './SsoProviderButtons';
+import { initialLoginFlowState, loginFlowReducer, type LoginStepResult, type MfaMethod } from './loginFlow';
+import {
+  getLoginBlockedUntil,
+  getLoginError,
+  type LoginAttemptOptions,
+  type LoginChallengeWidgetProps,
+  type LoginError,
+} from './loginErrors';
 
 interface LoginPageProps {
   theme: Theme;
   language: Language;
   translations: AppTranslations;
   logoIcon: string;
-  logoColor: 'blue' | 'purple';
-  onLogin: (username: string, password: string) => Promise<void>;
+  // Fixed accent colour; without it the card uses the ThemeProvider brand
+  logoColor?: 'blue' | 'purple';
+  // Resolves with the next step (e.g. { type: 'mfa' }), or with nothing when done; see loginFlow.ts.
+  // Lockouts, rate limits and CAPTCHA demands are read from the thrown error; see loginErrors.ts
+  onLogin: (username: string, password: string, options: LoginAttemptOptions) => Promise<LoginStepResult>;
+  // The second factor of the 'mfa' step
+  onVerifyMfa?: (code: string, method: MfaMethod, rememberDevice: boolean) => Promise<LoginStepResult>;
+  // The first code of the 'mfa_enrollment' step
+  onConfirmMfaEnrollment?: (code: string, rememberDevice: boolean) => Promise<LoginStepResult>;
+  // Sends a reset link; shows the "Forgot password?" link when given. Resolve the same way for unknown addresses
+  onRequestPasswordReset?: (email: string) => Promise<void>;
+  // 'forgot_password' opens the reset-link form, e.g. from ResetPasswordByTokenPage's "Request a new link"
+  initialStep?: 'credentials' | 'forgot_password';
+  // The CAPTCHA widget shown once the backend asks for one, e.g. StubChallenge in tests
+  renderChallenge?: (widget: LoginChallengeWidgetProps) => ReactNode;
+  // "Sign in with ..." buttons above the password form
+  identityProviders?: IdentityProvider[];
+  // Starts the provider's sign-in; defaults to startOidcLogin, which redirects with PKCE
+  onSelectProvider?: (provider: IdentityProvider) => Promise<void>;
+  // False for tenants that only sign in through an identity provider
+  showPasswordLogin?: boolean;
   onToggleTheme: () => void;
   onToggleLanguage: () => void;
   loading?: boolean;
   error?: string;
+  // Informational message above the form, e.g. useSession().endMessage after an expired session
+  notice?: string | null;
 }
 
 export const LoginPage = ({
@@ -22,80 +58,304 @@ export const LoginPage = ({
   logoIcon,
   logoColor,
   onLogin,
+  onVerifyMfa,
+  onConfirmMfaEnrollment,
+  onRequestPasswordReset,
+  initialStep = 'credentials',
+  renderChallenge,
+  identityProviders = [],
+  onSelectProvider = startOidcLogin,
+  showPasswordLogin = true,
   onToggleTheme,
   onToggleLanguage,
   loading = false,
   error = '',
+  notice,
 }: LoginPageProps) => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
+  const [flow, dispatch] = useReducer(
+    loginFlowReducer,
+    initialStep === 'forgot_password' && onRequestPasswordReset && showPasswordLogin
+      ? { step: 'forgot_password' }
+      : initialLoginFlowState
+  );
+  const [rememberDevice, setRememberDevice] = useState(false);
+  // Message of a callback that threw instead of setting `error`
+  const [stepError, setStepError] = useState<string | null>(null);
+  const [loginError, setLoginError] = useState<LoginError | null>(null);
+  const [now, setNow] = useState(Date.now);
+  // Once the backend asks for a CAPTCHA, every further attempt carries a fresh token
+  const [captchaRequired, setCaptchaRequired] = useState(false);
+  const [captchaToken, setCaptchaToken] = useState<string | null>(null);
+  // Remounts the widget after each attempt, since its token can only be used once
+  const [challengeKey, setChallengeKey] = useState(0);
+  const [redirecting, setRedirecting] = useState<string | null>(null);
+
+  const m = mfaTranslations[language] || mfaTranslations.en;
+  const f = forgotPasswordTranslations[language] || forgotPasswordTranslations.en;
+  // The forgot-password step shows its own errors
+  const shownError = flow.step === 'forgot_password' ? null : error || stepError;
+  const shownLoginError = flow.step === 'forgot_password' ? null : loginError;
+
+  const blockedUntil = getLoginBlockedUntil(loginError);
+  // Rate limits apply to every account; a lock or deactivation only until another username is typed
+  const inputsDisabled = loading || loginError?.type === 'rate_limited';
+  const submitDisabled =
+    inputsDisabled ||
+    loginError?.type === 'locked' ||
+    loginError?.type === 'deactivated' ||
+    (captchaRequired && !!renderChallenge && !captchaToken);
+
+  useEffect(() => {
+    if (blockedUntil === null) return;
+    const tick = () => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= blockedUntil) setLoginError(null);
+    };
+    tick();
+    const timer = window.setInterval(tick, 1000);
+    return () => window.clearInterval(timer);
+  }, [blockedUntil]);
+
+  // Coming back from the provider with the browser's back button restores the page as it was left
+  useEffect(() => {
+    const handlePageShow = (event: PageTransitionEvent) => {
+      if (event.persisted) setRedirecting(null);
+    };
+    window.addEventListener('pageshow', handlePageShow);
+    return () => window.removeEventListener('pageshow', handlePageShow);
+  }, []);
+
+  const selectProvider = async (provider: IdentityProvider) => {
+    setStepError(null);
+    setRedirecting(provider.id);
+    try {
+      await onSelectProvider(provider);
+    } catch (err) {
+      setStepError(getApiErrorMessage(err));
+      setRedirecting(null);
+    }
+  };
+
+  const runStep = async (action: () => Promise<LoginStepResult>) => {
+    setStepError(null);
+    setLoginError(null);
+    try {
+      dispatch({ type: 'answer', result: await action() });
+    } catch (err) {
+      const structured = getLoginError(err);
+      // A 401 after the first step is a wrong code, not wrong credentials
+      if (structured && !(structured.type === 'invalid_credentials' && flow.step !== 'credentials')) {
+        setLoginError(structured);
+        if (structured.type === 'captcha_required') setCaptchaRequired(true);
+      } else {
+        setStepError(getApiErrorMessage(err));
+      }
+    }
+  };
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
-    await onLogin(email, password);
+    if (submitDisabled) return;
+    const options: LoginAttemptOptions = captchaToken ? { captchaToken } : {};
+    setCaptchaToken(null);
+    if (captchaRequired) setChallengeKey(key => key + 1);
+    await runStep(() => onLogin(email, password, options));
   };
 
-  return (
-    <div className="login-page" dir={language === 'he' ? 'rtl' : 'ltr'}>
-      <header className="login-header">
-        <h1 className="login-header-title">{t.headerTitle as string}</h1>
-        <div className="login-header-controls">
-          <button onClick={onToggleLanguage} className="control-btn lang-btn">
-            <span>{t.langBtn as string}</span>
+  const restart = () => {
+    setPassword('');
+    setStepError(null);
+    // A countdown keeps running on the credentials step
+    setLoginError(current => (getLoginBlockedUntil(current) === null ? null : current));
+    dispatch({ type: 'restart' });
+  };
+
+  const renderPasswordForm = () => (
+    <form className="login-form" onSubmit={handleSubmit}>
+      <div className="form-group">
+        <label htmlFor="email">{t.email as string}</label>
+        <input
+          type="text"
+          id="email"
+          value={email}
+          onChange={(e) => {
+            setEmail(e.target.value);
+            if (loginError?.type === 'locked' || loginError?.type === 'deactivated') setLoginError(null);
+          }}
+          required
+          disabled={inputsDisabled}
+        />
+      </div>
+      <div className="form-group">
+        <label htmlFor="password">{t.password as string}</label>
+        <div className="password-input-wrapper">
+          <input
+            type={showPassword ? 'text' : 'password'}
+            id="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            disabled={inputsDisabled}
+          />
+          <button
+            type="button"
+            className="toggle-password"
+            onClick={() => setShowPassword(!showPassword)}
+            disabled={inputsDisabled}
+          >
+            {showPassword ? '👁️' : '👁️‍🗨️'}
           </button>
-          <button onClick={onToggleTheme} className="control-btn theme-btn">
-            <span>{typeof t.themeBtn === 'function' ? t.themeBtn(theme) : t.themeBtn}</span>
+        </div>
+      </div>
+      {captchaRequired && renderChallenge && (
+        <div className="login-challenge" key={challengeKey}>
+          {renderChallenge({
+            language,
+            onSolve: setCaptchaToken,
+            onExpire: () => setCaptchaToken(null),
+            disabled: inputsDisabled,
+          })}
+        </div>
+      )}
+      <button type="submit" className="login-btn" disabled={submitDisabled}>
+        {loading ? '...' : (t.loginBtn as string)}
+      </button>
+      {onRequestPasswordReset && (
+        <div className="login-links">
+          <button
+            type="button"
+            className="link-btn"
+            onClick={() => {
+              setStepError(null);
+              dispatch({ type: 'forgot_password' });
+            }}
+            disabled={loading}
+          >
+            {f.link}
           </button>
         </div>
-      </header>
+      )}
+    </form>
+  );
+
+  const renderCredentials = () => (
+    <>
+      {identityProviders.length > 0 && (
+        <SsoProviderButtons
+          language={language}
+          providers={identityProviders}
+          redirecting={redirecting}
+          disabled={loading}
+          onSelect={selectProvider}
+        />
+      )}
+      {identityProviders.length > 0 && showPasswordLogin && (
+        <div className="login-divider">
+          <span>{ssoDividerTranslations[language] || ssoDividerTranslations.en}</span>
+        </div>
+      )}
+      {showPasswordLogin && renderPasswordForm()}
+    </>
+  );
 
-      <main className="login-main">
-        <div className={`login-card color-${logoColor}`}>
-          <div className="logo-container">
-            <div className="logo-icon">{logoIcon}</div>
-          </div>
-          <h1 className="login-title">{t.loginTitle as string}</h1>
-          {error && <div className="error-message">{error}</div>}
-          <form className="login-form" onSubmit={handleSubmit}>
-            <div className="form-group">
-              <label htmlFor="email">{t.email as string}</label>
+  const renderStep = () => {
+    switch (flow.step) {
+      case 'credentials':
+        return renderCredentials();
+      case 'mfa':
+        return (
+          <MfaStep
+            // A fresh form, without the old code, for each method
+            key={flow.method}
+            language={language}
+            method={flow.method}
+            methods={flow.methods}
+            allowRememberDevice={flow.allowRememberDevice && !!onVerifyMfa}
+            loading={loading || blockedUntil !== null}
+            onSubmit={(code, remember) => {
+              if (onVerifyMfa) runStep(() => onVerifyMfa(code, flow.method, remember));
+            }}
+            onUseMethod={(method) => {
+              setStepError(null);
+              dispatch({ type: 'use_method', method });
+            }}
+            onBack={restart}
+          />
+        );
+      case 'mfa_enrollment':
+        return (
+          <MfaEnrollment
+            language={language}
+            provisioningUri={flow.provisioningUri}
+            secret={flow.secret}
+            onVerify={async (code) => {
+              if (!onConfirmMfaEnrollment) return;
+              // Errors are shown by MfaEnrollment, next to the code
+              dispatch({ type: 'answer', result: await onConfirmMfaEnrollment(code, rememberDevice) });
+            }}
+            onCancel={restart}
+          >
+            <label className="login-checkbox">
               <input
-                type="text"
-                id="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-                disabled={loading}
+                type="checkbox"
+                checked={rememberDevice}
+                onChange={(e) => setRememberDevice(e.target.checked)}
               />
-            </div>
-            <div className="form-group">
-              <label htmlFor="password">{t.password as string}</label>
-              <div className="password-input-wrapper">
-                <input
-                  type={showPassword ? 'text' : 'password'}
-                  id="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  required
-                  disabled={loading}
-                />
-                <button
-                  type="button"
-                  className="toggle-password"
-                  onClick={() => setShowPassword(!showPassword)}
-                  disabled={loading}
-                >
-                  {showPassword ? '👁️' : '👁️‍🗨️'}
-                </button>
-              </div>
-            </div>
-            <button type="submit" className="login-btn" disabled={loading}>
-              {loading ? '...' : (t.loginBtn as string)}
-            </button>
-          </form>
-        </div>
-      </main>
-    </div>
+              <span>{m.rememberDevice}</span>
+            </label>
+          </MfaEnrollment>
+        );
+      case 'forgot_password':
+        return (
+          <ForgotPasswordStep
+            language={language}
+            // The sign-in field also takes usernames
+            initialEmail={email.includes('@') ? email.trim() : ''}
+            onRequest={async (address) => {
+              if (onRequestPasswordReset) await onRequestPasswordReset(address);
+            }}
+            onBack={restart}
+          />
+        );
+    }
+  };
+
+  const title = () => {
+    switch (flow.step) {
+      case 'mfa':
+        return m.title;
+      case 'forgot_password':
+        return f.title;
+      default:
+        return t.loginTitle as string;
+    }
+  };
+
+  return (
+    <LoginShell
+      theme={theme}
+      language={language}
+      translations={t}
+      logoIcon={logoIcon}
+      logoColor={logoColor}
+      onToggleTheme={onToggleTheme}
+      onToggleLanguage={onToggleLanguage}
+    >
+      {/* MfaEnrollment has its own title */}
+      {flow.step !== 'mfa_enrollment' && <h1 className="login-title">{title()}</h1>}
+      {notice && !shownError && !shownLoginError && flow.step === 'credentials' && (
+        <div className="login-notice" role="status">{notice}</div>
+      )}
+      {shownLoginError ? (
+        <LoginErrorNotice error={shownLoginError} language={language} now={now} />
+      ) : (
+        shownError && <div className="error-message" role="alert">{shownError}</div>
+      )}
+      {renderStep()}
+    </LoginShell>
   );
 };
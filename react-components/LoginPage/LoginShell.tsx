@@ -0,0 +1,54 @@
+import type { ReactNode } from 'react';
+import './LoginPage.css';
+import type { Theme, Language, AppTranslations } from '../types';
+import { getDirection } from '../i18n/locales';
+
+interface LoginShellProps {
+  theme: Theme;
+  language: Language;
+  // headerTitle, langBtn and themeBtn
+  translations: AppTranslations;
+  logoIcon: string;
+  // Fixed accent colour; without it the card uses the ThemeProvider brand
+  logoColor?: 'blue' | 'purple';
+  onToggleTheme: () => void;
+  onToggleLanguage: () => void;
+  children: ReactNode;
+}
+
+/**
+ * The header with the language/theme controls and the centred card, shared by the signed-out pages.
+ */
+export const LoginShell = ({
+  theme,
+  language,
+  translations: t,
+  logoIcon,
+  logoColor,
+  onToggleTheme,
+  onToggleLanguage,
+  children,
+}: LoginShellProps) => (
+  <div className="login-page" dir={getDirection(language)}>
+    <header className="login-header">
+      <h1 className="login-header-title">{t.headerTitle as string}</h1>
+      <div className="login-header-controls">
+        <button onClick={onToggleLanguage} className="control-btn lang-btn">
+          <span>{t.langBtn as string}</span>
+        </button>
+        <button onClick={onToggleTheme} className="control-btn theme-btn">
+          <span>{typeof t.themeBtn === 'function' ? t.themeBtn(theme) : t.themeBtn}</span>
+        </button>
+      </div>
+    </header>
+
+    <main className="login-main">
+      <div className={`login-card${logoColor ? ` color-${logoColor}` : ''}`}>
+        <div className="logo-container">
+          <div className="logo-icon">{logoIcon}</div>
+        </div>
+        {children}
+      </div>
+    </main>
+  </div>
+);
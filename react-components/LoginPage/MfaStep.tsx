@@ -0,0 +1,142 @@
+import { useState, type FormEvent } from 'react';
+import type { Language } from '../types';
+import type { MfaMethod } from './loginFlow';
+
+interface MfaStepProps {
+  language: Language;
+  method: MfaMethod;
+  methods: MfaMethod[];
+  allowRememberDevice: boolean;
+  loading: boolean;
+  onSubmit: (code: string, rememberDevice: boolean) => void;
+  onUseMethod: (method: MfaMethod) => void;
+  onBack: () => void;
+}
+
+export const mfaTranslations = {
+  he: {
+    title: 'אימות דו-שלבי',
+    totpPrompt: 'הזן את הקוד מאפליקציית האימות',
+    backupPrompt: 'הזן אחד מקודי הגיבוי שלך. כל קוד פועל פעם אחת בלבד.',
+    code: 'קוד אימות',
+    backupCode: 'קוד גיבוי',
+    codeRequired: 'יש להזין את הקוד',
+    rememberDevice: 'אל תבקש קוד שוב במכשיר זה',
+    verify: 'אמת',
+    useBackupCode: 'השתמש בקוד גיבוי',
+    useTotp: 'השתמש באפליקציית האימות',
+    back: 'חזרה להתחברות',
+  },
+  en: {
+    title: 'Two-step verification',
+    totpPrompt: 'Enter the code from your authenticator app',
+    backupPrompt: 'Enter one of your backup codes. Each code works only once.',
+    code: 'Verification code',
+    backupCode: 'Backup code',
+    codeRequired: 'Enter the code',
+    rememberDevice: "Don't ask again on this device",
+    verify: 'Verify',
+    useBackupCode: 'Use a backup code',
+    useTotp: 'Use the authenticator app',
+    back: 'Back to sign in',
+  },
+  ar: {
+    title: 'التحقق بخطوتين',
+    totpPrompt: 'أدخل الرمز من تطبيق المصادقة',
+    backupPrompt: 'أدخل أحد رموز النسخ الاحتياطي. يعمل كل رمز مرة واحدة فقط.',
+    code: 'رمز التحقق',
+    backupCode: 'رمز النسخ الاحتياطي',
+    codeRequired: 'أدخل الرمز',
+    rememberDevice: 'عدم السؤال مرة أخرى على هذا الجهاز',
+    verify: 'تحقق',
+    useBackupCode: 'استخدام رمز النسخ الاحتياطي',
+    useTotp: 'استخدام تطبيق المصادقة',
+    back: 'العودة إلى تسجيل الدخول',
+  },
+};
+
+// Authenticator codes are digits only; backup codes are letters and digits, often grouped with dashes
+const normalizeCode = (value: string, method: MfaMethod) =>
+  method === 'totp' ? value.replace(/\D/g, '') : value.replace(/\s/g, '');
+
+export const MfaStep = ({
+  language,
+  method,
+  methods,
+  allowRememberDevice,
+  loading,
+  onSubmit,
+  onUseMethod,
+  onBack,
+}: MfaStepProps) => {
+  const [code, setCode] = useState('');
+  const [rememberDevice, setRememberDevice] = useState(false);
+  const [codeError, setCodeError] = useState<string | null>(null);
+
+  const t = mfaTranslations[language] || mfaTranslations.en;
+  const otherMethod = methods.find(other => other !== method);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!code) {
+      setCodeError(t.codeRequired);
+      return;
+    }
+    setCodeError(null);
+    onSubmit(code, rememberDevice);
+  };
+
+  const switchMethod = (next: MfaMethod) => {
+    setCode('');
+    setCodeError(null);
+    onUseMethod(next);
+  };
+
+  return (
+    <form className="login-form mfa-step" onSubmit={handleSubmit} noValidate>
+      <p className="login-step-prompt">{method === 'totp' ? t.totpPrompt : t.backupPrompt}</p>
+      <div className="form-group">
+        <label htmlFor="mfa-code">{method === 'totp' ? t.code : t.backupCode}</label>
+        <input
+          type="text"
+          id="mfa-code"
+          className="mfa-code-input"
+          inputMode={method === 'totp' ? 'numeric' : 'text'}
+          autoComplete="one-time-code"
+          autoFocus
+          dir="ltr"
+          maxLength={method === 'totp' ? 8 : 32}
+          value={code}
+          onChange={(e) => setCode(normalizeCode(e.target.value, method))}
+          aria-invalid={!!codeError}
+          disabled={loading}
+        />
+        {codeError && <span className="field-error">{codeError}</span>}
+      </div>
+      {allowRememberDevice && (
+        <label className="login-checkbox">
+          <input
+            type="checkbox"
+            checked={rememberDevice}
+            onChange={(e) => setRememberDevice(e.target.checked)}
+            disabled={loading}
+          />
+          <span>{t.rememberDevice}</span>
+        </label>
+      )}
+      <button type="submit" className="login-btn" disabled={loading}>
+        {loading ? '...' : t.verify}
+      </button>
+      <div className="login-links">
+        {otherMethod && (
+          <button type="button" className="link-btn" onClick={() => switchMethod(otherMethod)} disabled={loading}>
+            {otherMethod === 'totp' ? t.useTotp : t.useBackupCode}
+          </button>
+        )}
+        <button type="button" className="link-btn" onClick={onBack} disabled={loading}>
+          {t.back}
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,55 @@
+import type { IdentityProvider, Language } from '../types';
+import { localize } from '../i18n';
+
+interface SsoProviderButtonsProps {
+  language: Language;
+  providers: IdentityProvider[];
+  // The provider whose redirect is under way
+  redirecting: string | null;
+  disabled: boolean;
+  onSelect: (provider: IdentityProvider) => void;
+}
+
+const translations = {
+  he: {
+    signInWith: (name: string) => `התחבר עם ${name}`,
+    redirecting: 'מעביר...',
+  },
+  en: {
+    signInWith: (name: string) => `Sign in with ${name}`,
+    redirecting: 'Redirecting...',
+  },
+  ar: {
+    signInWith: (name: string) => `تسجيل الدخول باستخدام ${name}`,
+    redirecting: 'جارٍ التحويل...',
+  },
+};
+
+export const ssoDividerTranslations = {
+  he: 'או',
+  en: 'or',
+  ar: 'أو',
+};
+
+export const SsoProviderButtons = ({ language, providers, redirecting, disabled, onSelect }: SsoProviderButtonsProps) => {
+  const t = translations[language] || translations.en;
+
+  return (
+    <div className="sso-providers">
+      {providers.map(provider => (
+        <button
+          key={provider.id}
+          type="button"
+          className="sso-provider-btn"
+          onClick={() => onSelect(provider)}
+          disabled={disabled || redirecting !== null}
+        >
+          {provider.icon && <span className="sso-provider-icon" aria-hidden="true">{provider.icon}</span>}
+          <span>
+            {redirecting === provider.id ? t.redirecting : t.signInWith(localize(provider.label, language))}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import { useState } from 'react';
+import type { LoginChallengeWidgetProps } from './loginErrors';
+
+interface StubChallengeProps extends LoginChallengeWidgetProps {
+  // Sent as the captcha token; the test backend has to accept it
+  token?: string;
+}
+
+const translations = {
+  he: { label: 'אני לא רובוט (בדיקה)' },
+  en: { label: "I'm not a robot (test)" },
+  ar: { label: 'لست روبوتًا (اختبار)' },
+};
+
+/**
+ * Stand-in for a real CAPTCHA widget in tests and local development: a checkbox that solves the challenge.
+ */
+export const StubChallenge = ({ language, onSolve, onExpire, disabled, token = 'stub-captcha-token' }: StubChallengeProps) => {
+  const [checked, setChecked] = useState(false);
+  const t = translations[language] || translations.en;
+
+  return (
+    <label className="login-checkbox stub-challenge">
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => {
+          setChecked(e.target.checked);
+          if (e.target.checked) onSolve(token);
+          else onExpire();
+        }}
+        disabled={disabled}
+      />
+      <span>{t.label}</span>
+    </label>
+  );
+};
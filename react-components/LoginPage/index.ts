@@ -1 +1,6 @@
 export { LoginPage } from './LoginPage';
+export { LoginShell } from './LoginShell';
+export { StubChallenge } from './StubChallenge';
+export { LoginFailedError, getLoginError } from './loginErrors';
+export type { LoginChallenge, LoginStepResult, MfaMethod } from './loginFlow';
+export type { LoginError, LoginAttemptOptions, LoginChallengeWidgetProps } from './loginErrors';
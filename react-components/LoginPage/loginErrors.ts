@@ -0,0 +1,127 @@
+import axios from 'axios';
+import type { Language } from '../types';
+
+// Why a sign-in attempt failed, beyond a plain message. LoginPage reads it from the error its callbacks throw
+// and, while a lock or rate limit lasts, counts down and keeps the form disabled.
+
+export type LoginError =
+  | { type: 'invalid_credentials'; attemptsRemaining?: number }
+  // `until` is epoch milliseconds; without it the lock lasts until an administrator lifts it
+  | { type: 'locked'; until?: number }
+  | { type: 'rate_limited'; until: number }
+  | { type: 'deactivated' }
+  // The next attempt has to carry the token of the challenge widget
+  | { type: 'captcha_required' };
+
+/**
+ * Thrown by a host's login callbacks to report a structured failure without going through the API client.
+ */
+export class LoginFailedError extends Error {
+  constructor(readonly reason: LoginError) {
+    super(`Login failed: ${reason.type}`);
+    this.name = 'LoginFailedError';
+  }
+}
+
+// Without a Retry-After header a rate-limited client waits this long
+const DEFAULT_RETRY_AFTER_SECONDS = 30;
+
+// Backend error codes, as `detail.code` of the FastAPI error body
+const CODE_TYPES: Record<string, LoginError['type']> = {
+  invalid_credentials: 'invalid_credentials',
+  account_locked: 'locked',
+  rate_limited: 'rate_limited',
+  too_many_requests: 'rate_limited',
+  account_deactivated: 'deactivated',
+  account_inactive: 'deactivated',
+  captcha_required: 'captcha_required',
+};
+
+const STATUS_TYPES: Record<number, LoginError['type']> = {
+  401: 'invalid_credentials',
+  423: 'locked',
+  429: 'rate_limited',
+};
+
+// Epoch milliseconds from an ISO date, or from epoch seconds as JWT-style backends send them
+const parseInstant = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return value < 1e12 ? value * 1000 : value;
+  if (typeof value !== 'string') return undefined;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (value: unknown, now: number): number | undefined => {
+  if (typeof value === 'number') return now + value * 1000;
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return now + seconds * 1000;
+  return parseInstant(value);
+};
+
+// The object form of FastAPI's `detail` that structured login failures use; every field is optional
+interface LoginErrorDetail {
+  code?: unknown;
+  locked_until?: unknown;
+  retry_after?: unknown;
+  attempts_remaining?: unknown;
+}
+
+/**
+ * The structured failure behind an error thrown by a login call, or null when it is not one.
+ * Reads `detail.code` (plus `locked_until`, `retry_after` and `attempts_remaining`) and falls back to the HTTP status.
+ */
+export const getLoginError = (err: unknown, now = Date.now()): LoginError | null => {
+  if (err instanceof LoginFailedError) return err.reason;
+
+  if (!axios.isAxiosError<{ detail?: unknown }>(err) || !err.response) return null;
+  const { response } = err;
+
+  const rawDetail = response.data?.detail;
+  const detail: LoginErrorDetail = rawDetail && typeof rawDetail === 'object' && !Array.isArray(rawDetail) ? rawDetail : {};
+  const type = (typeof detail.code === 'string' ? CODE_TYPES[detail.code] : undefined) ?? STATUS_TYPES[response.status];
+
+  switch (type) {
+    case 'invalid_credentials':
+      return typeof detail.attempts_remaining === 'number'
+        ? { type, attemptsRemaining: detail.attempts_remaining }
+        : { type };
+    case 'locked':
+      return { type, until: parseInstant(detail.locked_until) ?? parseRetryAfter(response.headers?.['retry-after'], now) };
+    case 'rate_limited':
+      return {
+        type,
+        until:
+          parseRetryAfter(detail.retry_after, now) ??
+          parseRetryAfter(response.headers?.['retry-after'], now) ??
+          now + DEFAULT_RETRY_AFTER_SECONDS * 1000,
+      };
+    case 'deactivated':
+    case 'captcha_required':
+      return { type };
+    default:
+      return null;
+  }
+};
+
+// The time until which a failure blocks new attempts, or null
+export const getLoginBlockedUntil = (error: LoginError | null): number | null =>
+  error && (error.type === 'locked' || error.type === 'rate_limited') ? error.until ?? null : null;
+
+// Extra fields of a sign-in attempt made after a challenge
+export interface LoginAttemptOptions {
+  captchaToken?: string;
+}
+
+/**
+ * What LoginPage's `renderChallenge` slot receives: any CAPTCHA widget (or StubChallenge in tests) can fill it.
+ */
+export interface LoginChallengeWidgetProps {
+  language: Language;
+  // Pass the widget's response token; it is sent with the next attempt and then discarded
+  onSolve: (token: string) => void;
+  // The token timed out before it was used
+  onExpire: () => void;
+  disabled: boolean;
+}
@@ -0,0 +1,50 @@
+// The steps of LoginPage. The host's callbacks answer each step with the next challenge, or with nothing:
+// either the user is signed in and the host moves on, or the attempt failed and the host shows `error`.
+
+export type MfaMethod = 'totp' | 'backup_code';
+
+export type LoginChallenge =
+  // A second factor for an account that has one; the first method is asked for first
+  | { type: 'mfa'; methods?: MfaMethod[]; allowRememberDevice?: boolean }
+  // An account that must set up an authenticator app before signing in
+  | { type: 'mfa_enrollment'; provisioningUri: string; secret?: string };
+
+export type LoginStepResult = LoginChallenge | void;
+
+export type LoginFlowState =
+  | { step: 'credentials' }
+  | { step: 'mfa'; methods: MfaMethod[]; method: MfaMethod; allowRememberDevice: boolean }
+  | { step: 'mfa_enrollment'; provisioningUri: string; secret?: string }
+  // Asking for a reset link; only reachable from the credentials step
+  | { step: 'forgot_password' };
+
+export type LoginFlowEvent =
+  // The answer of onLogin or one of the MFA callbacks
+  | { type: 'answer'; result: LoginStepResult }
+  | { type: 'use_method'; method: MfaMethod }
+  | { type: 'forgot_password' }
+  | { type: 'restart' };
+
+const DEFAULT_MFA_METHODS: MfaMethod[] = ['totp', 'backup_code'];
+
+export const initialLoginFlowState: LoginFlowState = { step: 'credentials' };
+
+export const loginFlowReducer = (state: LoginFlowState, event: LoginFlowEvent): LoginFlowState => {
+  switch (event.type) {
+    case 'answer': {
+      const { result } = event;
+      if (!result) return state;
+      if (result.type === 'mfa_enrollment') {
+        return { step: 'mfa_enrollment', provisioningUri: result.provisioningUri, secret: result.secret };
+      }
+      const methods = result.methods?.length ? result.methods : DEFAULT_MFA_METHODS;
+      return { step: 'mfa', methods, method: methods[0], allowRememberDevice: result.allowRememberDevice ?? true };
+    }
+    case 'use_method':
+      return state.step === 'mfa' && state.methods.includes(event.method) ? { ...state, method: event.method } : state;
+    case 'forgot_password':
+      return state.step === 'credentials' ? { step: 'forgot_password' } : state;
+    case 'restart':
+      return initialLoginFlowState;
+  }
+};
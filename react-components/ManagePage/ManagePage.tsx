@@ -1,23 +1,31 @@
+import { useState } from 'react';
 import './ManagePage.css';
+import type { Language, LocalizedText } from '../types';
+import { getDirection, localize } from '../i18n/locales';
+import { useCan } from '../permissions';
+import { RolesEditor } from '../RolesEditor';
 
 interface ManagePageProps {
-  language: 'he' | 'en' | 'ar';
+  language: Language;
   theme: 'light' | 'dark';
+  // Called by the Security card instead of opening the RolesEditor in place, e.g. to navigate to /permissions/roles
+  onManageRoles?: () => void;
 }
 
 interface ManageSection {
   id: string;
   icon: string;
-  titleHe: string;
-  titleEn: string;
-  titleAr: string;
-  descriptionHe: string;
-  descriptionEn: string;
-  descriptionAr: string;
+  title: LocalizedText;
+  description: LocalizedText;
   action: string;
+  // Sections without a handler are not available yet
+  onClick?: () => void;
 }
 
-export const ManagePage = ({ language, theme }: ManagePageProps) => {
+export const ManagePage = ({ language, theme, onManageRoles }: ManagePageProps) => {
+  const [rolesOpen, setRolesOpen] = useState(false);
+  const canViewRoles = useCan('roles.read');
+
   const t = {
     he: {
       pageTitle: 'ניהול',
@@ -27,6 +35,8 @@ export const ManagePage = ({ language, theme }: ManagePageProps) => {
       tools: 'כלים',
       logs: 'יומנים',
       comingSoon: 'בקרוב...',
+      manageRoles: 'ניהול תפקידים והרשאות',
+      backToManage: 'חזרה לניהול',
     },
     en: {
       pageTitle: 'Manage',
@@ -36,6 +46,8 @@ export const ManagePage = ({ language, theme }: ManagePageProps) => {
       tools: 'Tools',
       logs: 'Logs',
       comingSoon: 'Coming Soon...',
+      manageRoles: 'Manage Roles & Permissions',
+      backToManage: 'Back to Manage',
     },
     ar: {
       pageTitle: 'إدارة',
@@ -45,6 +57,8 @@ export const ManagePage = ({ language, theme }: ManagePageProps) => {
       tools: 'الأدوات',
       logs: 'السجلات',
       comingSoon: 'قريبا...',
+      manageRoles: 'إدارة الأدوار والأذونات',
+      backToManage: 'العودة إلى الإدارة',
     }
   };
 
@@ -52,85 +66,86 @@ export const ManagePage = ({ language, theme }: ManagePageProps) => {
     {
       id: 'system',
       icon: '🖥️',
-      titleHe: 'ניהול מערכת',
-      titleEn: 'System Management',
-      titleAr: 'إدارة النظام',
-      descriptionHe: 'תצורת מערכת, מעקב ביצועים וניטור',
-      descriptionEn: 'System configuration, performance tracking and monitoring',
-      descriptionAr: 'تكوين النظام وتتبع الأداء والمراقبة',
+      title: { he: 'ניהול מערכת', en: 'System Management', ar: 'إدارة النظام' },
+      description: {
+        he: 'תצורת מערכת, מעקב ביצועים וניטור',
+        en: 'System configuration, performance tracking and monitoring',
+        ar: 'تكوين النظام وتتبع الأداء والمراقبة',
+      },
       action: t[language].comingSoon
     },
     {
       id: 'config',
       icon: '⚙️',
-      titleHe: 'תצורה',
-      titleEn: 'Configuration',
-      titleAr: 'التكوين',
-      descriptionHe: 'הגדרות כלליות ופרמטרים',
-      descriptionEn: 'General settings and parameters',
-      descriptionAr: 'الإعدادات والمعلمات العامة',
+      title: { he: 'תצורה', en: 'Configuration', ar: 'التكوين' },
+      description: {
+        he: 'הגדרות כלליות ופרמטרים',
+        en: 'General settings and parameters',
+        ar: 'الإعدادات والمعلمات العامة',
+      },
       action: t[language].comingSoon
     },
     {
       id: 'tools',
       icon: '🔧',
-      titleHe: 'כלים',
-      titleEn: 'Tools',
-      titleAr: 'الأدوات',
-      descriptionHe: 'כלי עזר לניהול ותחזוקה',
-      descriptionEn: 'Management and maintenance tools',
-      descriptionAr: 'أدوات الإدارة والصيانة',
+      title: { he: 'כלים', en: 'Tools', ar: 'الأدوات' },
+      description: {
+        he: 'כלי עזר לניהול ותחזוקה',
+        en: 'Management and maintenance tools',
+        ar: 'أدوات الإدارة والصيانة',
+      },
       action: t[language].comingSoon
     },
     {
       id: 'logs',
       icon: '📋',
-      titleHe: 'יומנים',
-      titleEn: 'Logs',
-      titleAr: 'السجلات',
-      descriptionHe: 'צפייה ביומני מערכת ופעילות',
-      descriptionEn: 'View system and activity logs',
-      descriptionAr: 'عرض سجلات النظام والنشاط',
+      title: { he: 'יומנים', en: 'Logs', ar: 'السجلات' },
+      description: {
+        he: 'צפייה ביומני מערכת ופעילות',
+        en: 'View system and activity logs',
+        ar: 'عرض سجلات النظام والنشاط',
+      },
       action: t[language].comingSoon
     },
     {
       id: 'backup',
       icon: '💾',
-      titleHe: 'גיבוי ושחזור',
-      titleEn: 'Backup & Restore',
-      titleAr: 'النسخ الاحتياطي والاستعادة',
-      descriptionHe: 'ניהול גיבויים ושחזור נתונים',
-      descriptionEn: 'Manage backups and data restoration',
-      descriptionAr: 'إدارة النسخ الاحتياطية واستعادة البيانات',
+      title: { he: 'גיבוי ושחזור', en: 'Backup & Restore', ar: 'النسخ الاحتياطي والاستعادة' },
+      description: {
+        he: 'ניהול גיבויים ושחזור נתונים',
+        en: 'Manage backups and data restoration',
+        ar: 'إدارة النسخ الاحتياطية واستعادة البيانات',
+      },
       action: t[language].comingSoon
     },
     {
       id: 'security',
       icon: '🔒',
-      titleHe: 'אבטחה',
-      titleEn: 'Security',
-      titleAr: 'الأمان',
-      descriptionHe: 'הגדרות אבטחה והרשאות',
-      descriptionEn: 'Security settings and permissions',
-      descriptionAr: 'إعدادات الأمان والأذونات',
-      action: t[language].comingSoon
+      title: { he: 'אבטחה', en: 'Security', ar: 'الأمان' },
+      description: {
+        he: 'הגדרות אבטחה והרשאות',
+        en: 'Security settings and permissions',
+        ar: 'إعدادات الأمان والأذونات',
+      },
+      action: t[language].manageRoles,
+      onClick: canViewRoles ? onManageRoles ?? (() => setRolesOpen(true)) : undefined
     }
   ];
 
-  const getTitle = (section: ManageSection) => {
-    if (language === 'he') return section.titleHe;
-    if (language === 'ar') return section.titleAr;
-    return section.titleEn;
-  };
-
-  const getDescription = (section: ManageSection) => {
-    if (language === 'he') return section.descriptionHe;
-    if (language === 'ar') return section.descriptionAr;
-    return section.descriptionEn;
-  };
+  if (rolesOpen) {
+    const isRTL = getDirection(language) === 'rtl';
+    return (
+      <div className={`manage-page ${theme}`} dir={getDirection(language)}>
+        <button className="manage-back-btn" onClick={() => setRolesOpen(false)}>
+          {isRTL ? '→' : '←'} {t[language].backToManage}
+        </button>
+        <RolesEditor language={language} theme={theme} />
+      </div>
+    );
+  }
 
   return (
-    <div className={`manage-page ${theme}`} dir={language === 'he' || language === 'ar' ? 'rtl' : 'ltr'}>
+    <div className={`manage-page ${theme}`} dir={getDirection(language)}>
       <div className="manage-header">
         <h1 className="manage-title">{t[language].pageTitle}</h1>
         <p className="manage-description">{t[language].pageDescription}</p>
@@ -141,11 +156,11 @@ export const ManagePage = ({ language, theme }: ManagePageProps) => {
           <div key={section.id} className="manage-card">
             <div className="card-icon">{section.icon}</div>
             <div className="card-content">
-              <h3 className="card-title">{getTitle(section)}</h3>
-              <p className="card-description">{getDescription(section)}</p>
+              <h3 className="card-title">{localize(section.title, language)}</h3>
+              <p className="card-description">{localize(section.description, language)}</p>
             </div>
             <div className="card-action">
-              <button className="action-btn" disabled>
+              <button className="action-btn" onClick={section.onClick} disabled={!section.onClick}>
                 {section.action}
               </button>
             </div>
@@ -157,9 +172,11 @@ export const ManagePage = ({ language, theme }: ManagePageProps) => {
         <div className="info-box">
           <span className="info-icon">ℹ️</span>
           <p className="info-text">
-            {language === 'he' && 'פיצ\'רים נוספים יתווספו בעתיד הקרוב'}
-            {language === 'en' && 'Additional features will be added soon'}
-            {language === 'ar' && 'ستتم إضافة ميزات إضافية قريبًا'}
+            {localize({
+              he: 'פיצ\'רים נוספים יתווספו בעתיד הקרוב',
+              en: 'Additional features will be added soon',
+              ar: 'ستتم إضافة ميزات إضافية قريبًا',
+            }, language)}
           </p>
         </div>
       </div>
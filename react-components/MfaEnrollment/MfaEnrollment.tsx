@@ -0,0 +1,192 @@
+import { useMemo, useState, type FormEvent, type ReactNode } from 'react';
+import './MfaEnrollment.css';
+import type { Language } from '../types';
+import { getDirection } from '../i18n';
+import { getApiErrorMessage } from '../api';
+import { encodeQrCode } from '../utils/qrcode';
+
+interface MfaEnrollmentProps {
+  language: Language;
+  // otpauth://totp/... as returned by the backend
+  provisioningUri: string;
+  // The base32 key for typing into the app by hand; read from the URI when omitted
+  secret?: string;
+  // Checks the first code from the app; a rejected promise shows its error and keeps the form open
+  onVerify: (code: string) => Promise<void>;
+  onCancel?: () => void;
+  // Extra controls above the verify button, e.g. LoginPage's "remember this device"
+  children?: ReactNode;
+}
+
+const translations = {
+  he: {
+    title: 'הגדרת אימות דו-שלבי',
+    instructions: 'סרוק את הקוד באפליקציית אימות (כמו Google Authenticator או Microsoft Authenticator) והזן את הקוד שהיא מציגה.',
+    qrLabel: 'קוד QR להגדרת אפליקציית האימות',
+    cantScan: 'לא מצליח לסרוק? הזן באפליקציה את המפתח:',
+    openInApp: 'פתח באפליקציית האימות',
+    copy: 'העתק',
+    copied: 'הועתק',
+    code: 'קוד אימות',
+    codeInvalid: (digits: number) => `יש להזין קוד בן ${digits} ספרות`,
+    verify: 'אמת והפעל',
+    verifying: 'מאמת...',
+    cancel: 'ביטול',
+  },
+  en: {
+    title: 'Set up two-step verification',
+    instructions: 'Scan the code with an authenticator app (such as Google Authenticator or Microsoft Authenticator), then enter the code it shows.',
+    qrLabel: 'QR code for setting up the authenticator app',
+    cantScan: "Can't scan it? Enter this key in the app:",
+    openInApp: 'Open in authenticator app',
+    copy: 'Copy',
+    copied: 'Copied',
+    code: 'Verification code',
+    codeInvalid: (digits: number) => `Enter the ${digits}-digit code`,
+    verify: 'Verify and turn on',
+    verifying: 'Verifying...',
+    cancel: 'Cancel',
+  },
+  ar: {
+    title: 'إعداد التحقق بخطوتين',
+    instructions: 'امسح الرمز بتطبيق مصادقة (مثل Google Authenticator أو Microsoft Authenticator)، ثم أدخل الرمز الذي يعرضه.',
+    qrLabel: 'رمز QR لإعداد تطبيق المصادقة',
+    cantScan: 'لا يمكنك المسح؟ أدخل هذا المفتاح في التطبيق:',
+    openInApp: 'فتح في تطبيق المصادقة',
+    copy: 'نسخ',
+    copied: 'تم النسخ',
+    code: 'رمز التحقق',
+    codeInvalid: (digits: number) => `أدخل الرمز المكوّن من ${digits} أرقام`,
+    verify: 'تحقق وتفعيل',
+    verifying: 'جارٍ التحقق...',
+    cancel: 'إلغاء',
+  },
+};
+
+// Light modules around the code, as the QR standard requires
+const QUIET_ZONE = 4;
+
+const readUriParam = (uri: string, name: string) => {
+  try {
+    return new URL(uri).searchParams.get(name);
+  } catch {
+    return null;
+  }
+};
+
+const QrCode = ({ value, label }: { value: string; label: string }) => {
+  const { size, path } = useMemo(() => {
+    const modules = encodeQrCode(value);
+    const commands: string[] = [];
+    modules.forEach((row, y) =>
+      row.forEach((dark, x) => {
+        if (dark) commands.push(`M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`);
+      })
+    );
+    return { size: modules.length + QUIET_ZONE * 2, path: commands.join('') };
+  }, [value]);
+
+  return (
+    <svg className="mfa-qr" viewBox={`0 0 ${size} ${size}`} role="img" aria-label={label} shapeRendering="crispEdges">
+      <rect width={size} height={size} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+};
+
+/**
+ * Shows the QR code of a TOTP provisioning URI and verifies the first code from the authenticator app.
+ */
+export const MfaEnrollment = ({ language, provisioningUri, secret, onVerify, onCancel, children }: MfaEnrollmentProps) => {
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const t = translations[language] || translations.en;
+  const key = secret ?? readUriParam(provisioningUri, 'secret') ?? '';
+  const digits = Number(readUriParam(provisioningUri, 'digits')) || 6;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(key);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard blocked: the key can still be selected by hand
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (code.length !== digits) {
+      setError(t.codeInvalid(digits));
+      return;
+    }
+    setError(null);
+    setVerifying(true);
+    try {
+      await onVerify(code);
+    } catch (err) {
+      setError(getApiErrorMessage(err));
+      setCode('');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <div className="mfa-enrollment" dir={getDirection(language)}>
+      <h2 className="mfa-enrollment-title">{t.title}</h2>
+      <p className="mfa-enrollment-instructions">{t.instructions}</p>
+
+      <QrCode value={provisioningUri} label={t.qrLabel} />
+
+      {key && (
+        <div className="mfa-secret">
+          <span>{t.cantScan}</span>
+          <div className="mfa-secret-value">
+            {/* Keys are Latin base32, grouped by four like most apps show them */}
+            <code dir="ltr">{key.replace(/(.{4})(?=.)/g, '$1 ')}</code>
+            <button type="button" className="mfa-copy-btn" onClick={handleCopy}>
+              {copied ? t.copied : t.copy}
+            </button>
+          </div>
+          <a className="mfa-open-link" href={provisioningUri}>{t.openInApp}</a>
+        </div>
+      )}
+
+      <form className="mfa-enrollment-form" onSubmit={handleSubmit} noValidate>
+        <div className="form-group">
+          <label htmlFor="mfa-enrollment-code">{t.code}</label>
+          <input
+            id="mfa-enrollment-code"
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            dir="ltr"
+            maxLength={digits}
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+            aria-invalid={!!error}
+            disabled={verifying}
+          />
+          {error && <span className="field-error">{error}</span>}
+        </div>
+
+        {children}
+
+        <div className="mfa-enrollment-actions">
+          <button type="submit" className="mfa-verify-btn" disabled={verifying}>
+            {verifying ? t.verifying : t.verify}
+          </button>
+          {onCancel && (
+            <button type="button" className="mfa-cancel-btn" onClick={onCancel} disabled={verifying}>
+              {t.cancel}
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
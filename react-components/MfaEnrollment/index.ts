@@ -0,0 +1 @@
+export { MfaEnrollment } from './MfaEnrollment';
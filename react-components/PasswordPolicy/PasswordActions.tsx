@@ -0,0 +1,78 @@
+import { useState, useEffect } from 'react';
+import type { Language, PasswordPolicy } from '../types';
+import './PasswordPolicy.css';
+import { generatePassword } from './passwordPolicy';
+
+interface PasswordActionsProps {
+  password: string;
+  policy: PasswordPolicy;
+  username?: string;
+  language: Language;
+  onGenerate: (password: string) => void;
+  disabled?: boolean;
+}
+
+const translations = {
+  he: {
+    generate: 'צור סיסמה מאובטחת',
+    copy: 'העתק',
+    copied: 'הועתק!',
+    copyFailed: 'ההעתקה נכשלה'
+  },
+  en: {
+    generate: 'Generate secure password',
+    copy: 'Copy',
+    copied: 'Copied!',
+    copyFailed: 'Copy failed'
+  },
+  ar: {
+    generate: 'إنشاء كلمة مرور آمنة',
+    copy: 'نسخ',
+    copied: 'تم النسخ!',
+    copyFailed: 'فشل النسخ'
+  }
+};
+
+const COPY_FEEDBACK_MS = 2000;
+
+export const PasswordActions = ({ password, policy, username = '', language, onGenerate, disabled = false }: PasswordActionsProps) => {
+  const [copyState, setCopyState] = useState<'idle' | 'copied' | 'failed'>('idle');
+  const t = translations[language] || translations.en;
+
+  useEffect(() => {
+    if (copyState === 'idle') return;
+    const timer = setTimeout(() => setCopyState('idle'), COPY_FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [copyState]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(password);
+      setCopyState('copied');
+    } catch (error) {
+      console.error('Failed to copy password:', error);
+      setCopyState('failed');
+    }
+  };
+
+  return (
+    <div className="password-actions">
+      <button
+        type="button"
+        className="password-action-btn"
+        onClick={() => onGenerate(generatePassword(policy, username))}
+        disabled={disabled}
+      >
+        🎲 {t.generate}
+      </button>
+      <button
+        type="button"
+        className="password-action-btn"
+        onClick={handleCopy}
+        disabled={disabled || !password}
+      >
+        📋 {copyState === 'copied' ? t.copied : copyState === 'failed' ? t.copyFailed : t.copy}
+      </button>
+    </div>
+  );
+};
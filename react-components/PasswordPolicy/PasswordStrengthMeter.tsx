@@ -0,0 +1,92 @@
+import type { Language, PasswordPolicy } from '../types';
+import './PasswordPolicy.css';
+import { checkPasswordPolicy, getPasswordStrength, type PasswordRequirement } from './passwordPolicy';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  policy: PasswordPolicy;
+  username?: string;
+  language: Language;
+}
+
+const translations = {
+  he: {
+    strength: ['', 'חלשה', 'בינונית', 'טובה', 'חזקה'],
+    strengthLabel: 'חוזק הסיסמה',
+    requirements: {
+      minLength: (min: number) => `לפחות ${min} תווים`,
+      uppercase: () => 'אות גדולה (A-Z)',
+      lowercase: () => 'אות קטנה (a-z)',
+      digit: () => 'ספרה (0-9)',
+      symbol: () => 'תו מיוחד (!@#...)',
+      notBanned: () => 'לא סיסמה נפוצה',
+      notUsername: () => 'לא מכילה את שם המשתמש',
+    }
+  },
+  en: {
+    strength: ['', 'Weak', 'Fair', 'Good', 'Strong'],
+    strengthLabel: 'Password strength',
+    requirements: {
+      minLength: (min: number) => `At least ${min} characters`,
+      uppercase: () => 'An uppercase letter (A-Z)',
+      lowercase: () => 'A lowercase letter (a-z)',
+      digit: () => 'A digit (0-9)',
+      symbol: () => 'A special character (!@#...)',
+      notBanned: () => 'Not a common password',
+      notUsername: () => 'Does not contain the username',
+    }
+  },
+  ar: {
+    strength: ['', 'ضعيفة', 'مقبولة', 'جيدة', 'قوية'],
+    strengthLabel: 'قوة كلمة المرور',
+    requirements: {
+      minLength: (min: number) => `${min} أحرف على الأقل`,
+      uppercase: () => 'حرف كبير (A-Z)',
+      lowercase: () => 'حرف صغير (a-z)',
+      digit: () => 'رقم (0-9)',
+      symbol: () => 'رمز خاص (!@#...)',
+      notBanned: () => 'ليست كلمة مرور شائعة',
+      notUsername: () => 'لا تحتوي على اسم المستخدم',
+    }
+  }
+};
+
+const strengthClasses = ['', 'weak', 'fair', 'good', 'strong'];
+
+export const PasswordStrengthMeter = ({ password, policy, username = '', language }: PasswordStrengthMeterProps) => {
+  const t = translations[language] || translations.en;
+  const strength = getPasswordStrength(password, policy, username);
+  const results = checkPasswordPolicy(password, policy, username);
+
+  const requirementLabel = (requirement: PasswordRequirement) =>
+    requirement === 'minLength' ? t.requirements.minLength(policy.minLength) : t.requirements[requirement]();
+
+  return (
+    <div className="password-strength">
+      <div className="password-strength-row">
+        <div
+          className={`password-strength-bar strength-${strengthClasses[strength]}`}
+          role="meter"
+          aria-label={t.strengthLabel}
+          aria-valuenow={strength}
+          aria-valuemin={0}
+          aria-valuemax={4}
+        >
+          {[1, 2, 3, 4].map(level => (
+            <span key={level} className={`password-strength-segment ${level <= strength ? 'filled' : ''}`} />
+          ))}
+        </div>
+        <span className="password-strength-label">{t.strength[strength]}</span>
+      </div>
+
+      <ul className="password-checklist">
+        {results.map(result => (
+          <li key={result.requirement} className={result.met ? 'met' : ''}>
+            <span className="password-check-icon">{result.met ? '✓' : '○'}</span>
+            {requirementLabel(result.requirement)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
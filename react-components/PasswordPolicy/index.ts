@@ -0,0 +1,11 @@
+export { PasswordStrengthMeter } from './PasswordStrengthMeter';
+export { PasswordActions } from './PasswordActions';
+export { usePasswordPolicy } from './usePasswordPolicy';
+export {
+  DEFAULT_PASSWORD_POLICY,
+  checkPasswordPolicy,
+  passwordPolicyValidator,
+  getPasswordStrength,
+  generatePassword,
+} from './passwordPolicy';
+export type { PasswordRequirement, PasswordRequirementResult } from './passwordPolicy';
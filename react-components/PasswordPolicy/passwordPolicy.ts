@@ -0,0 +1,127 @@
+import type { PasswordPolicy } from '../types';
+import type { FormValues, Validator, ValidationMessageKey } from '../utils/validation';
+
+// Matches the rule the backend enforced before policies were configurable
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 6,
+  requireUppercase: false,
+  requireLowercase: false,
+  requireDigit: false,
+  requireSymbol: false,
+  bannedPasswords: [],
+  disallowUsername: false,
+};
+
+export type PasswordRequirement = 'minLength' | 'uppercase' | 'lowercase' | 'digit' | 'symbol' | 'notBanned' | 'notUsername';
+
+export interface PasswordRequirementResult {
+  requirement: PasswordRequirement;
+  met: boolean;
+}
+
+const UPPERCASE = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+const LOWERCASE = 'abcdefghijkmnopqrstuvwxyz';
+const DIGITS = '23456789';
+const SYMBOLS = '!@#$%^&*()-_=+[]{};:,.?';
+
+const hasUppercase = (password: string) => /\p{Lu}/u.test(password);
+const hasLowercase = (password: string) => /\p{Ll}/u.test(password);
+const hasDigit = (password: string) => /\d/.test(password);
+// Anything that is not a letter or a digit (Hebrew/Arabic letters do not count as symbols)
+const hasSymbol = (password: string) => /[^\p{L}\p{N}]/u.test(password);
+
+const requirementMessages: Record<PasswordRequirement, ValidationMessageKey> = {
+  minLength: 'password_too_short',
+  uppercase: 'password_needs_uppercase',
+  lowercase: 'password_needs_lowercase',
+  digit: 'password_needs_digit',
+  symbol: 'password_needs_symbol',
+  notBanned: 'password_too_common',
+  notUsername: 'password_contains_username',
+};
+
+/**
+ * Every requirement the policy enables, in checklist order, with whether the password meets it.
+ */
+export const checkPasswordPolicy = (password: string, policy: PasswordPolicy, username = ''): PasswordRequirementResult[] => {
+  const results: PasswordRequirementResult[] = [{ requirement: 'minLength', met: password.length >= policy.minLength }];
+
+  if (policy.requireUppercase) results.push({ requirement: 'uppercase', met: hasUppercase(password) });
+  if (policy.requireLowercase) results.push({ requirement: 'lowercase', met: hasLowercase(password) });
+  if (policy.requireDigit) results.push({ requirement: 'digit', met: hasDigit(password) });
+  if (policy.requireSymbol) results.push({ requirement: 'symbol', met: hasSymbol(password) });
+  if (policy.bannedPasswords.length > 0) {
+    const lower = password.toLowerCase();
+    results.push({ requirement: 'notBanned', met: !policy.bannedPasswords.some(banned => banned.toLowerCase() === lower) });
+  }
+  if (policy.disallowUsername) {
+    results.push({
+      requirement: 'notUsername',
+      met: !username.trim() || !password.toLowerCase().includes(username.trim().toLowerCase()),
+    });
+  }
+
+  return results;
+};
+
+/**
+ * Validator for schemas; `usernameOf` picks the username the password must not contain.
+ */
+export const passwordPolicyValidator = <V extends FormValues>(
+  policy: PasswordPolicy,
+  usernameOf: (values: V) => string = (values) => values.username ?? ''
+): Validator<V> => (value, values) => {
+  if (!value) return null;
+  const failed = checkPasswordPolicy(value, policy, usernameOf(values)).find(result => !result.met);
+  return failed ? requirementMessages[failed.requirement] : null;
+};
+
+/**
+ * 0 (empty) to 4 (strong). A password that breaks the policy never rates above 1.
+ */
+export const getPasswordStrength = (password: string, policy: PasswordPolicy, username = ''): number => {
+  if (!password) return 0;
+
+  const classes = [hasUppercase, hasLowercase, hasDigit, hasSymbol].filter(test => test(password)).length;
+  let score = 1;
+  if (password.length >= Math.max(12, policy.minLength + 4)) score++;
+  if (classes >= 3) score++;
+  if (classes === 4 || password.length >= 16) score++;
+
+  const meetsPolicy = checkPasswordPolicy(password, policy, username).every(result => result.met);
+  return meetsPolicy ? score : 1;
+};
+
+const randomIndex = (max: number) => {
+  // Rejection sampling keeps the distribution uniform
+  const limit = Math.floor(0x100000000 / max) * max;
+  const buffer = new Uint32Array(1);
+  do {
+    crypto.getRandomValues(buffer);
+  } while (buffer[0] >= limit);
+  return buffer[0] % max;
+};
+
+const randomChar = (chars: string) => chars[randomIndex(chars.length)];
+
+/**
+ * Random password that satisfies the policy: at least 16 characters with every character class.
+ * Look-alike characters (0/O, 1/l/I) are left out so it can be read aloud or typed from a screen.
+ */
+export const generatePassword = (policy: PasswordPolicy, username = ''): string => {
+  const length = Math.max(policy.minLength, 16);
+  const all = UPPERCASE + LOWERCASE + DIGITS + SYMBOLS;
+
+  for (;;) {
+    const chars = [randomChar(UPPERCASE), randomChar(LOWERCASE), randomChar(DIGITS), randomChar(SYMBOLS)];
+    while (chars.length < length) chars.push(randomChar(all));
+
+    for (let i = chars.length - 1; i > 0; i--) {
+      const j = randomIndex(i + 1);
+      [chars[i], chars[j]] = [chars[j], chars[i]];
+    }
+
+    const password = chars.join('');
+    if (checkPasswordPolicy(password, policy, username).every(result => result.met)) return password;
+  }
+};
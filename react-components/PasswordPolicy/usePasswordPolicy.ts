@@ -0,0 +1,32 @@
+import { useState, useEffect } from 'react';
+import type { PasswordPolicy } from '../types';
+import { useOvuApi } from '../api';
+import { DEFAULT_PASSWORD_POLICY } from './passwordPolicy';
+
+/**
+ * The policy passed by the host app, or else the one served by the policy endpoint.
+ * Falls back to DEFAULT_PASSWORD_POLICY while loading and when the endpoint is unavailable.
+ */
+export const usePasswordPolicy = (policy?: PasswordPolicy): PasswordPolicy => {
+  const api = useOvuApi();
+  const [loadedPolicy, setLoadedPolicy] = useState<PasswordPolicy | null>(null);
+
+  useEffect(() => {
+    if (policy) return;
+
+    let cancelled = false;
+    api.getPasswordPolicy()
+      .then(result => {
+        if (!cancelled) setLoadedPolicy(result);
+      })
+      .catch(error => {
+        console.error('Failed to load password policy:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [api, policy]);
+
+  return policy || loadedPolicy || DEFAULT_PASSWORD_POLICY;
+};
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import type { Language, UserSession } from '../types';
+import { useFormatter } from '../i18n';
+import './ActiveSessions.css';
+
+interface ActiveSessionsProps {
+  sessions: UserSession[];
+  language: Language;
+  // The session or action ('others') being signed out
+  busy: string | null;
+  onRevoke: (session: UserSession) => void;
+  onRevokeOthers: () => void;
+  // Lists the sessions without the sign-out buttons
+  readOnly?: boolean;
+  translations: {
+    thisDevice: string;
+    unknownDevice: string;
+    lastActive: (when: string) => string;
+    signedIn: (when: string) => string;
+    signOut: string;
+    signOutOthers: string;
+    signOutOthersConfirm: (count: number) => string;
+    confirm: string;
+    cancel: string;
+    noOtherSessions: string;
+  };
+}
+
+export const ActiveSessions = ({
+  sessions,
+  language,
+  busy,
+  onRevoke,
+  onRevokeOthers,
+  readOnly = false,
+  translations: t,
+}: ActiveSessionsProps) => {
+  const [confirming, setConfirming] = useState(false);
+  const { formatDateTime, formatRelativeTime } = useFormatter(language);
+
+  // The current device first, then the most recently used
+  const sorted = [...sessions].sort((a, b) =>
+    a.is_current !== b.is_current
+      ? (a.is_current ? -1 : 1)
+      : new Date(b.last_active_at).getTime() - new Date(a.last_active_at).getTime()
+  );
+  const otherCount = sessions.filter(session => !session.is_current).length;
+
+  return (
+    <div className="profile-sessions">
+      <ul className="profile-session-list">
+        {sorted.map(session => (
+          <li key={session.id} className={`profile-session${session.is_current ? ' current' : ''}`}>
+            <div className="profile-session-icon" aria-hidden="true">💻</div>
+            <div className="profile-session-info">
+              <div className="profile-session-device">
+                {session.device || t.unknownDevice}
+                {session.is_current && <span className="profile-session-badge">{t.thisDevice}</span>}
+              </div>
+              <div className="profile-session-meta">
+                {[session.location, session.ip_address].filter(Boolean).join(' · ')}
+              </div>
+              <div className="profile-session-meta">
+                <span title={formatDateTime(session.last_active_at)}>
+                  {t.lastActive(formatRelativeTime(session.last_active_at))}
+                </span>
+                {' · '}
+                {t.signedIn(formatDateTime(session.created_at))}
+              </div>
+            </div>
+            {!session.is_current && !readOnly && (
+              <button
+                type="button"
+                className="btn btn-cancel profile-session-revoke"
+                onClick={() => onRevoke(session)}
+                disabled={busy !== null}
+              >
+                {busy === session.id ? '...' : t.signOut}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {otherCount === 0 ? (
+        <p className="profile-hint">{t.noOtherSessions}</p>
+      ) : readOnly ? null : confirming ? (
+        <div className="profile-confirm" role="alert">
+          <span>{t.signOutOthersConfirm(otherCount)}</span>
+          <div className="profile-actions">
+            <button
+              type="button"
+              className="btn btn-cancel"
+              onClick={() => setConfirming(false)}
+              disabled={busy !== null}
+            >
+              {t.cancel}
+            </button>
+            <button
+              type="button"
+              className="btn btn-danger"
+              onClick={() => {
+                setConfirming(false);
+                onRevokeOthers();
+              }}
+              disabled={busy !== null}
+            >
+              {t.confirm}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="profile-actions">
+          <button type="button" className="btn btn-danger" onClick={() => setConfirming(true)} disabled={busy !== null}>
+            {busy === 'others' ? '...' : t.signOutOthers}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+import { useMemo, useState, type FormEvent } from 'react';
+import type { Language, PasswordPolicy } from '../types';
+import { getApiFormErrors } from '../api';
+import { required, matchesField, type ValidationSchema } from '../utils/validation';
+import { useFormValidation } from '../utils/useFormValidation';
+import { passwordPolicyValidator } from '../PasswordPolicy/passwordPolicy';
+import { PasswordStrengthMeter } from '../PasswordPolicy/PasswordStrengthMeter';
+import { PasswordActions } from '../PasswordPolicy/PasswordActions';
+
+interface ChangePasswordFormProps {
+  username: string;
+  language: Language;
+  policy: PasswordPolicy;
+  onChangePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  translations: {
+    currentPassword: string;
+    newPassword: string;
+    confirmPassword: string;
+    changePassword: string;
+    changingPassword: string;
+    passwordChanged: string;
+  };
+}
+
+type ChangePasswordValues = { currentPassword: string; newPassword: string; confirmPassword: string };
+
+export const ChangePasswordForm = ({
+  username,
+  language,
+  policy,
+  onChangePassword,
+  translations: t,
+}: ChangePasswordFormProps) => {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [changed, setChanged] = useState(false);
+
+  const schema = useMemo<ValidationSchema<ChangePasswordValues>>(() => ({
+    currentPassword: { validators: [required] },
+    newPassword: { validators: [required, passwordPolicyValidator<ChangePasswordValues>(policy, () => username)] },
+    confirmPassword: { validators: [required, matchesField<ChangePasswordValues>('newPassword')] },
+  }), [policy, username]);
+  const { errors: fieldErrors, validateField, validateForm, clearError, setServerErrors } = useFormValidation(schema, language);
+
+  const values: ChangePasswordValues = { currentPassword, newPassword, confirmPassword };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setChanged(false);
+
+    if (!(await validateForm(values))) return;
+
+    setSaving(true);
+    try {
+      await onChangePassword(currentPassword, newPassword);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      setShowPassword(false);
+      setChanged(true);
+    } catch (err) {
+      const errors = getApiFormErrors(err, ['current_password', 'new_password']);
+      // The API names the fields `current_password` and `new_password`
+      if (errors.fieldErrors.current_password) setServerErrors({ currentPassword: errors.fieldErrors.current_password });
+      if (errors.fieldErrors.new_password) setServerErrors({ newPassword: errors.fieldErrors.new_password });
+      setError(errors.formError);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form className="profile-form" onSubmit={handleSubmit} noValidate>
+      <div className="form-group">
+        <label htmlFor="profile-current-password">{t.currentPassword}</label>
+        <input
+          type={showPassword ? 'text' : 'password'}
+          id="profile-current-password"
+          autoComplete="current-password"
+          value={currentPassword}
+          aria-invalid={!!fieldErrors.currentPassword}
+          onChange={(e) => {
+            setCurrentPassword(e.target.value);
+            clearError('currentPassword');
+          }}
+          onBlur={() => validateField('currentPassword', values)}
+          disabled={saving}
+        />
+        {fieldErrors.currentPassword && <span className="field-error">{fieldErrors.currentPassword}</span>}
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="profile-new-password">{t.newPassword}</label>
+        <div className="password-input-wrapper">
+          <input
+            type={showPassword ? 'text' : 'password'}
+            id="profile-new-password"
+            autoComplete="new-password"
+            value={newPassword}
+            aria-invalid={!!fieldErrors.newPassword}
+            onChange={(e) => {
+              setNewPassword(e.target.value);
+              clearError('newPassword');
+            }}
+            onBlur={() => validateField('newPassword', values)}
+            disabled={saving}
+          />
+          <button
+            type="button"
+            className="toggle-password"
+            onClick={() => setShowPassword(!showPassword)}
+            disabled={saving}
+          >
+            {showPassword ? '👁️' : '👁️‍🗨️'}
+          </button>
+        </div>
+        {fieldErrors.newPassword && <span className="field-error">{fieldErrors.newPassword}</span>}
+        <PasswordStrengthMeter password={newPassword} policy={policy} username={username} language={language} />
+        <PasswordActions
+          password={newPassword}
+          policy={policy}
+          username={username}
+          language={language}
+          disabled={saving}
+          onGenerate={(generated) => {
+            setNewPassword(generated);
+            setConfirmPassword(generated);
+            setShowPassword(true);
+            clearError('newPassword');
+            clearError('confirmPassword');
+          }}
+        />
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="profile-confirm-password">{t.confirmPassword}</label>
+        <input
+          type={showPassword ? 'text' : 'password'}
+          id="profile-confirm-password"
+          autoComplete="new-password"
+          value={confirmPassword}
+          aria-invalid={!!fieldErrors.confirmPassword}
+          onChange={(e) => {
+            setConfirmPassword(e.target.value);
+            clearError('confirmPassword');
+          }}
+          onBlur={() => validateField('confirmPassword', values)}
+          disabled={saving}
+        />
+        {fieldErrors.confirmPassword && <span className="field-error">{fieldErrors.confirmPassword}</span>}
+      </div>
+
+      {error && <div className="error-message" role="alert">{error}</div>}
+      {changed && <div className="profile-success" role="status">{t.passwordChanged}</div>}
+
+      <div className="profile-actions">
+        <button type="submit" className="btn btn-save" disabled={saving}>
+          {saving ? t.changingPassword : t.changePassword}
+        </button>
+      </div>
+    </form>
+  );
+};
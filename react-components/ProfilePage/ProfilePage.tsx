@@ -0,0 +1,398 @@
+import { useState, useEffect, useMemo, type FormEvent } from 'react';
+import './ProfilePage.css';
+import type { Language, PasswordPolicy, UserInfo, UserSession } from '../types';
+import { useOvuApi, getApiErrorMessage, getApiFormErrors } from '../api';
+import { getDirection, LOCALES, SUPPORTED_LANGUAGES } from '../i18n/locales';
+import { required, email as emailFormat, phone as phoneFormat, type ValidationSchema } from '../utils/validation';
+import { useFormValidation } from '../utils/useFormValidation';
+import { usePasswordPolicy } from '../PasswordPolicy/usePasswordPolicy';
+import { ChangePasswordForm } from './ChangePasswordForm';
+import { ActiveSessions } from './ActiveSessions';
+
+interface ProfilePageProps {
+  language: Language;
+  theme: 'light' | 'dark';
+  // Loaded from the policy endpoint when not given
+  passwordPolicy?: PasswordPolicy;
+  // After a successful save, e.g. to switch the app to the new preferred_language
+  onProfileUpdated?: (user: UserInfo) => void;
+}
+
+const FORM_FIELDS = ['first_name', 'last_name', 'email', 'phone', 'preferred_language'] as const;
+
+type ProfileValues = Record<typeof FORM_FIELDS[number], string>;
+
+const EMPTY_VALUES: ProfileValues = { first_name: '', last_name: '', email: '', phone: '', preferred_language: '' };
+
+const toValues = (user: UserInfo): ProfileValues => ({
+  first_name: user.first_name || '',
+  last_name: user.last_name || '',
+  email: user.email,
+  phone: user.phone || '',
+  preferred_language: user.preferred_language || '',
+});
+
+const translations = {
+  he: {
+    pageTitle: 'הפרופיל שלי',
+    loading: 'טוען...',
+    retry: 'נסה שוב',
+    details: 'פרטים אישיים',
+    firstName: 'שם פרטי',
+    lastName: 'שם משפחה',
+    email: 'אימייל',
+    phone: 'טלפון',
+    preferredLanguage: 'שפה מועדפת',
+    languageDefault: 'ברירת המחדל של המערכת',
+    save: 'שמור',
+    saving: 'שומר...',
+    saved: 'הפרופיל נשמר',
+    reset: 'בטל שינויים',
+    security: 'שינוי סיסמה',
+    currentPassword: 'סיסמה נוכחית',
+    newPassword: 'סיסמה חדשה',
+    confirmPassword: 'אימות סיסמה',
+    changePassword: 'שנה סיסמה',
+    changingPassword: 'משנה...',
+    passwordChanged: 'הסיסמה שונתה',
+    sessions: 'מכשירים מחוברים',
+    thisDevice: 'המכשיר הזה',
+    unknownDevice: 'מכשיר לא מזוהה',
+    lastActive: (when: string) => `פעילות אחרונה ${when}`,
+    signedIn: (when: string) => `התחבר ב-${when}`,
+    signOut: 'התנתק',
+    signOutOthers: 'התנתק מכל המכשירים האחרים',
+    signOutOthersConfirm: (count: number) =>
+      count === 1 ? 'לנתק מכשיר אחד נוסף?' : `לנתק ${count} מכשירים אחרים?`,
+    confirm: 'התנתק',
+    cancel: 'ביטול',
+    noOtherSessions: 'אין מכשירים אחרים מחוברים לחשבון.',
+  },
+  en: {
+    pageTitle: 'My Profile',
+    loading: 'Loading...',
+    retry: 'Try again',
+    details: 'Personal details',
+    firstName: 'First name',
+    lastName: 'Last name',
+    email: 'Email',
+    phone: 'Phone',
+    preferredLanguage: 'Preferred language',
+    languageDefault: 'System default',
+    save: 'Save',
+    saving: 'Saving...',
+    saved: 'Profile saved',
+    reset: 'Discard changes',
+    security: 'Change password',
+    currentPassword: 'Current password',
+    newPassword: 'New password',
+    confirmPassword: 'Confirm password',
+    changePassword: 'Change password',
+    changingPassword: 'Changing...',
+    passwordChanged: 'Your password has been changed',
+    sessions: 'Signed-in devices',
+    thisDevice: 'This device',
+    unknownDevice: 'Unknown device',
+    lastActive: (when: string) => `Last active ${when}`,
+    signedIn: (when: string) => `signed in ${when}`,
+    signOut: 'Sign out',
+    signOutOthers: 'Sign out all other devices',
+    signOutOthersConfirm: (count: number) =>
+      count === 1 ? 'Sign out 1 other device?' : `Sign out ${count} other devices?`,
+    confirm: 'Sign out',
+    cancel: 'Cancel',
+    noOtherSessions: 'No other devices are signed in to this account.',
+  },
+  ar: {
+    pageTitle: 'ملفي الشخصي',
+    loading: 'جارٍ التحميل...',
+    retry: 'حاول مرة أخرى',
+    details: 'البيانات الشخصية',
+    firstName: 'الاسم الأول',
+    lastName: 'اسم العائلة',
+    email: 'البريد الإلكتروني',
+    phone: 'الهاتف',
+    preferredLanguage: 'اللغة المفضلة',
+    languageDefault: 'الافتراضي للنظام',
+    save: 'حفظ',
+    saving: 'جارٍ الحفظ...',
+    saved: 'تم حفظ الملف الشخصي',
+    reset: 'تجاهل التغييرات',
+    security: 'تغيير كلمة المرور',
+    currentPassword: 'كلمة المرور الحالية',
+    newPassword: 'كلمة المرور الجديدة',
+    confirmPassword: 'تأكيد كلمة المرور',
+    changePassword: 'تغيير كلمة المرور',
+    changingPassword: 'جارٍ التغيير...',
+    passwordChanged: 'تم تغيير كلمة المرور',
+    sessions: 'الأجهزة المسجّل دخولها',
+    thisDevice: 'هذا الجهاز',
+    unknownDevice: 'جهاز غير معروف',
+    lastActive: (when: string) => `آخر نشاط ${when}`,
+    signedIn: (when: string) => `سجّل الدخول في ${when}`,
+    signOut: 'تسجيل الخروج',
+    signOutOthers: 'تسجيل الخروج من جميع الأجهزة الأخرى',
+    signOutOthersConfirm: (count: number) =>
+      count === 1 ? 'تسجيل الخروج من جهاز آخر واحد؟' : `تسجيل الخروج من ${count} أجهزة أخرى؟`,
+    confirm: 'تسجيل الخروج',
+    cancel: 'إلغاء',
+    noOtherSessions: 'لا توجد أجهزة أخرى مسجّل دخولها إلى هذا الحساب.',
+  },
+};
+
+/**
+ * The signed-in user's own account: personal details, password and signed-in devices.
+ */
+export const ProfilePage = ({ language, theme, passwordPolicy, onProfileUpdated }: ProfilePageProps) => {
+  const api = useOvuApi();
+  const policy = usePasswordPolicy(passwordPolicy);
+  const [user, setUser] = useState<UserInfo | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [values, setValues] = useState<ProfileValues>(EMPTY_VALUES);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<UserSession[] | null>(null);
+  const [sessionsError, setSessionsError] = useState<string | null>(null);
+  // The session id, or 'others', being signed out
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  const t = translations[language] || translations.en;
+
+  const schema = useMemo<ValidationSchema<ProfileValues>>(() => ({
+    email: { validators: [required, emailFormat] },
+    phone: { validators: [phoneFormat] },
+  }), []);
+  const { errors: fieldErrors, validateField, validateForm, clearError, setServerErrors } = useFormValidation(schema, language);
+
+  const loadProfile = async () => {
+    setLoadError(null);
+    try {
+      const me = await api.me();
+      setUser(me);
+      setValues(toValues(me));
+    } catch (err) {
+      console.error('Failed to load profile:', err);
+      setLoadError(getApiErrorMessage(err));
+    }
+  };
+
+  // Separate from the profile, so a backend without the sessions endpoint still shows the rest of the page
+  const loadSessions = async () => {
+    setSessionsError(null);
+    try {
+      setSessions(await api.listMySessions());
+    } catch (err) {
+      console.error('Failed to load sessions:', err);
+      setSessionsError(getApiErrorMessage(err));
+    }
+  };
+
+  useEffect(() => {
+    loadProfile();
+    loadSessions();
+  }, [api]);
+
+  const dirty = !!user && FORM_FIELDS.some(field => values[field] !== toValues(user)[field]);
+
+  const setValue = (field: keyof ProfileValues, value: string) => {
+    setValues(prev => ({ ...prev, [field]: value }));
+    clearError(field);
+    setSaved(false);
+  };
+
+  const handleSave = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    setFormError(null);
+    setSaved(false);
+
+    if (!(await validateForm(values))) return;
+
+    setSaving(true);
+    try {
+      const updated = await api.updateMe({
+        first_name: values.first_name.trim(),
+        last_name: values.last_name.trim(),
+        email: values.email.trim(),
+        phone: values.phone.trim(),
+        // Empty means the system default
+        preferred_language: values.preferred_language || null,
+      });
+      setUser(updated);
+      setValues(toValues(updated));
+      setSaved(true);
+      onProfileUpdated?.(updated);
+    } catch (err) {
+      console.error('Failed to save profile:', err);
+      const errors = getApiFormErrors(err, FORM_FIELDS);
+      setServerErrors(errors.fieldErrors);
+      setFormError(errors.formError);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleChangePassword = async (currentPassword: string, newPassword: string) => {
+    await api.changeMyPassword(currentPassword, newPassword);
+    // Backends often sign out the other devices after a password change
+    loadSessions();
+  };
+
+  const handleRevoke = async (session: UserSession) => {
+    setRevoking(session.id);
+    setSessionsError(null);
+    try {
+      await api.revokeMySession(session.id);
+      setSessions(prev => prev?.filter(other => other.id !== session.id) ?? null);
+    } catch (err) {
+      console.error('Failed to sign out session:', err);
+      setSessionsError(getApiErrorMessage(err));
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setRevoking('others');
+    setSessionsError(null);
+    try {
+      await api.revokeOtherSessions();
+      setSessions(prev => prev?.filter(session => session.is_current) ?? null);
+    } catch (err) {
+      console.error('Failed to sign out other sessions:', err);
+      setSessionsError(getApiErrorMessage(err));
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const renderField = (field: keyof ProfileValues, label: string, type = 'text', autoComplete?: string) => (
+    <div className="form-group">
+      <label htmlFor={`profile-${field}`}>{label}</label>
+      <input
+        type={type}
+        id={`profile-${field}`}
+        autoComplete={autoComplete}
+        value={values[field]}
+        aria-invalid={!!fieldErrors[field]}
+        onChange={(e) => setValue(field, e.target.value)}
+        onBlur={() => validateField(field, values)}
+        disabled={saving}
+      />
+      {fieldErrors[field] && <span className="field-error">{fieldErrors[field]}</span>}
+    </div>
+  );
+
+  if (!user) {
+    return (
+      <div className={`profile-page ${theme}`} dir={getDirection(language)}>
+        {loadError ? (
+          <div className="profile-load-error">
+            <div className="error-message" role="alert">{loadError}</div>
+            <button type="button" className="btn btn-cancel" onClick={loadProfile}>{t.retry}</button>
+          </div>
+        ) : (
+          <div className="profile-loading" role="status">{t.loading}</div>
+        )}
+      </div>
+    );
+  }
+
+  const displayName = [user.first_name, user.last_name].filter(Boolean).join(' ') || user.username;
+
+  return (
+    <div className={`profile-page ${theme}`} dir={getDirection(language)}>
+      <div className="profile-header">
+        <div className="profile-avatar" aria-hidden="true">{displayName.charAt(0).toUpperCase()}</div>
+        <div>
+          <h1 className="profile-title">{t.pageTitle}</h1>
+          <p className="profile-subtitle">
+            {displayName} · <span dir="ltr">{user.username}</span> · {user.role}
+          </p>
+        </div>
+      </div>
+
+      <div className="profile-sections">
+        <section className="profile-card">
+          <h2 className="profile-card-title">{t.details}</h2>
+          <form className="profile-form" onSubmit={handleSave} noValidate>
+            <div className="profile-form-row">
+              {renderField('first_name', t.firstName, 'text', 'given-name')}
+              {renderField('last_name', t.lastName, 'text', 'family-name')}
+            </div>
+            {renderField('email', t.email, 'email', 'email')}
+            {renderField('phone', t.phone, 'tel', 'tel')}
+            <div className="form-group">
+              <label htmlFor="profile-preferred_language">{t.preferredLanguage}</label>
+              <select
+                id="profile-preferred_language"
+                value={values.preferred_language}
+                onChange={(e) => setValue('preferred_language', e.target.value)}
+                disabled={saving}
+              >
+                <option value="">{t.languageDefault}</option>
+                {SUPPORTED_LANGUAGES.map(code => (
+                  <option key={code} value={code}>{LOCALES[code].nativeName}</option>
+                ))}
+              </select>
+              {fieldErrors.preferred_language && <span className="field-error">{fieldErrors.preferred_language}</span>}
+            </div>
+
+            {formError && <div className="error-message" role="alert">{formError}</div>}
+            {saved && <div className="profile-success" role="status">{t.saved}</div>}
+
+            <div className="profile-actions">
+              <button
+                type="button"
+                className="btn btn-cancel"
+                onClick={() => {
+                  setValues(toValues(user));
+                  FORM_FIELDS.forEach(clearError);
+                  setFormError(null);
+                }}
+                disabled={saving || !dirty}
+              >
+                {t.reset}
+              </button>
+              <button type="submit" className="btn btn-save" disabled={saving || !dirty}>
+                {saving ? t.saving : t.save}
+              </button>
+            </div>
+          </form>
+        </section>
+
+        <section className="profile-card">
+          <h2 className="profile-card-title">{t.security}</h2>
+          <ChangePasswordForm
+            username={user.username}
+            language={language}
+            policy={policy}
+            onChangePassword={handleChangePassword}
+            translations={t}
+          />
+        </section>
+
+        <section className="profile-card profile-card-wide">
+          <h2 className="profile-card-title">{t.sessions}</h2>
+          {sessionsError && <div className="error-message" role="alert">{sessionsError}</div>}
+          {sessionsError && !sessions && (
+            <button type="button" className="btn btn-cancel" onClick={loadSessions}>{t.retry}</button>
+          )}
+          {sessions ? (
+            <ActiveSessions
+              sessions={sessions}
+              language={language}
+              busy={revoking}
+              onRevoke={handleRevoke}
+              onRevokeOthers={handleRevokeOthers}
+              translations={t}
+            />
+          ) : (
+            !sessionsError && <div className="profile-loading" role="status">{t.loading}</div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { ProfilePage } from './ProfilePage';
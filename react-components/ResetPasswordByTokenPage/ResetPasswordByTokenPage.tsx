@@ -0,0 +1,337 @@
+import { useState, useEffect, useMemo, type FormEvent, type ReactNode } from 'react';
+import './ResetPasswordByTokenPage.css';
+import type { Theme, Language, AppTranslations, PasswordPolicy } from '../types';
+import { getApiFormErrors } from '../api';
+import { LoginShell } from '../LoginPage';
+import { required, matchesField, type ValidationSchema } from '../utils/validation';
+import { useFormValidation } from '../utils/useFormValidation';
+import { passwordPolicyValidator } from '../PasswordPolicy/passwordPolicy';
+import { usePasswordPolicy } from '../PasswordPolicy/usePasswordPolicy';
+import { PasswordStrengthMeter } from '../PasswordPolicy/PasswordStrengthMeter';
+import { PasswordActions } from '../PasswordPolicy/PasswordActions';
+
+export type ResetTokenProblem = 'expired' | 'invalid';
+
+export interface ResetTokenCheck {
+  status: 'valid' | ResetTokenProblem;
+  // The account the link belongs to, shown above the form and used by the policy's username rule
+  username?: string;
+}
+
+interface ResetPasswordByTokenPageProps {
+  theme: Theme;
+  language: Language;
+  translations: AppTranslations;
+  logoIcon: string;
+  logoColor?: 'blue' | 'purple';
+  onToggleTheme: () => void;
+  onToggleLanguage: () => void;
+  // Read from the `tokenParam` query parameter of the current URL when not given
+  token?: string;
+  tokenParam?: string;
+  // Checks the link before the form is shown; without it the token is only checked on submit
+  onValidateToken?: (token: string) => Promise<ResetTokenCheck>;
+  // Resolves with a problem when the backend rejects the token; a rejected promise shows its error on the form
+  onResetPassword: (token: string, newPassword: string) => Promise<ResetTokenProblem | void>;
+  // Loaded from the policy endpoint when not given
+  passwordPolicy?: PasswordPolicy;
+  onBackToLogin: () => void;
+  // Shows "Request a new link" on the expired and invalid states, e.g. LoginPage's forgot-password step
+  onRequestNewLink?: () => void;
+}
+
+type PageState = 'checking' | 'form' | 'done' | ResetTokenProblem;
+
+type NewPasswordValues = { newPassword: string; confirmPassword: string };
+
+const translations = {
+  he: {
+    title: 'איפוס סיסמה',
+    prompt: 'בחר סיסמה חדשה לחשבון שלך',
+    newPassword: 'סיסמה חדשה',
+    confirmPassword: 'אימות סיסמה',
+    submit: 'קבע סיסמה',
+    saving: 'שומר...',
+    checking: 'בודק את הקישור...',
+    doneTitle: 'הסיסמה אופסה בהצלחה',
+    doneMessage: 'אפשר להתחבר עכשיו עם הסיסמה החדשה.',
+    expiredTitle: 'פג תוקף הקישור',
+    expiredMessage: 'קישורי איפוס תקפים לזמן מוגבל. בקש קישור חדש כדי להמשיך.',
+    invalidTitle: 'הקישור אינו תקין',
+    invalidMessage: 'ייתכן שהקישור כבר נוצל או שלא הועתק במלואו.',
+    requestNewLink: 'בקש קישור חדש',
+    signIn: 'להתחברות',
+    back: 'חזרה להתחברות',
+  },
+  en: {
+    title: 'Reset Password',
+    prompt: 'Choose a new password for your account',
+    newPassword: 'New Password',
+    confirmPassword: 'Confirm Password',
+    submit: 'Set password',
+    saving: 'Saving...',
+    checking: 'Checking the link...',
+    doneTitle: 'Your password has been reset',
+    doneMessage: 'You can now sign in with your new password.',
+    expiredTitle: 'This link has expired',
+    expiredMessage: 'Reset links are valid for a limited time. Request a new one to continue.',
+    invalidTitle: 'This link is not valid',
+    invalidMessage: 'It may have been used already or copied incompletely.',
+    requestNewLink: 'Request a new link',
+    signIn: 'Sign in',
+    back: 'Back to sign in',
+  },
+  ar: {
+    title: 'إعادة تعيين كلمة المرور',
+    prompt: 'اختر كلمة مرور جديدة لحسابك',
+    newPassword: 'كلمة المرور الجديدة',
+    confirmPassword: 'تأكيد كلمة المرور',
+    submit: 'تعيين كلمة المرور',
+    saving: 'جارٍ الحفظ...',
+    checking: 'جارٍ التحقق من الرابط...',
+    doneTitle: 'تمت إعادة تعيين كلمة المرور',
+    doneMessage: 'يمكنك الآن تسجيل الدخول باستخدام كلمة المرور الجديدة.',
+    expiredTitle: 'انتهت صلاحية هذا الرابط',
+    expiredMessage: 'روابط إعادة التعيين صالحة لفترة محدودة. اطلب رابطًا جديدًا للمتابعة.',
+    invalidTitle: 'هذا الرابط غير صالح',
+    invalidMessage: 'ربما تم استخدامه بالفعل أو لم يتم نسخه بالكامل.',
+    requestNewLink: 'طلب رابط جديد',
+    signIn: 'تسجيل الدخول',
+    back: 'العودة إلى تسجيل الدخول',
+  },
+};
+
+const readTokenFromUrl = (param: string) => {
+  if (typeof window === 'undefined') return null;
+  return new URLSearchParams(window.location.search).get(param);
+};
+
+/**
+ * The page a password reset email links to: checks the token from the URL and sets a new password.
+ */
+export const ResetPasswordByTokenPage = ({
+  theme,
+  language,
+  translations: appTranslations,
+  logoIcon,
+  logoColor,
+  onToggleTheme,
+  onToggleLanguage,
+  token,
+  tokenParam = 'token',
+  onValidateToken,
+  onResetPassword,
+  passwordPolicy,
+  onBackToLogin,
+  onRequestNewLink,
+}: ResetPasswordByTokenPageProps) => {
+  const resetToken = useMemo(() => token ?? readTokenFromUrl(tokenParam), [token, tokenParam]);
+  const [state, setState] = useState<PageState>(() => {
+    if (!resetToken) return 'invalid';
+    return onValidateToken ? 'checking' : 'form';
+  });
+  const [username, setUsername] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const policy = usePasswordPolicy(passwordPolicy);
+
+  const t = translations[language] || translations.en;
+
+  useEffect(() => {
+    if (!resetToken) {
+      setState('invalid');
+      return;
+    }
+    if (!onValidateToken) {
+      setState('form');
+      return;
+    }
+
+    let cancelled = false;
+    setState('checking');
+    onValidateToken(resetToken)
+      .then(check => {
+        if (cancelled) return;
+        setUsername(check.username ?? '');
+        setState(check.status === 'valid' ? 'form' : check.status);
+      })
+      .catch(err => {
+        // The backend checks the token again on submit, so a failed lookup should not block the form
+        console.error('Failed to validate reset token:', err);
+        if (!cancelled) setState('form');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [resetToken]);
+
+  const schema = useMemo<ValidationSchema<NewPasswordValues>>(() => ({
+    newPassword: { validators: [required, passwordPolicyValidator<NewPasswordValues>(policy, () => username)] },
+    confirmPassword: { validators: [required, matchesField<NewPasswordValues>('newPassword')] },
+  }), [policy, username]);
+  const { errors: fieldErrors, validateField, validateForm, clearError, setServerErrors } = useFormValidation(schema, language);
+
+  const values: NewPasswordValues = { newPassword, confirmPassword };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!resetToken) return;
+    setError(null);
+
+    if (!(await validateForm(values))) return;
+
+    setSaving(true);
+    try {
+      const problem = await onResetPassword(resetToken, newPassword);
+      setState(problem || 'done');
+    } catch (err) {
+      const errors = getApiFormErrors(err, ['new_password']);
+      // The API names the field `new_password`
+      if (errors.fieldErrors.new_password) setServerErrors({ newPassword: errors.fieldErrors.new_password });
+      setError(errors.formError);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderStatus = (icon: string, title: string, message: string, actions: ReactNode) => (
+    <div className="reset-link-status" role={state === 'done' ? 'status' : 'alert'}>
+      <div className="reset-link-status-icon" aria-hidden="true">{icon}</div>
+      <h2 className="reset-link-status-title">{title}</h2>
+      <p className="login-step-prompt">{message}</p>
+      {actions}
+    </div>
+  );
+
+  const renderProblemActions = () => (
+    <>
+      {onRequestNewLink && (
+        <button type="button" className="login-btn" onClick={onRequestNewLink}>
+          {t.requestNewLink}
+        </button>
+      )}
+      <div className="login-links">
+        <button type="button" className="link-btn" onClick={onBackToLogin}>
+          {t.back}
+        </button>
+      </div>
+    </>
+  );
+
+  const renderForm = () => (
+    <form className="login-form reset-by-token-form" onSubmit={handleSubmit} noValidate>
+      <p className="login-step-prompt">{t.prompt}</p>
+      {username && <div className="reset-by-token-username" dir="ltr">{username}</div>}
+      {error && <div className="error-message" role="alert">{error}</div>}
+
+      <div className="form-group">
+        <label htmlFor="reset-new-password">{t.newPassword}</label>
+        <div className="password-input-wrapper">
+          <input
+            type={showPassword ? 'text' : 'password'}
+            id="reset-new-password"
+            autoComplete="new-password"
+            value={newPassword}
+            aria-invalid={!!fieldErrors.newPassword}
+            onChange={(e) => {
+              setNewPassword(e.target.value);
+              clearError('newPassword');
+            }}
+            onBlur={() => validateField('newPassword', values)}
+            autoFocus
+            disabled={saving}
+          />
+          <button
+            type="button"
+            className="toggle-password"
+            onClick={() => setShowPassword(!showPassword)}
+            disabled={saving}
+          >
+            {showPassword ? '👁️' : '👁️‍🗨️'}
+          </button>
+        </div>
+        {fieldErrors.newPassword && <span className="field-error">{fieldErrors.newPassword}</span>}
+        <PasswordStrengthMeter password={newPassword} policy={policy} username={username} language={language} />
+        <PasswordActions
+          password={newPassword}
+          policy={policy}
+          username={username}
+          language={language}
+          disabled={saving}
+          onGenerate={(generated) => {
+            setNewPassword(generated);
+            setConfirmPassword(generated);
+            setShowPassword(true);
+            clearError('newPassword');
+            clearError('confirmPassword');
+          }}
+        />
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="reset-confirm-password">{t.confirmPassword}</label>
+        <input
+          type={showPassword ? 'text' : 'password'}
+          id="reset-confirm-password"
+          autoComplete="new-password"
+          value={confirmPassword}
+          aria-invalid={!!fieldErrors.confirmPassword}
+          onChange={(e) => {
+            setConfirmPassword(e.target.value);
+            clearError('confirmPassword');
+          }}
+          onBlur={() => validateField('confirmPassword', values)}
+          disabled={saving}
+        />
+        {fieldErrors.confirmPassword && <span className="field-error">{fieldErrors.confirmPassword}</span>}
+      </div>
+
+      <button type="submit" className="login-btn" disabled={saving}>
+        {saving ? t.saving : t.submit}
+      </button>
+      <div className="login-links">
+        <button type="button" className="link-btn" onClick={onBackToLogin} disabled={saving}>
+          {t.back}
+        </button>
+      </div>
+    </form>
+  );
+
+  const renderContent = () => {
+    switch (state) {
+      case 'checking':
+        return <p className="login-step-prompt" role="status">{t.checking}</p>;
+      case 'form':
+        return renderForm();
+      case 'done':
+        return renderStatus('✅', t.doneTitle, t.doneMessage, (
+          <button type="button" className="login-btn" onClick={onBackToLogin}>
+            {t.signIn}
+          </button>
+        ));
+      case 'expired':
+        return renderStatus('⏰', t.expiredTitle, t.expiredMessage, renderProblemActions());
+      case 'invalid':
+        return renderStatus('⚠️', t.invalidTitle, t.invalidMessage, renderProblemActions());
+    }
+  };
+
+  return (
+    <LoginShell
+      theme={theme}
+      language={language}
+      translations={appTranslations}
+      logoIcon={logoIcon}
+      logoColor={logoColor}
+      onToggleTheme={onToggleTheme}
+      onToggleLanguage={onToggleLanguage}
+    >
+      {state === 'form' && <h1 className="login-title">{t.title}</h1>}
+      {renderContent()}
+    </LoginShell>
+  );
+};
@@ -0,0 +1,2 @@
+export { ResetPasswordByTokenPage } from './ResetPasswordByTokenPage';
+export type { ResetTokenCheck, ResetTokenProblem } from './ResetPasswordByTokenPage';
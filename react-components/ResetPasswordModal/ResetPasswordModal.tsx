@@ -1,14 +1,27 @@
-import { useState, type FormEvent } from 'react';
+import { useState, useMemo, type FormEvent } from 'react';
+import type { Language, PasswordPolicy } from '../types';
+import { getDirection } from '../i18n/locales';
 import './ResetPasswordModal.css';
+import { getApiFormErrors } from '../api';
+import { required, matchesField, type ValidationSchema } from '../utils/validation';
+import { useFormValidation } from '../utils/useFormValidation';
+import { passwordPolicyValidator } from '../PasswordPolicy/passwordPolicy';
+import { usePasswordPolicy } from '../PasswordPolicy/usePasswordPolicy';
+import { PasswordStrengthMeter } from '../PasswordPolicy/PasswordStrengthMeter';
+import { PasswordActions } from '../PasswordPolicy/PasswordActions';
 
 interface ResetPasswordModalProps {
   userId: number;
   username: string;
   onClose: () => void;
-  onReset: (userId: number, newPassword: string) => Promise<void>;
-  language: 'he' | 'en';
+  onReset: (userId: number, newPassword: string, mustChangePassword: boolean) => Promise<void>;
+  language: Language;
+  // Loaded from the policy endpoint when not given
+  passwordPolicy?: PasswordPolicy;
 }
 
+type ResetPasswordValues = { newPassword: string; confirmPassword: string };
+
 const translations = {
   he: {
     title: 'איפוס סיסמה',
@@ -17,8 +30,7 @@ const translations = {
     cancel: 'ביטול',
     reset: 'איפוס',
     resetting: 'מאפס...',
-    passwordMismatch: 'הסיסמאות לא תואמות',
-    passwordTooShort: 'הסיסמה חייבת להכיל לפחות 6 תווים',
+    mustChangePassword: 'חייב לשנות סיסמה בהתחברות הבאה',
     successMessage: 'הסיסמה אופסה בהצלחה!'
   },
   en: {
@@ -28,9 +40,18 @@ const translations = {
     cancel: 'Cancel',
     reset: 'Reset',
     resetting: 'Resetting...',
-    passwordMismatch: 'Passwords do not match',
-    passwordTooShort: 'Password must be at least 6 characters',
+    mustChangePassword: 'Require password change at next login',
     successMessage: 'Password reset successfully!'
+  },
+  ar: {
+    title: 'إعادة تعيين كلمة المرور',
+    newPassword: 'كلمة المرور الجديدة',
+    confirmPassword: 'تأكيد كلمة المرور',
+    cancel: 'إلغاء',
+    reset: 'إعادة تعيين',
+    resetting: 'جارٍ إعادة التعيين...',
+    mustChangePassword: 'يجب تغيير كلمة المرور عند تسجيل الدخول التالي',
+    successMessage: 'تمت إعادة تعيين كلمة المرور بنجاح!'
   }
 };
 
@@ -39,37 +60,42 @@ export const ResetPasswordModal = ({
   username, 
   onClose, 
   onReset, 
-  language 
+  language,
+  passwordPolicy
 }: ResetPasswordModalProps) => {
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showPassword, setShowPassword] = useState(false);
+  const [mustChangePassword, setMustChangePassword] = useState(true);
+  const policy = usePasswordPolicy(passwordPolicy);
 
   const t = translations[language];
 
+  const schema = useMemo<ValidationSchema<ResetPasswordValues>>(() => ({
+    newPassword: { validators: [required, passwordPolicyValidator<ResetPasswordValues>(policy, () => username)] },
+    confirmPassword: { validators: [required, matchesField<ResetPasswordValues>('newPassword')] },
+  }), [policy, username]);
+  const { errors: fieldErrors, validateField, validateForm, clearError, setServerErrors } = useFormValidation(schema, language);
+
+  const values: ResetPasswordValues = { newPassword, confirmPassword };
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     setError(null);
 
-    // Validation
-    if (newPassword.length < 6) {
-      setError(t.passwordTooShort);
-      return;
-    }
-
-    if (newPassword !== confirmPassword) {
-      setError(t.passwordMismatch);
-      return;
-    }
+    if (!(await validateForm(values))) return;
 
     setLoading(true);
     try {
-      await onReset(userId, newPassword);
+      await onReset(userId, newPassword, mustChangePassword);
       onClose();
-    } catch (err: any) {
-      setError(err.message || 'Failed to reset password');
+    } catch (err) {
+      const errors = getApiFormErrors(err, ['new_password']);
+      // The API names the field `new_password`
+      if (errors.fieldErrors.new_password) setServerErrors({ newPassword: errors.fieldErrors.new_password });
+      setError(errors.formError);
     } finally {
       setLoading(false);
     }
@@ -77,7 +103,7 @@ export const ResetPasswordModal = ({
 
   return (
     <div className="modal-backdrop" onClick={onClose}>
-      <div className="modal-content reset-password-modal" dir={language === 'he' ? 'rtl' : 'ltr'} onClick={(e) => e.stopPropagation()}>
+      <div className="modal-content reset-password-modal" dir={getDirection(language)} onClick={(e) => e.stopPropagation()}>
         <div className="modal-header">
           <h2>{t.title}</h2>
           <button className="modal-close" onClick={onClose} title="Close">
@@ -85,7 +111,7 @@ export const ResetPasswordModal = ({
           </button>
         </div>
 
-        <form onSubmit={handleSubmit}>
+        <form onSubmit={handleSubmit} noValidate>
           <div className="modal-body">
             <div className="user-info">
               {username}
@@ -98,7 +124,12 @@ export const ResetPasswordModal = ({
                   type={showPassword ? 'text' : 'password'}
                   id="newPassword"
                   value={newPassword}
-                  onChange={(e) => setNewPassword(e.target.value)}
+                  aria-invalid={!!fieldErrors.newPassword}
+                  onChange={(e) => {
+                    setNewPassword(e.target.value);
+                    clearError('newPassword');
+                  }}
+                  onBlur={() => validateField('newPassword', values)}
                   required
                   autoFocus
                   disabled={loading}
@@ -112,6 +143,22 @@ export const ResetPasswordModal = ({
                   {showPassword ? '👁️' : '👁️‍🗨️'}
                 </button>
               </div>
+              {fieldErrors.newPassword && <span className="field-error">{fieldErrors.newPassword}</span>}
+              <PasswordStrengthMeter password={newPassword} policy={policy} username={username} language={language} />
+              <PasswordActions
+                password={newPassword}
+                policy={policy}
+                username={username}
+                language={language}
+                disabled={loading}
+                onGenerate={(generated) => {
+                  setNewPassword(generated);
+                  setConfirmPassword(generated);
+                  setShowPassword(true);
+                  clearError('newPassword');
+                  clearError('confirmPassword');
+                }}
+              />
             </div>
 
             <div className="form-group">
@@ -120,11 +167,29 @@ export const ResetPasswordModal = ({
                 type={showPassword ? 'text' : 'password'}
                 id="confirmPassword"
                 className="confirm-password-input"
+                aria-invalid={!!fieldErrors.confirmPassword}
                 value={confirmPassword}
-                onChange={(e) => setConfirmPassword(e.target.value)}
+                onChange={(e) => {
+                  setConfirmPassword(e.target.value);
+                  clearError('confirmPassword');
+                }}
+                onBlur={() => validateField('confirmPassword', values)}
                 required
                 disabled={loading}
               />
+              {fieldErrors.confirmPassword && <span className="field-error">{fieldErrors.confirmPassword}</span>}
+            </div>
+
+            <div className="form-group">
+              <label className="force-password-change">
+                <input
+                  type="checkbox"
+                  checked={mustChangePassword}
+                  onChange={(e) => setMustChangePassword(e.target.checked)}
+                  disabled={loading}
+                />
+                {t.mustChangePassword}
+              </label>
             </div>
 
             {error && <div className="error-message">{error}</div>}
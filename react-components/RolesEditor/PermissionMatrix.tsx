@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import type { Language, PermissionGroup, Role } from '../types';
+import { localize } from '../i18n';
+import { hasPermission } from '../permissions';
+
+interface PermissionMatrixProps {
+  language: Language;
+  roles: Role[];
+  groups: PermissionGroup[];
+  // Unsaved permission lists by role id
+  drafts: Record<number, string[]>;
+  readOnly: boolean;
+  // The role whose users are shown below the matrix
+  activeRoleId: number | null;
+  onToggle: (role: Role, permissions: string[], granted: boolean) => void;
+  onRename: (role: Role) => void;
+  onDelete: (role: Role) => void;
+  onShowUsers: (role: Role) => void;
+  translations: {
+    permission: string;
+    rename: string;
+    delete: string;
+    showUsers: string;
+    unsaved: string;
+    grantedByWildcard: string;
+    expandGroup: string;
+    collapseGroup: string;
+  };
+}
+
+export const PermissionMatrix = ({
+  language,
+  roles,
+  groups,
+  drafts,
+  readOnly,
+  activeRoleId,
+  onToggle,
+  onRename,
+  onDelete,
+  onShowUsers,
+  translations: t,
+}: PermissionMatrixProps) => {
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+
+  const toggleGroup = (groupId: string) => {
+    setCollapsedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(groupId)) next.delete(groupId);
+      else next.add(groupId);
+      return next;
+    });
+  };
+
+  const permissionsOf = (role: Role) => drafts[role.id] ?? role.permissions;
+
+  const renderGroupCell = (role: Role, group: PermissionGroup) => {
+    const granted = permissionsOf(role);
+    const ids = group.permissions.map(permission => permission.id);
+    const grantedCount = ids.filter(id => hasPermission(granted, id)).length;
+    // Permissions that come from a wildcard can't be switched off one by one
+    const explicitIds = ids.filter(id => granted.includes(id) || !hasPermission(granted, id));
+    const allGranted = grantedCount === ids.length;
+
+    return (
+      <td key={role.id} className="matrix-cell">
+        <input
+          type="checkbox"
+          aria-label={`${localize(group.label, language)} - ${role.name}`}
+          checked={allGranted}
+          ref={el => {
+            if (el) el.indeterminate = grantedCount > 0 && !allGranted;
+          }}
+          disabled={readOnly || explicitIds.length === 0}
+          onChange={() => onToggle(role, explicitIds, !allGranted)}
+        />
+      </td>
+    );
+  };
+
+  const renderPermissionCell = (role: Role, permissionId: string, label: string) => {
+    const granted = permissionsOf(role);
+    const explicit = granted.includes(permissionId);
+    const implied = !explicit && hasPermission(granted, permissionId);
+    const changed = explicit !== role.permissions.includes(permissionId);
+
+    return (
+      <td key={role.id} className={`matrix-cell ${changed ? 'changed' : ''}`}>
+        <input
+          type="checkbox"
+          aria-label={`${label} - ${role.name}`}
+          checked={explicit || implied}
+          disabled={readOnly || implied}
+          title={implied ? t.grantedByWildcard : undefined}
+          onChange={() => onToggle(role, [permissionId], !explicit)}
+        />
+      </td>
+    );
+  };
+
+  return (
+    <div className="permission-matrix-wrapper">
+      <table className="permission-matrix">
+        <thead>
+          <tr>
+            <th className="matrix-corner">{t.permission}</th>
+            {roles.map(role => (
+              <th key={role.id} className={`matrix-role ${role.id === activeRoleId ? 'active' : ''}`}>
+                <div className="matrix-role-name">
+                  {role.name}
+                  {drafts[role.id] && <span className="unsaved-dot" title={t.unsaved} />}
+                </div>
+                <div className="matrix-role-actions">
+                  <button className="btn-icon" title={t.showUsers} onClick={() => onShowUsers(role)}>
+                    👥
+                  </button>
+                  {!readOnly && (
+                    <>
+                      <button className="btn-icon" title={t.rename} onClick={() => onRename(role)}>
+                        ✏️
+                      </button>
+                      <button className="btn-icon" title={t.delete} onClick={() => onDelete(role)}>
+                        🗑️
+                      </button>
+                    </>
+                  )}
+                </div>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        {groups.map(group => {
+          const collapsed = collapsedGroups.has(group.id);
+          return (
+            <tbody key={group.id}>
+              <tr className="matrix-group-row">
+                <th scope="rowgroup">
+                  <button
+                    className="matrix-group-toggle"
+                    aria-expanded={!collapsed}
+                    title={collapsed ? t.expandGroup : t.collapseGroup}
+                    onClick={() => toggleGroup(group.id)}
+                  >
+                    <span className="matrix-group-arrow">{collapsed ? '▸' : '▾'}</span>
+                    {localize(group.label, language)}
+                  </button>
+                </th>
+                {roles.map(role => renderGroupCell(role, group))}
+              </tr>
+              {!collapsed &&
+                group.permissions.map(permission => {
+                  const label = localize(permission.label, language);
+                  return (
+                    <tr key={permission.id} className="matrix-permission-row">
+                      <th scope="row">
+                        <span className="matrix-permission-label">{label}</span>
+                        <code className="matrix-permission-id">{permission.id}</code>
+                      </th>
+                      {roles.map(role => renderPermissionCell(role, permission.id, label))}
+                    </tr>
+                  );
+                })}
+            </tbody>
+          );
+        })}
+      </table>
+    </div>
+  );
+};
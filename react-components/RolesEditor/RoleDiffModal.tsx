@@ -0,0 +1,101 @@
+import type { Language } from '../types';
+import { getDirection } from '../i18n';
+import type { RolePermissionChange } from './roleDiff';
+
+interface RoleDiffModalProps {
+  language: Language;
+  changes: RolePermissionChange[];
+  // Permission id -> label in the current language
+  getPermissionLabel: (permission: string) => string;
+  saving: boolean;
+  // Save errors by role id, from the last attempt
+  errors: Record<number, string>;
+  onConfirm: () => void;
+  onClose: () => void;
+  translations: {
+    reviewTitle: string;
+    reviewHint: string;
+    granted: string;
+    revoked: string;
+    save: string;
+    saving: string;
+    backToEditing: string;
+    close: string;
+  };
+}
+
+/**
+ * Lists what saving will grant and revoke, per role, before anything is sent.
+ */
+export const RoleDiffModal = ({
+  language,
+  changes,
+  getPermissionLabel,
+  saving,
+  errors,
+  onConfirm,
+  onClose,
+  translations: t,
+}: RoleDiffModalProps) => {
+  const renderList = (permissions: string[], kind: 'added' | 'removed') => (
+    <ul className={`role-diff-list ${kind}`}>
+      {permissions.map(permission => (
+        <li key={permission}>
+          <span className="role-diff-sign">{kind === 'added' ? '+' : '−'}</span>
+          {getPermissionLabel(permission)}
+          <code>{permission}</code>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="modal-backdrop" onClick={saving ? undefined : onClose}>
+      <div
+        className="modal-content role-diff-modal"
+        onClick={(e) => e.stopPropagation()}
+        dir={getDirection(language)}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="role-diff-title"
+      >
+        <div className="modal-header">
+          <h2 className="modal-title" id="role-diff-title">{t.reviewTitle}</h2>
+          <button className="modal-close-btn" onClick={onClose} disabled={saving} title={t.close}>
+            ✕
+          </button>
+        </div>
+
+        <p className="role-diff-hint">{t.reviewHint}</p>
+
+        {changes.map(({ role, added, removed }) => (
+          <section key={role.id} className="role-diff-role">
+            <h3>{role.name}</h3>
+            {errors[role.id] && <div className="error-message">{errors[role.id]}</div>}
+            {added.length > 0 && (
+              <>
+                <h4>{t.granted}</h4>
+                {renderList(added, 'added')}
+              </>
+            )}
+            {removed.length > 0 && (
+              <>
+                <h4>{t.revoked}</h4>
+                {renderList(removed, 'removed')}
+              </>
+            )}
+          </section>
+        ))}
+
+        <div className="modal-actions">
+          <button className="btn btn-cancel" onClick={onClose} disabled={saving}>
+            {t.backToEditing}
+          </button>
+          <button className="btn btn-save" onClick={onConfirm} disabled={saving || changes.length === 0}>
+            {saving ? t.saving : t.save}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import { useState, type FormEvent } from 'react';
+import type { Language, Role } from '../types';
+import { getDirection } from '../i18n';
+import { getApiErrorMessage } from '../api';
+
+interface RoleNameModalProps {
+  language: Language;
+  roles: Role[];
+  // The role being renamed; a new role is created without one
+  role?: Role;
+  onSubmit: (name: string, copyFrom?: Role) => Promise<void>;
+  onClose: () => void;
+  translations: {
+    createTitle: string;
+    renameTitle: string;
+    roleName: string;
+    roleNameHint: string;
+    copyPermissionsFrom: string;
+    noPermissions: string;
+    nameRequired: string;
+    nameInvalid: string;
+    nameTaken: string;
+    create: string;
+    rename: string;
+    cancel: string;
+  };
+}
+
+// Role names end up in users' `role` field and in URLs, so they stay simple identifiers
+const ROLE_NAME_PATTERN = /^[a-z][a-z0-9_-]*$/i;
+
+export const RoleNameModal = ({ language, roles, role, onSubmit, onClose, translations: t }: RoleNameModalProps) => {
+  const [name, setName] = useState(role?.name ?? '');
+  const [copyFromId, setCopyFromId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const validate = (value: string) => {
+    if (!value) return t.nameRequired;
+    if (!ROLE_NAME_PATTERN.test(value)) return t.nameInvalid;
+    const taken = roles.some(other => other.id !== role?.id && other.name.toLowerCase() === value.toLowerCase());
+    return taken ? t.nameTaken : null;
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    const validationError = validate(trimmed);
+    setError(validationError);
+    if (validationError) return;
+    if (role && trimmed === role.name) {
+      onClose();
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await onSubmit(trimmed, roles.find(other => String(other.id) === copyFromId));
+    } catch (err) {
+      setError(getApiErrorMessage(err));
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="modal-backdrop" onClick={submitting ? undefined : onClose}>
+      <div className="modal-content role-name-modal" onClick={(e) => e.stopPropagation()} dir={getDirection(language)}>
+        <div className="modal-header">
+          <h2 className="modal-title">{role ? t.renameTitle : t.createTitle}</h2>
+          <button className="modal-close-btn" onClick={onClose} title={t.cancel} disabled={submitting}>
+            ✕
+          </button>
+        </div>
+
+        <form className="modal-form" onSubmit={handleSubmit} noValidate>
+          <div className="form-group">
+            <label htmlFor="role-name">{t.roleName}</label>
+            <input
+              id="role-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              aria-invalid={!!error}
+              autoFocus
+              disabled={submitting}
+            />
+            {error ? <span className="field-error">{error}</span> : <span className="field-hint">{t.roleNameHint}</span>}
+          </div>
+
+          {!role && (
+            <div className="form-group">
+              <label htmlFor="role-copy-from">{t.copyPermissionsFrom}</label>
+              <select
+                id="role-copy-from"
+                value={copyFromId}
+                onChange={(e) => setCopyFromId(e.target.value)}
+                disabled={submitting}
+              >
+                <option value="">{t.noPermissions}</option>
+                {roles.map(other => (
+                  <option key={other.id} value={other.id}>{other.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="modal-actions">
+            <button type="button" className="btn btn-cancel" onClick={onClose} disabled={submitting}>
+              {t.cancel}
+            </button>
+            <button type="submit" className="btn btn-save" disabled={submitting}>
+              {role ? t.rename : t.create}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,497 @@
+import { useEffect, useMemo, useState } from 'react';
+import './RolesEditor.css';
+import type { Language, PermissionGroup, Role, Theme } from '../types';
+import { useOvuApi, getApiErrorMessage } from '../api';
+import { getDirection, localize } from '../i18n';
+import { DEFAULT_PERMISSION_GROUPS, useCan } from '../permissions';
+import { UsersTable } from '../UsersTable';
+import { PermissionMatrix } from './PermissionMatrix';
+import { RoleDiffModal } from './RoleDiffModal';
+import { RoleNameModal } from './RoleNameModal';
+import { diffRolePermissions, withUnlistedPermissions } from './roleDiff';
+
+interface RolesEditorProps {
+  language: Language;
+  theme: Theme;
+  // The permission categories of the matrix
+  permissionGroups?: PermissionGroup[];
+}
+
+const translations = {
+  he: {
+    title: 'תפקידים והרשאות',
+    description: 'סמן אילו הרשאות יש לכל תפקיד. השינויים נשמרים רק לאחר סקירה.',
+    loading: 'טוען תפקידים...',
+    loadFailed: 'טעינת התפקידים נכשלה',
+    noRoles: 'עדיין אין תפקידים',
+    newRole: '+ תפקיד חדש',
+    readOnly: 'אין לך הרשאה לערוך תפקידים',
+    pendingChanges: (count: number) => (count === 1 ? 'תפקיד אחד השתנה' : `${count} תפקידים השתנו`),
+    discard: 'בטל שינויים',
+    review: 'סקור ושמור',
+    matrix: {
+      permission: 'הרשאה',
+      rename: 'שנה שם',
+      delete: 'מחק',
+      showUsers: 'הצג משתמשים',
+      unsaved: 'שינויים שלא נשמרו',
+      grantedByWildcard: 'ניתנת דרך הרשאה כללית (*)',
+      expandGroup: 'הרחב',
+      collapseGroup: 'כווץ',
+    },
+    otherGroup: 'אחר',
+    diff: {
+      reviewTitle: 'סקירת שינויים',
+      reviewHint: 'השינויים הבאים יישמרו:',
+      granted: 'הרשאות שיתווספו',
+      revoked: 'הרשאות שיוסרו',
+      save: 'שמור',
+      saving: 'שומר...',
+      backToEditing: 'חזור לעריכה',
+      close: 'סגור',
+    },
+    name: {
+      createTitle: 'תפקיד חדש',
+      renameTitle: 'שינוי שם תפקיד',
+      roleName: 'שם התפקיד',
+      roleNameHint: 'אותיות באנגלית, ספרות, קו תחתון ומקף, ומתחיל באות',
+      copyPermissionsFrom: 'העתק הרשאות מ',
+      noPermissions: 'ללא הרשאות',
+      nameRequired: 'נדרש שם',
+      nameInvalid: 'השם יכול להכיל רק אותיות באנגלית, ספרות, קו תחתון ומקף, ולהתחיל באות',
+      nameTaken: 'כבר קיים תפקיד בשם זה',
+      create: 'צור',
+      rename: 'שנה שם',
+      cancel: 'ביטול',
+    },
+    deleteTitle: 'מחיקת תפקיד',
+    deleteConfirm: (name: string) => `למחוק את התפקיד "${name}"?`,
+    deleteAssigned: (count: number) =>
+      count === 1 ? 'משתמש אחד משויך לתפקיד זה.' : `${count} משתמשים משויכים לתפקיד זה.`,
+    countingUsers: 'בודק משתמשים משויכים...',
+    countUnknown: 'לא ניתן לבדוק כמה משתמשים משויכים לתפקיד זה. משתמשים שמשויכים אליו עלולים לאבד את ההרשאות שלהם.',
+    deleteDiscardsDraft: 'השינויים שלא נשמרו לתפקיד זה יאבדו.',
+    delete: 'מחק',
+    deleting: 'מוחק...',
+    cancel: 'ביטול',
+    usersWithRole: (name: string) => `משתמשים בתפקיד ${name}`,
+    closeUsers: 'סגור',
+  },
+  en: {
+    title: 'Roles & Permissions',
+    description: 'Choose which permissions each role has. Changes are saved only after you review them.',
+    loading: 'Loading roles...',
+    loadFailed: 'Failed to load roles',
+    noRoles: 'No roles yet',
+    newRole: '+ New role',
+    readOnly: 'You do not have permission to edit roles',
+    pendingChanges: (count: number) => (count === 1 ? '1 role changed' : `${count} roles changed`),
+    discard: 'Discard changes',
+    review: 'Review & save',
+    matrix: {
+      permission: 'Permission',
+      rename: 'Rename',
+      delete: 'Delete',
+      showUsers: 'Show users',
+      unsaved: 'Unsaved changes',
+      grantedByWildcard: 'Granted by a wildcard permission (*)',
+      expandGroup: 'Expand',
+      collapseGroup: 'Collapse',
+    },
+    otherGroup: 'Other',
+    diff: {
+      reviewTitle: 'Review changes',
+      reviewHint: 'The following changes will be saved:',
+      granted: 'Permissions granted',
+      revoked: 'Permissions revoked',
+      save: 'Save',
+      saving: 'Saving...',
+      backToEditing: 'Back to editing',
+      close: 'Close',
+    },
+    name: {
+      createTitle: 'New role',
+      renameTitle: 'Rename role',
+      roleName: 'Role name',
+      roleNameHint: 'Latin letters, digits, _ and -, starting with a letter',
+      copyPermissionsFrom: 'Copy permissions from',
+      noPermissions: 'No permissions',
+      nameRequired: 'Name is required',
+      nameInvalid: 'Use only Latin letters, digits, _ and -, starting with a letter',
+      nameTaken: 'A role with this name already exists',
+      create: 'Create',
+      rename: 'Rename',
+      cancel: 'Cancel',
+    },
+    deleteTitle: 'Delete role',
+    deleteConfirm: (name: string) => `Delete the role "${name}"?`,
+    deleteAssigned: (count: number) =>
+      count === 1 ? '1 user has this role.' : `${count} users have this role.`,
+    countingUsers: 'Checking assigned users...',
+    countUnknown: "Couldn't check how many users have this role. Users who have it may lose their permissions.",
+    deleteDiscardsDraft: 'Unsaved changes to this role will be lost.',
+    delete: 'Delete',
+    deleting: 'Deleting...',
+    cancel: 'Cancel',
+    usersWithRole: (name: string) => `Users with the role ${name}`,
+    closeUsers: 'Close',
+  },
+  ar: {
+    title: 'الأدوار والأذونات',
+    description: 'اختر الأذونات لكل دور. لا تُحفظ التغييرات إلا بعد مراجعتها.',
+    loading: 'جارٍ تحميل الأدوار...',
+    loadFailed: 'فشل تحميل الأدوار',
+    noRoles: 'لا توجد أدوار بعد',
+    newRole: '+ دور جديد',
+    readOnly: 'ليس لديك إذن لتعديل الأدوار',
+    pendingChanges: (count: number) => (count === 1 ? 'تغيّر دور واحد' : `تغيّرت ${count} أدوار`),
+    discard: 'تجاهل التغييرات',
+    review: 'مراجعة وحفظ',
+    matrix: {
+      permission: 'الإذن',
+      rename: 'إعادة تسمية',
+      delete: 'حذف',
+      showUsers: 'عرض المستخدمين',
+      unsaved: 'تغييرات غير محفوظة',
+      grantedByWildcard: 'ممنوح عبر إذن شامل (*)',
+      expandGroup: 'توسيع',
+      collapseGroup: 'طي',
+    },
+    otherGroup: 'أخرى',
+    diff: {
+      reviewTitle: 'مراجعة التغييرات',
+      reviewHint: 'سيتم حفظ التغييرات التالية:',
+      granted: 'أذونات ستُمنح',
+      revoked: 'أذونات ستُسحب',
+      save: 'حفظ',
+      saving: 'جارٍ الحفظ...',
+      backToEditing: 'العودة إلى التعديل',
+      close: 'إغلاق',
+    },
+    name: {
+      createTitle: 'دور جديد',
+      renameTitle: 'إعادة تسمية الدور',
+      roleName: 'اسم الدور',
+      roleNameHint: 'أحرف لاتينية وأرقام و_ و-، ويبدأ بحرف',
+      copyPermissionsFrom: 'نسخ الأذونات من',
+      noPermissions: 'بدون أذونات',
+      nameRequired: 'الاسم مطلوب',
+      nameInvalid: 'استخدم أحرفًا لاتينية وأرقامًا و_ و- فقط، وابدأ بحرف',
+      nameTaken: 'يوجد دور بهذا الاسم بالفعل',
+      create: 'إنشاء',
+      rename: 'إعادة تسمية',
+      cancel: 'إلغاء',
+    },
+    deleteTitle: 'حذف الدور',
+    deleteConfirm: (name: string) => `حذف الدور "${name}"؟`,
+    deleteAssigned: (count: number) =>
+      count === 1 ? 'مستخدم واحد لديه هذا الدور.' : `${count} مستخدمين لديهم هذا الدور.`,
+    countingUsers: 'جارٍ التحقق من المستخدمين المعيّنين...',
+    countUnknown: 'تعذّر التحقق من عدد المستخدمين الذين لديهم هذا الدور. قد يفقد المستخدمون الذين لديهم هذا الدور صلاحياتهم.',
+    deleteDiscardsDraft: 'ستفقد التغييرات غير المحفوظة لهذا الدور.',
+    delete: 'حذف',
+    deleting: 'جارٍ الحذف...',
+    cancel: 'إلغاء',
+    usersWithRole: (name: string) => `المستخدمون بالدور ${name}`,
+    closeUsers: 'إغلاق',
+  },
+};
+
+type NameDialog = { mode: 'create' } | { mode: 'rename'; role: Role };
+
+interface DeleteDialog {
+  role: Role;
+  // null while counting; 'unknown' when the lookup failed or the backend can't filter by role
+  userCount: number | 'unknown' | null;
+  deleting: boolean;
+  error: string | null;
+}
+
+/**
+ * Lists the roles with a roles × permissions matrix. Permission changes are kept as drafts until they are
+ * reviewed and saved; creating, renaming and deleting a role apply right away.
+ * Editing needs the `roles.write` permission; without it the matrix is read-only.
+ */
+export const RolesEditor = ({
+  language,
+  theme,
+  permissionGroups = DEFAULT_PERMISSION_GROUPS,
+}: RolesEditorProps) => {
+  const api = useOvuApi();
+  const canEdit = useCan('roles.write');
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Edited permission lists by role id; a role without an entry is unchanged
+  const [drafts, setDrafts] = useState<Record<number, string[]>>({});
+  const [nameDialog, setNameDialog] = useState<NameDialog | null>(null);
+  const [deleteDialog, setDeleteDialog] = useState<DeleteDialog | null>(null);
+  const [reviewing, setReviewing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [saveErrors, setSaveErrors] = useState<Record<number, string>>({});
+  const [usersRoleId, setUsersRoleId] = useState<number | null>(null);
+
+  const t = translations[language] || translations.en;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    api
+      .listRoles()
+      .then(result => {
+        if (cancelled) return;
+        setRoles(result);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(getApiErrorMessage(err));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [api]);
+
+  const groups = useMemo(
+    () =>
+      withUnlistedPermissions(
+        permissionGroups,
+        [...roles.map(role => role.permissions), ...Object.values(drafts)],
+        { he: translations.he.otherGroup, en: translations.en.otherGroup, ar: translations.ar.otherGroup }
+      ),
+    [permissionGroups, roles, drafts]
+  );
+
+  const changes = useMemo(() => diffRolePermissions(roles, drafts), [roles, drafts]);
+  const usersRole = roles.find(role => role.id === usersRoleId) ?? null;
+
+  const getPermissionLabel = (permission: string) => {
+    const definition = groups.flatMap(group => group.permissions).find(item => item.id === permission);
+    return definition ? localize(definition.label, language) : permission;
+  };
+
+  const handleToggle = (role: Role, permissions: string[], granted: boolean) => {
+    setDrafts(prev => {
+      const current = prev[role.id] ?? role.permissions;
+      const next = granted
+        ? [...current, ...permissions.filter(permission => !current.includes(permission))]
+        : current.filter(permission => !permissions.includes(permission));
+      const unchanged =
+        next.length === role.permissions.length && next.every(permission => role.permissions.includes(permission));
+      const { [role.id]: _previous, ...others } = prev;
+      return unchanged ? others : { ...others, [role.id]: next };
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const errors: Record<number, string> = {};
+    // One request per role; the ones that fail stay as drafts so they can be retried
+    for (const change of changes) {
+      try {
+        const saved = await api.updateRolePermissions(change.role.id, change.permissions);
+        setRoles(current =>
+          current.map(role => (role.id === change.role.id ? { ...role, ...saved, permissions: change.permissions } : role))
+        );
+        setDrafts(({ [change.role.id]: _saved, ...others }) => others);
+      } catch (err) {
+        errors[change.role.id] = getApiErrorMessage(err);
+      }
+    }
+    setSaving(false);
+    setSaveErrors(errors);
+    if (Object.keys(errors).length === 0) setReviewing(false);
+  };
+
+  const handleNameSubmit = async (name: string, copyFrom?: Role) => {
+    if (nameDialog?.mode === 'rename') {
+      const renamed = await api.renameRole(nameDialog.role.id, name);
+      setRoles(current =>
+        current.map(role => (role.id === nameDialog.role.id ? { ...role, ...renamed, name } : role))
+      );
+    } else {
+      const created = await api.createRole({ name, permissions: copyFrom ? [...copyFrom.permissions] : [] });
+      setRoles(current => [...current, created]);
+    }
+    setNameDialog(null);
+  };
+
+  const openDeleteDialog = async (role: Role) => {
+    setDeleteDialog({ role, userCount: null, deleting: false, error: null });
+    try {
+      const { users, total } = await api.listUsers({ role: role.name });
+      // The role filter is proposed; a backend that ignores it can only be counted here when it sent everyone
+      const userCount = users.every(user => user.role === role.name)
+        ? total
+        : users.length >= total
+          ? users.filter(user => user.role === role.name).length
+          : 'unknown';
+      setDeleteDialog(current => (current?.role.id === role.id ? { ...current, userCount } : current));
+    } catch {
+      setDeleteDialog(current => (current?.role.id === role.id ? { ...current, userCount: 'unknown' } : current));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteDialog) return;
+    const { role } = deleteDialog;
+    setDeleteDialog({ ...deleteDialog, deleting: true, error: null });
+    try {
+      await api.deleteRole(role.id);
+      setRoles(current => current.filter(other => other.id !== role.id));
+      setDrafts(({ [role.id]: _deleted, ...others }) => others);
+      if (usersRoleId === role.id) setUsersRoleId(null);
+      setDeleteDialog(null);
+    } catch (err) {
+      setDeleteDialog(current => current && { ...current, deleting: false, error: getApiErrorMessage(err) });
+    }
+  };
+
+  if (loading) {
+    return <div className="roles-editor-loading">{t.loading}</div>;
+  }
+
+  if (error) {
+    return <div className="roles-editor-error">{t.loadFailed}: {error}</div>;
+  }
+
+  return (
+    <div className={`roles-editor ${theme}`} dir={getDirection(language)}>
+      <div className="roles-editor-header">
+        <div>
+          <h2 className="roles-editor-title">{t.title}</h2>
+          <p className="roles-editor-description">{canEdit ? t.description : t.readOnly}</p>
+        </div>
+        {canEdit && (
+          <button className="btn-add" onClick={() => setNameDialog({ mode: 'create' })}>
+            {t.newRole}
+          </button>
+        )}
+      </div>
+
+      {roles.length === 0 ? (
+        <div className="roles-editor-empty">{t.noRoles}</div>
+      ) : (
+        <PermissionMatrix
+          language={language}
+          roles={roles}
+          groups={groups}
+          drafts={drafts}
+          readOnly={!canEdit}
+          activeRoleId={usersRoleId}
+          onToggle={handleToggle}
+          onRename={(role) => setNameDialog({ mode: 'rename', role })}
+          onDelete={openDeleteDialog}
+          onShowUsers={(role) => setUsersRoleId(current => (current === role.id ? null : role.id))}
+          translations={t.matrix}
+        />
+      )}
+
+      {changes.length > 0 && (
+        <div className="roles-editor-changes" role="status">
+          <span>{t.pendingChanges(changes.length)}</span>
+          <div className="roles-editor-changes-actions">
+            <button className="btn-cancel" onClick={() => setDrafts({})}>
+              {t.discard}
+            </button>
+            <button
+              className="btn-add"
+              onClick={() => {
+                setSaveErrors({});
+                setReviewing(true);
+              }}
+            >
+              {t.review}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {usersRole && (
+        <section className="roles-editor-users">
+          <div className="roles-editor-users-header">
+            <h3>{t.usersWithRole(usersRole.name)}</h3>
+            <button className="btn-cancel" onClick={() => setUsersRoleId(null)}>
+              {t.closeUsers}
+            </button>
+          </div>
+          {/* Kept out of the URL so it can't pick up or overwrite the ?user= link of a users table on the same page */}
+          <UsersTable
+            key={usersRole.name}
+            language={language}
+            theme={theme}
+            role={usersRole.name}
+            tableId="role-users"
+            detailParam={null}
+          />
+        </section>
+      )}
+
+      {reviewing && (
+        <RoleDiffModal
+          language={language}
+          changes={changes}
+          getPermissionLabel={getPermissionLabel}
+          saving={saving}
+          errors={saveErrors}
+          onConfirm={handleSave}
+          onClose={() => setReviewing(false)}
+          translations={t.diff}
+        />
+      )}
+
+      {nameDialog && (
+        <RoleNameModal
+          language={language}
+          roles={roles}
+          role={nameDialog.mode === 'rename' ? nameDialog.role : undefined}
+          onSubmit={handleNameSubmit}
+          onClose={() => setNameDialog(null)}
+          translations={t.name}
+        />
+      )}
+
+      {deleteDialog && (
+        <div className="modal-backdrop" onClick={deleteDialog.deleting ? undefined : () => setDeleteDialog(null)}>
+          <div
+            className="modal-content role-delete-modal"
+            onClick={(e) => e.stopPropagation()}
+            dir={getDirection(language)}
+            role="alertdialog"
+            aria-modal="true"
+          >
+            <div className="modal-header">
+              <h2 className="modal-title">{t.deleteTitle}</h2>
+            </div>
+            <p>{t.deleteConfirm(deleteDialog.role.name)}</p>
+            {deleteDialog.userCount === null ? (
+              <p className="role-delete-note">{t.countingUsers}</p>
+            ) : deleteDialog.userCount === 'unknown' ? (
+              <p className="role-delete-warning">{t.countUnknown}</p>
+            ) : (
+              deleteDialog.userCount > 0 && (
+                <p className="role-delete-warning">{t.deleteAssigned(deleteDialog.userCount)}</p>
+              )
+            )}
+            {drafts[deleteDialog.role.id] && <p className="role-delete-note">{t.deleteDiscardsDraft}</p>}
+            {deleteDialog.error && <div className="error-message">{deleteDialog.error}</div>}
+            <div className="modal-actions">
+              <button className="btn btn-cancel" onClick={() => setDeleteDialog(null)} disabled={deleteDialog.deleting}>
+                {t.cancel}
+              </button>
+              <button
+                className="btn btn-danger"
+                onClick={handleDelete}
+                disabled={deleteDialog.deleting || deleteDialog.userCount === null}
+              >
+                {deleteDialog.deleting ? t.deleting : t.delete}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
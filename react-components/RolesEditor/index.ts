@@ -0,0 +1 @@
+export { RolesEditor } from './RolesEditor';
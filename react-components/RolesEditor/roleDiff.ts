@@ -0,0 +1,39 @@
+import type { PermissionGroup, Role } from '../types';
+
+export interface RolePermissionChange {
+  role: Role;
+  added: string[];
+  removed: string[];
+  // The role's whole permission list once saved
+  permissions: string[];
+}
+
+/**
+ * The roles whose drafted permissions differ from the saved ones, in the order of `roles`.
+ */
+export const diffRolePermissions = (roles: Role[], drafts: Record<number, string[]>): RolePermissionChange[] =>
+  roles.flatMap(role => {
+    const draft = drafts[role.id];
+    if (!draft) return [];
+    const added = draft.filter(permission => !role.permissions.includes(permission));
+    const removed = role.permissions.filter(permission => !draft.includes(permission));
+    return added.length > 0 || removed.length > 0 ? [{ role, added, removed, permissions: draft }] : [];
+  });
+
+/**
+ * `groups` plus an extra group for the permissions some role has that no group lists
+ * (wildcards such as `*` included), so they can still be seen and removed.
+ */
+export const withUnlistedPermissions = (
+  groups: PermissionGroup[],
+  permissionLists: string[][],
+  otherLabel: PermissionGroup['label']
+): PermissionGroup[] => {
+  const listed = new Set(groups.flatMap(group => group.permissions.map(permission => permission.id)));
+  const unlisted = [...new Set(permissionLists.flat())].filter(permission => !listed.has(permission)).sort();
+  if (unlisted.length === 0) return groups;
+  return [
+    ...groups,
+    { id: 'other', label: otherLabel, permissions: unlisted.map(id => ({ id, label: { en: id } })) },
+  ];
+};
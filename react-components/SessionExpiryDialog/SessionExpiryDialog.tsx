@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import './SessionExpiryDialog.css';
+import { getDirection, useFormatter, useTranslation } from '../i18n';
+
+interface SessionExpiryDialogProps {
+  // Epoch milliseconds at which the session ends
+  deadline: number;
+  // 'idle' words the message as inactivity rather than expiry
+  reason: 'idle' | 'expired';
+  // False when the session cannot be extended (no refresh token); only the sign-out button is shown
+  canExtend: boolean;
+  onExtend: () => void;
+  onLogout: () => void;
+  extending?: boolean;
+}
+
+export const SessionExpiryDialog = ({
+  deadline,
+  reason,
+  canExtend,
+  onExtend,
+  onLogout,
+  extending = false,
+}: SessionExpiryDialogProps) => {
+  const { t, language } = useTranslation();
+  const { formatDuration } = useFormatter(language);
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const time = formatDuration(Math.max(0, deadline - now), { maxUnits: 2 });
+
+  return (
+    <div className="session-expiry-backdrop">
+      <div
+        className="session-expiry-dialog"
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="session-expiry-title"
+        aria-describedby="session-expiry-message"
+        dir={getDirection(language)}
+      >
+        <div className="session-expiry-icon">⏳</div>
+        <h2 id="session-expiry-title">{t('session_expiring_title')}</h2>
+        <p id="session-expiry-message" aria-live="polite">
+          {reason === 'idle' ? t('session_idle_message', { time }) : t('session_expiring_message', { time })}
+        </p>
+        <div className="session-expiry-actions">
+          {canExtend && (
+            <button type="button" className="session-expiry-extend" onClick={onExtend} disabled={extending} autoFocus>
+              {extending ? t('please_wait') : t('stay_signed_in')}
+            </button>
+          )}
+          <button type="button" className="session-expiry-logout" onClick={onLogout} disabled={extending}>
+            {t('logout')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { SessionExpiryDialog } from './SessionExpiryDialog';
@@ -1,24 +1,31 @@
 import { useState, useEffect, useLayoutEffect, useMemo } from 'react';
 import './Sidebar.css';
+import type { Language, MenuItem } from '../types';
+import { isRTL as isRTLLanguage, localize } from '../i18n/locales';
+import { filterMenuItems, usePermissions } from '../permissions';
 
-interface MenuItem {
-  id: string;
-  label: string;
-  labelEn: string;
-  icon: string;
-  path: string;
-  subItems?: MenuItem[];
-}
+const translations = {
+  he: { mainMenu: 'תפריט ראשי' },
+  en: { mainMenu: 'Main Menu' },
+  ar: { mainMenu: 'القائمة الرئيسية' },
+};
 
 interface SidebarProps {
   menuItems: MenuItem[];
   currentPath: string;
-  language: 'he' | 'en';
+  language: Language;
   theme: 'light' | 'dark';
   onNavigate: (path: string) => void;
 }
 
-export const Sidebar = ({ menuItems, currentPath, language, theme, onNavigate }: SidebarProps) => {
+export const Sidebar = ({ menuItems: allMenuItems, currentPath, language, theme, onNavigate }: SidebarProps) => {
+  const t = translations[language] || translations.en;
+  const isRTL = isRTLLanguage(language);
+  const { can } = usePermissions();
+
+  // Items whose requiredPermission the user lacks are left out
+  const menuItems = useMemo(() => filterMenuItems(allMenuItems, can), [allMenuItems, can]);
+
   // Helper function to find parent items for a path
   const findExpandedItems = (items: MenuItem[], targetPath: string): string[] => {
     const expanded: string[] = [];
@@ -97,7 +104,7 @@ export const Sidebar = ({ menuItems, currentPath, language, theme, onNavigate }:
     const hasSubItems = item.subItems && item.subItems.length > 0;
     const expanded = isExpanded(item.id);
     const active = isActive(item.path);
-    const label = language === 'he' ? item.label : item.labelEn;
+    const label = localize(item.label, language);
 
     return (
       <div key={item.id} className="sidebar-menu-item">
@@ -117,7 +124,7 @@ export const Sidebar = ({ menuItems, currentPath, language, theme, onNavigate }:
               <span className="item-label">{label}</span>
               {hasSubItems && (
                 <span className={`expand-icon ${expanded ? 'expanded' : ''}`}>
-                  {language === 'he' ? '◀' : '▶'}
+                  {isRTL ? '◀' : '▶'}
                 </span>
               )}
             </>
@@ -137,11 +144,11 @@ export const Sidebar = ({ menuItems, currentPath, language, theme, onNavigate }:
       <div className="sidebar-header">
         {!collapsed && (
           <h2 className="sidebar-title">
-            {language === 'he' ? 'תפריט ראשי' : 'Main Menu'}
+            {t.mainMenu}
           </h2>
         )}
         <button className="collapse-btn" onClick={toggleCollapse} title="Toggle Sidebar">
-          {collapsed ? (language === 'he' ? '◀' : '▶') : (language === 'he' ? '▶' : '◀')}
+          {collapsed ? (isRTL ? '◀' : '▶') : (isRTL ? '▶' : '◀')}
         </button>
       </div>
       <nav className="sidebar-nav">
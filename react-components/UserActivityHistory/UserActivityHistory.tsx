@@ -1,24 +1,12 @@
 import React, { useEffect, useState } from 'react';
+import type { ActivityRecord, Language, LocalizedText } from '../types';
+import { useOvuApi } from '../api';
+import { isRTL as isRTLLanguage, localize } from '../i18n/locales';
+import { useFormatter } from '../i18n/I18nProvider';
 import './UserActivityHistory.css';
 
-interface ActivityRecord {
-  id: number;
-  joined_at: string;
-  left_at: string | null;
-  scheduled_left_at: string | null;
-  actual_left_at: string | null;
-  action_type: string;
-  performed_by_username: string | null;
-  reason: string | null;
-  duration_days: number | null;
-  is_current: boolean;
-  created_at: string;
-}
-
 interface UserActivityHistoryProps {
   userId: number;
-  apiBaseUrl: string;
-  authToken: string;
   translations: {
     activityHistory: string;
     joinedAt: string;
@@ -36,10 +24,10 @@ interface UserActivityHistoryProps {
     error: string;
     current: string;
   };
-  preferredLanguage?: string;
+  preferredLanguage?: Language;
 }
 
-const actionTypeTranslations: Record<string, Record<string, string>> = {
+const actionTypeTranslations: Record<string, LocalizedText> = {
   activated: { he: 'הופעל', en: 'Activated', ar: 'مفعل' },
   deactivated_immediate: { he: 'הושבת מיידי', en: 'Deactivated Immediately', ar: 'معطل فورا' },
   deactivated_scheduled: { he: 'תוזמן להשבתה', en: 'Scheduled for Deactivation', ar: 'مجدول للتعطيل' },
@@ -48,43 +36,31 @@ const actionTypeTranslations: Record<string, Record<string, string>> = {
   reactivated: { he: 'הופעל מחדש', en: 'Reactivated', ar: 'أعيد تفعيله' }
 };
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export const UserActivityHistory: React.FC<UserActivityHistoryProps> = ({
   userId,
-  apiBaseUrl,
-  authToken,
   translations,
   preferredLanguage = 'he'
 }) => {
+  const api = useOvuApi();
   const [activities, setActivities] = useState<ActivityRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const isRTL = preferredLanguage === 'he' || preferredLanguage === 'ar';
+  const isRTL = isRTLLanguage(preferredLanguage);
+  const { formatDateTime, formatDuration } = useFormatter(preferredLanguage);
 
   useEffect(() => {
     fetchActivityHistory();
-  }, [userId]);
+  }, [userId, api]);
 
   const fetchActivityHistory = async () => {
     try {
       setLoading(true);
       setError(null);
 
-      const response = await fetch(
-        `${apiBaseUrl}/api/users/${userId}/activity-history`,
-        {
-          headers: {
-            'Authorization': `Bearer ${authToken}`,
-            'Accept': 'application/json'
-          }
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
+      const data = await api.getActivityHistory(userId);
       setActivities(data);
     } catch (err) {
       console.error('Error fetching activity history:', err);
@@ -94,20 +70,9 @@ export const UserActivityHistory: React.FC<UserActivityHistoryProps> = ({
     }
   };
 
-  const formatDate = (dateString: string | null) => {
-    if (!dateString) return '-';
-    const date = new Date(dateString);
-    return date.toLocaleString(preferredLanguage, {
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-      hour: '2-digit',
-      minute: '2-digit'
-    });
-  };
-
   const getActionTypeLabel = (actionType: string) => {
-    return actionTypeTranslations[actionType]?.[preferredLanguage] || actionType;
+    const label = actionTypeTranslations[actionType];
+    return label ? localize(label, preferredLanguage) : actionType;
   };
 
   const getActionTypeClass = (actionType: string) => {
@@ -169,13 +134,13 @@ export const UserActivityHistory: React.FC<UserActivityHistoryProps> = ({
             <div className="activity-details">
               <div className="detail-row">
                 <span className="detail-label">{translations.joinedAt}:</span>
-                <span className="detail-value">{formatDate(activity.joined_at)}</span>
+                <span className="detail-value">{formatDateTime(activity.joined_at)}</span>
               </div>
 
               {activity.left_at && (
                 <div className="detail-row">
                   <span className="detail-label">{translations.leftAt}:</span>
-                  <span className="detail-value">{formatDate(activity.left_at)}</span>
+                  <span className="detail-value">{formatDateTime(activity.left_at)}</span>
                 </div>
               )}
 
@@ -183,7 +148,7 @@ export const UserActivityHistory: React.FC<UserActivityHistoryProps> = ({
                 <div className="detail-row">
                   <span className="detail-label">{translations.scheduledAt}:</span>
                   <span className="detail-value scheduled-time">
-                    {formatDate(activity.scheduled_left_at)}
+                    {formatDateTime(activity.scheduled_left_at)}
                   </span>
                 </div>
               )}
@@ -192,7 +157,7 @@ export const UserActivityHistory: React.FC<UserActivityHistoryProps> = ({
                 <div className="detail-row">
                   <span className="detail-label">{translations.duration}:</span>
                   <span className="detail-value">
-                    {activity.duration_days.toFixed(1)} {translations.days}
+                    {formatDuration(activity.duration_days * DAY_MS, { minUnit: 'hour' })}
                   </span>
                 </div>
               )}
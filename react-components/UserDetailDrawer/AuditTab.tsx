@@ -0,0 +1,108 @@
+import { useEffect, useRef, useState } from 'react';
+import type { AuditLogEntry, Language } from '../types';
+import { useOvuApi, getApiErrorMessage } from '../api';
+import { useFormatter } from '../i18n';
+
+interface AuditTabProps {
+  userId: number;
+  language: Language;
+  translations: {
+    loading: string;
+    retry: string;
+    noAudit: string;
+    by: (actor: string) => string;
+    system: string;
+    loadMore: string;
+    empty: string;
+    auditActions: Record<string, string>;
+  };
+}
+
+const PAGE_SIZE = 20;
+
+export const AuditTab = ({ userId, language, translations: t }: AuditTabProps) => {
+  const api = useOvuApi();
+  const { formatDateTime, formatRelativeTime } = useFormatter(language);
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Only the latest request may update state, so switching users can't mix their logs
+  const latestRequestRef = useRef(0);
+
+  const loadPage = async (skip: number) => {
+    const requestId = ++latestRequestRef.current;
+    setLoading(true);
+    setError(null);
+    try {
+      const page = await api.getAuditLog(userId, { skip, limit: PAGE_SIZE });
+      if (requestId !== latestRequestRef.current) return;
+      setEntries(prev => (skip === 0 ? page.entries : [...prev, ...page.entries]));
+      setTotal(page.total);
+    } catch (err) {
+      if (requestId !== latestRequestRef.current) return;
+      console.error('Failed to load audit log:', err);
+      setError(getApiErrorMessage(err));
+    } finally {
+      if (requestId === latestRequestRef.current) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setEntries([]);
+    loadPage(0);
+  }, [api, userId]);
+
+  if (!loading && !error && entries.length === 0) {
+    return <p className="user-drawer-hint">{t.noAudit}</p>;
+  }
+
+  return (
+    <div className="user-drawer-audit">
+      <ol className="user-drawer-audit-list">
+        {entries.map(entry => (
+          <li key={entry.id} className="user-drawer-audit-entry">
+            <div className="user-drawer-audit-header">
+              <span className="user-drawer-audit-action">{t.auditActions[entry.action] || entry.action}</span>
+              <time dateTime={entry.created_at} title={formatDateTime(entry.created_at)}>
+                {formatRelativeTime(entry.created_at)}
+              </time>
+            </div>
+            <div className="user-drawer-hint">
+              {[t.by(entry.actor_username || t.system), entry.ip_address].filter(Boolean).join(' · ')}
+            </div>
+            {entry.changes && entry.changes.length > 0 && (
+              <table className="user-drawer-audit-changes">
+                <tbody>
+                  {entry.changes.map(change => (
+                    <tr key={change.field}>
+                      <th scope="row">{change.field}</th>
+                      <td className="old-value">{change.old_value || t.empty}</td>
+                      <td aria-hidden="true">→</td>
+                      <td className="new-value">{change.new_value || t.empty}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {error && (
+        <>
+          <div className="error-message" role="alert">{error}</div>
+          <button type="button" className="btn btn-cancel" onClick={() => loadPage(entries.length)}>{t.retry}</button>
+        </>
+      )}
+      {loading && <p className="user-drawer-hint" role="status">{t.loading}</p>}
+      {!loading && !error && entries.length < total && (
+        <div className="user-drawer-actions">
+          <button type="button" className="btn btn-cancel" onClick={() => loadPage(entries.length)}>
+            {t.loadMore}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,182 @@
+import { useMemo, useState, type FormEvent } from 'react';
+import type { Language, User } from '../types';
+import { useOvuApi, getApiFormErrors, type UpdateUserPayload } from '../api';
+import { useFormatter } from '../i18n';
+import { required, email as emailFormat, phone as phoneFormat, unique, type ValidationSchema } from '../utils/validation';
+import { useFormValidation } from '../utils/useFormValidation';
+
+interface ProfileTabProps {
+  user: User;
+  language: Language;
+  canEdit: boolean;
+  canChangeRole: boolean;
+  onSave: (updates: UpdateUserPayload) => Promise<void>;
+  translations: {
+    username: string;
+    email: string;
+    phone: string;
+    role: string;
+    roles: Record<string, string>;
+    status: string;
+    statuses: Record<string, string>;
+    createdAt: string;
+    createdBy: string;
+    activeSince: string;
+    scheduledDeactivation: string;
+    mustChangePassword: string;
+    yes: string;
+    save: string;
+    saving: string;
+    saved: string;
+    discard: string;
+    checking: string;
+  };
+}
+
+const FORM_FIELDS = ['username', 'email', 'phone', 'role'] as const;
+
+type ProfileValues = Record<typeof FORM_FIELDS[number], string>;
+
+const toValues = (user: User): ProfileValues => ({
+  username: user.username,
+  email: user.email,
+  phone: user.phone || '',
+  role: user.role,
+});
+
+export const ProfileTab = ({ user, language, canEdit, canChangeRole, onSave, translations: t }: ProfileTabProps) => {
+  const api = useOvuApi();
+  const { formatDateTime } = useFormatter(language);
+  const [values, setValues] = useState<ProfileValues>(() => toValues(user));
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Uniqueness checks skip the user being edited
+  const schema = useMemo<ValidationSchema<ProfileValues>>(() => ({
+    username: {
+      validators: [required],
+      asyncValidators: [unique(value => api.isUserFieldTaken('username', value, user.id), 'username_taken')],
+    },
+    email: {
+      validators: [required, emailFormat],
+      asyncValidators: [unique(value => api.isUserFieldTaken('email', value, user.id), 'email_taken')],
+    },
+    phone: { validators: [phoneFormat] },
+  }), [api, user.id]);
+  const { errors: fieldErrors, validating, validateField, validateForm, clearError, setServerErrors } = useFormValidation(schema, language);
+
+  const original = toValues(user);
+  const dirty = FORM_FIELDS.some(field => values[field] !== original[field]);
+
+  const setValue = (field: keyof ProfileValues, value: string) => {
+    setValues(prev => ({ ...prev, [field]: value }));
+    clearError(field);
+    setSaved(false);
+  };
+
+  const discard = () => {
+    setValues(original);
+    FORM_FIELDS.forEach(clearError);
+    setFormError(null);
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    setSaved(false);
+
+    setSaving(true);
+    try {
+      if (!(await validateForm(values))) return;
+
+      await onSave({ ...values, phone: values.phone.trim() });
+      setSaved(true);
+    } catch (err) {
+      console.error('Failed to save user:', err);
+      const errors = getApiFormErrors(err, FORM_FIELDS);
+      setServerErrors(errors.fieldErrors);
+      setFormError(errors.formError);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderField = (field: 'username' | 'email' | 'phone', type: string) => (
+    <div className="form-group">
+      <label htmlFor={`user-drawer-${field}`}>{t[field]}</label>
+      <input
+        type={type}
+        id={`user-drawer-${field}`}
+        value={values[field]}
+        aria-invalid={!!fieldErrors[field]}
+        onChange={(e) => setValue(field, e.target.value)}
+        onBlur={() => validateField(field, values)}
+        disabled={saving || !canEdit}
+      />
+      {fieldErrors[field] && <span className="field-error">{fieldErrors[field]}</span>}
+      {validating[field] && !fieldErrors[field] && <span className="field-hint">{t.checking}</span>}
+    </div>
+  );
+
+  const status = user.status || 'active';
+  // Read-only details; the ones the user doesn't have are left out
+  const facts = ([
+    [t.status, t.statuses[status] || status],
+    [t.createdAt, formatDateTime(user.created_at)],
+    [t.createdBy, user.created_by_username],
+    [t.activeSince, user.current_joined_at && formatDateTime(user.current_joined_at)],
+    [t.scheduledDeactivation, user.scheduled_deactivation_at && formatDateTime(user.scheduled_deactivation_at)],
+    [t.mustChangePassword, user.must_change_password && t.yes],
+  ] as const).filter((fact): fact is readonly [string, string] => !!fact[1]);
+
+  return (
+    <>
+      <form className="user-drawer-form" onSubmit={handleSubmit} noValidate>
+        {renderField('username', 'text')}
+        {renderField('email', 'email')}
+        {renderField('phone', 'tel')}
+
+        <div className="form-group">
+          <label htmlFor="user-drawer-role">{t.role}</label>
+          <select
+            id="user-drawer-role"
+            value={values.role}
+            onChange={(e) => setValue('role', e.target.value)}
+            disabled={saving || !canEdit || !canChangeRole}
+          >
+            {Object.entries(t.roles).map(([role, label]) => (
+              <option key={role} value={role}>{label}</option>
+            ))}
+            {/* A role the list doesn't know, e.g. one created in the RolesEditor */}
+            {!(user.role in t.roles) && <option value={user.role}>{user.role}</option>}
+          </select>
+          {fieldErrors.role && <span className="field-error">{fieldErrors.role}</span>}
+        </div>
+
+        {formError && <div className="error-message" role="alert">{formError}</div>}
+        {saved && !dirty && <div className="user-drawer-success" role="status">{t.saved}</div>}
+
+        {canEdit && (
+          <div className="user-drawer-actions">
+            <button type="button" className="btn btn-cancel" onClick={discard} disabled={saving || !dirty}>
+              {t.discard}
+            </button>
+            <button type="submit" className="btn btn-save" disabled={saving || !dirty}>
+              {saving ? t.saving : t.save}
+            </button>
+          </div>
+        )}
+      </form>
+
+      <dl className="user-drawer-facts">
+        {facts.map(([label, value]) => (
+          <div key={label} className="user-drawer-fact">
+            <dt>{label}</dt>
+            <dd>{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </>
+  );
+};
@@ -0,0 +1,217 @@
+import { useEffect, useState } from 'react';
+import type { Language, User, UserMfaStatus, UserSession } from '../types';
+import { useOvuApi, getApiErrorMessage } from '../api';
+import { useFormatter } from '../i18n';
+import { ActiveSessions } from '../ProfilePage/ActiveSessions';
+
+interface SecurityTabProps {
+  user: User;
+  language: Language;
+  // Resetting the password, signing out sessions and resetting MFA
+  canManage: boolean;
+  // Opens the reset-password dialog
+  onResetPassword: () => void;
+  // After an MFA reset, which changes the user record
+  onChanged: () => void;
+  translations: {
+    password: string;
+    passwordHint: string;
+    mustChangePasswordPending: string;
+    resetPassword: string;
+    mfa: string;
+    mfaEnabled: (methods: string) => string;
+    mfaDisabled: string;
+    mfaEnrolledAt: (when: string) => string;
+    backupCodesRemaining: (count: number) => string;
+    mfaMethods: Record<string, string>;
+    resetMfa: string;
+    resetMfaConfirm: string;
+    sessions: string;
+    loading: string;
+    retry: string;
+    cancel: string;
+    // For ActiveSessions
+    thisDevice: string;
+    unknownDevice: string;
+    lastActive: (when: string) => string;
+    signedIn: (when: string) => string;
+    signOut: string;
+    signOutOthers: string;
+    signOutOthersConfirm: (count: number) => string;
+    confirm: string;
+    noOtherSessions: string;
+  };
+}
+
+export const SecurityTab = ({ user, language, canManage, onResetPassword, onChanged, translations: t }: SecurityTabProps) => {
+  const api = useOvuApi();
+  const { formatDateTime } = useFormatter(language);
+  const [mfa, setMfa] = useState<UserMfaStatus | null>(null);
+  const [mfaError, setMfaError] = useState<string | null>(null);
+  const [confirmingMfaReset, setConfirmingMfaReset] = useState(false);
+  const [resettingMfa, setResettingMfa] = useState(false);
+  const [sessions, setSessions] = useState<UserSession[] | null>(null);
+  const [sessionsError, setSessionsError] = useState<string | null>(null);
+  // The session id, or 'others', being signed out
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  const loadMfa = async () => {
+    setMfaError(null);
+    try {
+      setMfa(await api.getUserMfaStatus(user.id));
+    } catch (err) {
+      console.error('Failed to load MFA status:', err);
+      setMfaError(getApiErrorMessage(err));
+    }
+  };
+
+  const loadSessions = async () => {
+    setSessionsError(null);
+    try {
+      setSessions(await api.listUserSessions(user.id));
+    } catch (err) {
+      console.error('Failed to load sessions:', err);
+      setSessionsError(getApiErrorMessage(err));
+    }
+  };
+
+  useEffect(() => {
+    loadMfa();
+    loadSessions();
+  }, [api, user.id]);
+
+  const handleResetMfa = async () => {
+    setConfirmingMfaReset(false);
+    setResettingMfa(true);
+    setMfaError(null);
+    try {
+      await api.resetUserMfa(user.id);
+      await loadMfa();
+      onChanged();
+    } catch (err) {
+      console.error('Failed to reset MFA:', err);
+      setMfaError(getApiErrorMessage(err));
+    } finally {
+      setResettingMfa(false);
+    }
+  };
+
+  const handleRevoke = async (session: UserSession) => {
+    setRevoking(session.id);
+    setSessionsError(null);
+    try {
+      await api.revokeUserSession(user.id, session.id);
+      setSessions(prev => prev?.filter(other => other.id !== session.id) ?? null);
+    } catch (err) {
+      console.error('Failed to sign out session:', err);
+      setSessionsError(getApiErrorMessage(err));
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    setRevoking('others');
+    setSessionsError(null);
+    try {
+      await api.revokeUserSessions(user.id);
+      setSessions([]);
+    } catch (err) {
+      console.error('Failed to sign out sessions:', err);
+      setSessionsError(getApiErrorMessage(err));
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const describeMethods = (methods: string[]) =>
+    methods.map(method => t.mfaMethods[method] || method).join(', ');
+
+  return (
+    <>
+      <section className="user-drawer-section">
+        <h3 className="user-drawer-section-title">{t.password}</h3>
+        <p className="user-drawer-hint">{user.must_change_password ? t.mustChangePasswordPending : t.passwordHint}</p>
+        {canManage && (
+          <div className="user-drawer-actions">
+            <button type="button" className="btn btn-cancel" onClick={onResetPassword}>
+              🔑 {t.resetPassword}
+            </button>
+          </div>
+        )}
+      </section>
+
+      <section className="user-drawer-section">
+        <h3 className="user-drawer-section-title">{t.mfa}</h3>
+        {mfaError && <div className="error-message" role="alert">{mfaError}</div>}
+        {mfaError && !mfa && (
+          <button type="button" className="btn btn-cancel" onClick={loadMfa}>{t.retry}</button>
+        )}
+        {mfa ? (
+          <>
+            <p className={`user-drawer-mfa ${mfa.enabled ? 'enabled' : 'disabled'}`}>
+              {mfa.enabled ? `✅ ${t.mfaEnabled(describeMethods(mfa.methods))}` : `⚠️ ${t.mfaDisabled}`}
+            </p>
+            {mfa.enabled && (mfa.enrolled_at || mfa.backup_codes_remaining != null) && (
+              <p className="user-drawer-hint">
+                {[
+                  mfa.enrolled_at && t.mfaEnrolledAt(formatDateTime(mfa.enrolled_at)),
+                  mfa.backup_codes_remaining != null && t.backupCodesRemaining(mfa.backup_codes_remaining),
+                ].filter(Boolean).join(' · ')}
+              </p>
+            )}
+            {canManage && mfa.enabled && (
+              confirmingMfaReset ? (
+                <div className="profile-confirm" role="alert">
+                  <span>{t.resetMfaConfirm}</span>
+                  <div className="user-drawer-actions">
+                    <button type="button" className="btn btn-cancel" onClick={() => setConfirmingMfaReset(false)}>
+                      {t.cancel}
+                    </button>
+                    <button type="button" className="btn btn-danger" onClick={handleResetMfa}>
+                      {t.resetMfa}
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="user-drawer-actions">
+                  <button
+                    type="button"
+                    className="btn btn-danger"
+                    onClick={() => setConfirmingMfaReset(true)}
+                    disabled={resettingMfa}
+                  >
+                    {resettingMfa ? '...' : t.resetMfa}
+                  </button>
+                </div>
+              )
+            )}
+          </>
+        ) : (
+          !mfaError && <p className="user-drawer-hint" role="status">{t.loading}</p>
+        )}
+      </section>
+
+      <section className="user-drawer-section">
+        <h3 className="user-drawer-section-title">{t.sessions}</h3>
+        {sessionsError && <div className="error-message" role="alert">{sessionsError}</div>}
+        {sessionsError && !sessions && (
+          <button type="button" className="btn btn-cancel" onClick={loadSessions}>{t.retry}</button>
+        )}
+        {sessions ? (
+          <ActiveSessions
+            sessions={sessions}
+            language={language}
+            busy={revoking}
+            onRevoke={handleRevoke}
+            onRevokeOthers={handleRevokeAll}
+            readOnly={!canManage}
+            translations={t}
+          />
+        ) : (
+          !sessionsError && <p className="user-drawer-hint" role="status">{t.loading}</p>
+        )}
+      </section>
+    </>
+  );
+};
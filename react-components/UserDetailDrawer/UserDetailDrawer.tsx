@@ -0,0 +1,517 @@
+import { useEffect, useRef, useState, type KeyboardEvent as ReactKeyboardEvent } from 'react';
+import type { Language, PasswordPolicy, Theme, User } from '../types';
+import './UserDetailDrawer.css';
+// .modal-backdrop and .modal-content for the reset-password dialog
+import '../EditUserModal/EditUserModal.css';
+import { useOvuApi, getApiErrorMessage, type UpdateUserPayload } from '../api';
+import { useTranslation, isRTL as isRTLLanguage } from '../i18n';
+import type { PermissionRequirement } from '../permissions';
+import { useUsersTableActions, type UsersTableAction } from '../UsersTable/actionPermissions';
+import { UserActivityHistory } from '../UserActivityHistory/UserActivityHistory';
+import { ResetPasswordModal } from '../ResetPasswordModal/ResetPasswordModal';
+import { ProfileTab } from './ProfileTab';
+import { SecurityTab } from './SecurityTab';
+import { AuditTab } from './AuditTab';
+import { USER_DETAIL_TABS, type UserDetailTab } from './detailLink';
+
+interface UserDetailDrawerProps {
+  userId: number;
+  language: Language;
+  theme: Theme;
+  tab: UserDetailTab;
+  onTabChange: (tab: UserDetailTab) => void;
+  onClose: () => void;
+  // The table row the drawer was opened from, shown while the full record loads
+  initialUser?: User;
+  // After the drawer saved the profile or reset the password or MFA
+  onUserUpdated?: (user: User) => void;
+  // Passed to the reset-password dialog; it loads it from the API when omitted
+  passwordPolicy?: PasswordPolicy;
+  // As on UsersTable: 'edit' and 'changeRole' for the profile, 'resetPassword' for the Security tab,
+  // 'viewActivity' and 'viewAudit' for those tabs
+  actionPermissions?: Partial<Record<UsersTableAction, PermissionRequirement>>;
+  unauthorizedActions?: 'hide' | 'disable';
+  // Copied by the link button, e.g. userDetailUrl({ userId, tab }); no button without it
+  shareUrl?: string;
+}
+
+const translations = {
+  he: {
+    close: 'סגור',
+    copyLink: 'העתק קישור למשתמש',
+    linkCopied: 'הקישור הועתק',
+    loading: 'טוען...',
+    retry: 'נסה שוב',
+    tabs: { profile: 'פרופיל', activity: 'פעילות', security: 'אבטחה', audit: 'יומן ביקורת' },
+    username: 'שם משתמש',
+    email: 'אימייל',
+    phone: 'טלפון',
+    role: 'תפקיד',
+    roles: { user: 'משתמש', admin: 'מנהל', super_admin: 'מנהל על' } as Record<string, string>,
+    status: 'סטטוס',
+    statuses: { active: 'פעיל', inactive: 'לא פעיל', scheduled_deactivation: 'מתוזמן להשבתה' } as Record<string, string>,
+    createdAt: 'תאריך יצירה',
+    createdBy: 'נוצר ע"י',
+    activeSince: 'פעיל מאז',
+    scheduledDeactivation: 'מועד השבתה מתוזמן',
+    mustChangePassword: 'חייב לשנות סיסמה',
+    yes: 'כן',
+    save: 'שמור',
+    saving: 'שומר...',
+    saved: 'השינויים נשמרו',
+    discard: 'בטל שינויים',
+    checking: 'בודק...',
+    password: 'סיסמה',
+    passwordHint: 'איפוס הסיסמה קובע סיסמה חדשה שתמסור למשתמש.',
+    mustChangePasswordPending: 'המשתמש יתבקש לבחור סיסמה חדשה בהתחברות הבאה.',
+    resetPassword: 'אפס סיסמה',
+    mfa: 'אימות דו-שלבי',
+    mfaEnabled: (methods: string) => `מופעל (${methods})`,
+    mfaDisabled: 'לא הוגדר',
+    mfaEnrolledAt: (when: string) => `הוגדר ב-${when}`,
+    backupCodesRemaining: (count: number) => (count === 1 ? 'נותר קוד גיבוי אחד' : `נותרו ${count} קודי גיבוי`),
+    mfaMethods: { totp: 'אפליקציית אימות', backup_code: 'קודי גיבוי' } as Record<string, string>,
+    resetMfa: 'אפס אימות דו-שלבי',
+    resetMfaConfirm: 'המשתמש יצטרך להגדיר את האימות הדו-שלבי מחדש בהתחברות הבאה. להמשיך?',
+    sessions: 'מכשירים מחוברים',
+    thisDevice: 'המכשיר הזה',
+    unknownDevice: 'מכשיר לא מזוהה',
+    lastActive: (when: string) => `פעילות אחרונה ${when}`,
+    signedIn: (when: string) => `התחבר ב-${when}`,
+    signOut: 'נתק',
+    signOutOthers: 'נתק מכל המכשירים',
+    signOutOthersConfirm: (count: number) => (count === 1 ? 'לנתק את המשתמש ממכשיר אחד?' : `לנתק את המשתמש מ-${count} מכשירים?`),
+    confirm: 'נתק',
+    cancel: 'ביטול',
+    noOtherSessions: 'המשתמש אינו מחובר באף מכשיר.',
+    noAudit: 'אין רשומות ביומן הביקורת.',
+    by: (actor: string) => `ע"י ${actor}`,
+    system: 'המערכת',
+    loadMore: 'טען עוד',
+    empty: '(ריק)',
+    auditActions: {
+      'user.created': 'המשתמש נוצר',
+      'user.updated': 'הפרטים עודכנו',
+      'user.deactivated': 'המשתמש הושבת',
+      'user.reactivated': 'המשתמש הופעל מחדש',
+      'password.reset': 'הסיסמה אופסה',
+      'mfa.reset': 'האימות הדו-שלבי אופס',
+      'sessions.revoked': 'המשתמש נותק מהמכשירים',
+    } as Record<string, string>,
+  },
+  en: {
+    close: 'Close',
+    copyLink: 'Copy link to this user',
+    linkCopied: 'Link copied',
+    loading: 'Loading...',
+    retry: 'Try again',
+    tabs: { profile: 'Profile', activity: 'Activity', security: 'Security', audit: 'Audit' },
+    username: 'Username',
+    email: 'Email',
+    phone: 'Phone',
+    role: 'Role',
+    roles: { user: 'User', admin: 'Admin', super_admin: 'Super Admin' } as Record<string, string>,
+    status: 'Status',
+    statuses: { active: 'Active', inactive: 'Inactive', scheduled_deactivation: 'Scheduled for deactivation' } as Record<string, string>,
+    createdAt: 'Created',
+    createdBy: 'Created by',
+    activeSince: 'Active since',
+    scheduledDeactivation: 'Scheduled deactivation',
+    mustChangePassword: 'Must change password',
+    yes: 'Yes',
+    save: 'Save',
+    saving: 'Saving...',
+    saved: 'Changes saved',
+    discard: 'Discard changes',
+    checking: 'Checking...',
+    password: 'Password',
+    passwordHint: 'Resetting the password sets a new one for you to pass on to the user.',
+    mustChangePasswordPending: 'The user will be asked to choose a new password at their next sign-in.',
+    resetPassword: 'Reset password',
+    mfa: 'Two-factor authentication',
+    mfaEnabled: (methods: string) => `Enabled (${methods})`,
+    mfaDisabled: 'Not set up',
+    mfaEnrolledAt: (when: string) => `set up ${when}`,
+    backupCodesRemaining: (count: number) => (count === 1 ? '1 backup code left' : `${count} backup codes left`),
+    mfaMethods: { totp: 'Authenticator app', backup_code: 'Backup codes' } as Record<string, string>,
+    resetMfa: 'Reset two-factor authentication',
+    resetMfaConfirm: 'The user will have to set up two-factor authentication again at their next sign-in. Continue?',
+    sessions: 'Signed-in devices',
+    thisDevice: 'This device',
+    unknownDevice: 'Unknown device',
+    lastActive: (when: string) => `Last active ${when}`,
+    signedIn: (when: string) => `signed in ${when}`,
+    signOut: 'Sign out',
+    signOutOthers: 'Sign out of all devices',
+    signOutOthersConfirm: (count: number) =>
+      count === 1 ? 'Sign the user out of 1 device?' : `Sign the user out of ${count} devices?`,
+    confirm: 'Sign out',
+    cancel: 'Cancel',
+    noOtherSessions: 'The user is not signed in on any device.',
+    noAudit: 'No audit log entries.',
+    by: (actor: string) => `by ${actor}`,
+    system: 'the system',
+    loadMore: 'Load more',
+    empty: '(empty)',
+    auditActions: {
+      'user.created': 'User created',
+      'user.updated': 'Details updated',
+      'user.deactivated': 'User deactivated',
+      'user.reactivated': 'User reactivated',
+      'password.reset': 'Password reset',
+      'mfa.reset': 'Two-factor authentication reset',
+      'sessions.revoked': 'Signed out of devices',
+    } as Record<string, string>,
+  },
+  ar: {
+    close: 'إغلاق',
+    copyLink: 'نسخ رابط هذا المستخدم',
+    linkCopied: 'تم نسخ الرابط',
+    loading: 'جارٍ التحميل...',
+    retry: 'حاول مرة أخرى',
+    tabs: { profile: 'الملف الشخصي', activity: 'النشاط', security: 'الأمان', audit: 'سجل التدقيق' },
+    username: 'اسم المستخدم',
+    email: 'البريد الإلكتروني',
+    phone: 'الهاتف',
+    role: 'الدور',
+    roles: { user: 'مستخدم', admin: 'مدير', super_admin: 'مدير عام' } as Record<string, string>,
+    status: 'الحالة',
+    statuses: { active: 'نشط', inactive: 'غير نشط', scheduled_deactivation: 'مجدول للتعطيل' } as Record<string, string>,
+    createdAt: 'تاريخ الإنشاء',
+    createdBy: 'أنشئ بواسطة',
+    activeSince: 'نشط منذ',
+    scheduledDeactivation: 'موعد التعطيل المجدول',
+    mustChangePassword: 'يجب تغيير كلمة المرور',
+    yes: 'نعم',
+    save: 'حفظ',
+    saving: 'جارٍ الحفظ...',
+    saved: 'تم حفظ التغييرات',
+    discard: 'تجاهل التغييرات',
+    checking: 'جارٍ التحقق...',
+    password: 'كلمة المرور',
+    passwordHint: 'إعادة تعيين كلمة المرور تحدد كلمة مرور جديدة لتسلّمها للمستخدم.',
+    mustChangePasswordPending: 'سيُطلب من المستخدم اختيار كلمة مرور جديدة عند تسجيل الدخول التالي.',
+    resetPassword: 'إعادة تعيين كلمة المرور',
+    mfa: 'المصادقة الثنائية',
+    mfaEnabled: (methods: string) => `مفعّلة (${methods})`,
+    mfaDisabled: 'غير مُعدّة',
+    mfaEnrolledAt: (when: string) => `أُعدّت في ${when}`,
+    backupCodesRemaining: (count: number) => (count === 1 ? 'تبقّى رمز احتياطي واحد' : `تبقّى ${count} رموز احتياطية`),
+    mfaMethods: { totp: 'تطبيق المصادقة', backup_code: 'الرموز الاحتياطية' } as Record<string, string>,
+    resetMfa: 'إعادة تعيين المصادقة الثنائية',
+    resetMfaConfirm: 'سيتعين على المستخدم إعداد المصادقة الثنائية من جديد عند تسجيل الدخول التالي. هل تريد المتابعة؟',
+    sessions: 'الأجهزة المسجّل دخولها',
+    thisDevice: 'هذا الجهاز',
+    unknownDevice: 'جهاز غير معروف',
+    lastActive: (when: string) => `آخر نشاط ${when}`,
+    signedIn: (when: string) => `سجّل الدخول في ${when}`,
+    signOut: 'تسجيل الخروج',
+    signOutOthers: 'تسجيل الخروج من جميع الأجهزة',
+    signOutOthersConfirm: (count: number) =>
+      count === 1 ? 'تسجيل خروج المستخدم من جهاز واحد؟' : `تسجيل خروج المستخدم من ${count} أجهزة؟`,
+    confirm: 'تسجيل الخروج',
+    cancel: 'إلغاء',
+    noOtherSessions: 'المستخدم غير مسجّل الدخول على أي جهاز.',
+    noAudit: 'لا توجد إدخالات في سجل التدقيق.',
+    by: (actor: string) => `بواسطة ${actor}`,
+    system: 'النظام',
+    loadMore: 'تحميل المزيد',
+    empty: '(فارغ)',
+    auditActions: {
+      'user.created': 'تم إنشاء المستخدم',
+      'user.updated': 'تم تحديث البيانات',
+      'user.deactivated': 'تم تعطيل المستخدم',
+      'user.reactivated': 'تمت إعادة تفعيل المستخدم',
+      'password.reset': 'تمت إعادة تعيين كلمة المرور',
+      'mfa.reset': 'تمت إعادة تعيين المصادقة الثنائية',
+      'sessions.revoked': 'تم تسجيل الخروج من الأجهزة',
+    } as Record<string, string>,
+  },
+};
+
+const COPIED_FEEDBACK_MS = 2000;
+
+/**
+ * Everything about one user in a panel on the end side of the page: profile, activity, security and audit log.
+ */
+export const UserDetailDrawer = ({
+  userId,
+  language,
+  theme,
+  tab,
+  onTabChange,
+  onClose,
+  initialUser,
+  onUserUpdated,
+  passwordPolicy,
+  actionPermissions,
+  unauthorizedActions = 'hide',
+  shareUrl,
+}: UserDetailDrawerProps) => {
+  const api = useOvuApi();
+  const { t: translate } = useTranslation();
+  const actions = useUsersTableActions(actionPermissions, unauthorizedActions);
+  const [user, setUser] = useState<User | null>(initialUser?.id === userId ? initialUser : null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [resettingPassword, setResettingPassword] = useState(false);
+  const panelRef = useRef<HTMLElement>(null);
+  const tabRefs = useRef<Partial<Record<UserDetailTab, HTMLButtonElement | null>>>({});
+
+  const t = translations[language] || translations.en;
+  const isRTL = isRTLLanguage(language);
+
+  const tabStates: Record<UserDetailTab, 'allowed' | 'disabled' | 'hidden'> = {
+    profile: 'allowed',
+    activity: actions.viewActivity,
+    security: 'allowed',
+    audit: actions.viewAudit,
+  };
+  const visibleTabs = USER_DETAIL_TABS.filter(id => tabStates[id] !== 'hidden');
+  const enabledTabs = visibleTabs.filter(id => tabStates[id] === 'allowed');
+  // A link to a tab the admin may not see opens the profile
+  const activeTab = enabledTabs.includes(tab) ? tab : 'profile';
+
+  const loadUser = async () => {
+    setLoadError(null);
+    try {
+      const loaded = await api.getUser(userId);
+      setUser(loaded);
+      return loaded;
+    } catch (err) {
+      console.error('Failed to load user:', err);
+      setLoadError(getApiErrorMessage(err));
+    }
+  };
+
+  useEffect(() => {
+    if (initialUser?.id !== userId) setUser(null);
+    loadUser();
+  }, [api, userId]);
+
+  useEffect(() => {
+    // Prevent body scroll while the drawer is open, and give focus back to the row afterwards
+    const previousFocus = document.activeElement as HTMLElement | null;
+    document.body.style.overflow = 'hidden';
+    panelRef.current?.focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // The reset-password dialog sits on top of the drawer; Escape is not meant for the drawer then
+      if (e.key === 'Escape' && !(e.target as Element | null)?.closest?.('.modal-backdrop')) onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.body.style.overflow = 'unset';
+      previousFocus?.focus();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopyLink = async () => {
+    if (!shareUrl) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy link:', err);
+    }
+  };
+
+  const handleSave = async (updates: UpdateUserPayload) => {
+    const previous = user!;
+    const optimistic = { ...previous, ...updates };
+
+    // Show the edit right away and roll the row back if the server rejects it
+    setUser(optimistic);
+    onUserUpdated?.(optimistic);
+    try {
+      const saved = await api.updateUser(userId, updates);
+      // Some backends answer with only the changed fields
+      const merged = { ...optimistic, ...saved };
+      setUser(merged);
+      onUserUpdated?.(merged);
+    } catch (error) {
+      setUser(previous);
+      onUserUpdated?.(previous);
+      // Rethrow so the profile tab shows the server's field errors
+      throw error;
+    }
+  };
+
+  const handleSecurityChanged = async () => {
+    const reloaded = await loadUser();
+    if (reloaded) onUserUpdated?.(reloaded);
+  };
+
+  // Arrow keys move between tabs, following the reading direction
+  const handleTabKeyDown = (e: ReactKeyboardEvent) => {
+    const index = enabledTabs.indexOf(activeTab);
+    const step = { ArrowRight: isRTL ? -1 : 1, ArrowLeft: isRTL ? 1 : -1 }[e.key as 'ArrowRight' | 'ArrowLeft'];
+    let next: UserDetailTab | undefined;
+    if (step) next = enabledTabs[(index + step + enabledTabs.length) % enabledTabs.length];
+    if (e.key === 'Home') next = enabledTabs[0];
+    if (e.key === 'End') next = enabledTabs[enabledTabs.length - 1];
+    if (!next) return;
+
+    e.preventDefault();
+    onTabChange(next);
+    tabRefs.current[next]?.focus();
+  };
+
+  const historyTranslations = {
+    activityHistory: translate('activityHistory'),
+    joinedAt: translate('joinedAt'),
+    leftAt: translate('leftAt'),
+    scheduledAt: translate('scheduledAt'),
+    actionType: translate('actionType'),
+    performedBy: translate('performedBy'),
+    reason: translate('reason'),
+    duration: translate('duration'),
+    days: translate('days'),
+    active: translate('statusActive'),
+    inactive: translate('statusInactive'),
+    noHistory: translate('noHistory'),
+    loading: translate('loading'),
+    error: translate('error'),
+    current: translate('current'),
+  };
+
+  const renderPanel = (current: User) => {
+    switch (activeTab) {
+      case 'profile':
+        return (
+          <ProfileTab
+            key={current.id}
+            user={current}
+            language={language}
+            canEdit={actions.edit === 'allowed'}
+            canChangeRole={actions.changeRole === 'allowed'}
+            onSave={handleSave}
+            translations={t}
+          />
+        );
+      case 'activity':
+        return <UserActivityHistory userId={current.id} translations={historyTranslations} preferredLanguage={language} />;
+      case 'security':
+        return (
+          <SecurityTab
+            user={current}
+            language={language}
+            canManage={actions.resetPassword === 'allowed'}
+            onResetPassword={() => setResettingPassword(true)}
+            onChanged={handleSecurityChanged}
+            translations={t}
+          />
+        );
+      case 'audit':
+        return <AuditTab userId={current.id} language={language} translations={t} />;
+    }
+  };
+
+  const status = user?.status || 'active';
+
+  return (
+    <>
+      <div className={`user-drawer-backdrop ${theme} ${isRTL ? 'rtl' : 'ltr'}`} onClick={onClose}>
+        <aside
+          ref={panelRef}
+          className="user-drawer"
+          dir={isRTL ? 'rtl' : 'ltr'}
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="user-drawer-title"
+          tabIndex={-1}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <header className="user-drawer-header">
+            <div className="user-drawer-avatar" aria-hidden="true">
+              {(user?.username || '?').charAt(0).toUpperCase()}
+            </div>
+            <div className="user-drawer-heading">
+              <h2 id="user-drawer-title" className="user-drawer-title">{user?.username || '...'}</h2>
+              {user && (
+                <div className="user-drawer-subtitle">
+                  <span dir="ltr">{user.email}</span>
+                  <span className={`user-drawer-status status-${status}`}>{t.statuses[status] || status}</span>
+                </div>
+              )}
+            </div>
+            {shareUrl && (
+              <button
+                type="button"
+                className="user-drawer-icon-btn"
+                onClick={handleCopyLink}
+                title={copied ? t.linkCopied : t.copyLink}
+                aria-label={t.copyLink}
+              >
+                {copied ? '✓' : '🔗'}
+              </button>
+            )}
+            <button type="button" className="user-drawer-icon-btn" onClick={onClose} title={t.close} aria-label={t.close}>
+              ✕
+            </button>
+          </header>
+          {copied && <div className="user-drawer-copied" role="status">{t.linkCopied}</div>}
+
+          <div className="user-drawer-tabs" role="tablist" onKeyDown={handleTabKeyDown}>
+            {visibleTabs.map(id => (
+              <button
+                key={id}
+                ref={(el) => { tabRefs.current[id] = el; }}
+                type="button"
+                role="tab"
+                id={`user-drawer-tab-${id}`}
+                aria-selected={activeTab === id}
+                aria-controls="user-drawer-panel"
+                tabIndex={activeTab === id ? 0 : -1}
+                className={`user-drawer-tab ${activeTab === id ? 'active' : ''}`}
+                onClick={() => onTabChange(id)}
+                disabled={tabStates[id] === 'disabled'}
+              >
+                {t.tabs[id]}
+              </button>
+            ))}
+          </div>
+
+          <div
+            className="user-drawer-body"
+            id="user-drawer-panel"
+            role="tabpanel"
+            aria-labelledby={`user-drawer-tab-${activeTab}`}
+          >
+            {loadError && <div className="error-message" role="alert">{loadError}</div>}
+            {user ? (
+              renderPanel(user)
+            ) : loadError ? (
+              <button type="button" className="btn btn-cancel" onClick={loadUser}>{t.retry}</button>
+            ) : (
+              <p className="user-drawer-hint" role="status">{t.loading}</p>
+            )}
+          </div>
+        </aside>
+      </div>
+
+      {/* Outside the drawer, so none of its styles or handlers apply to the dialog */}
+      {resettingPassword && user && (
+        <ResetPasswordModal
+          userId={user.id}
+          username={user.username}
+          language={language}
+          passwordPolicy={passwordPolicy}
+          onClose={() => setResettingPassword(false)}
+          onReset={async (id, newPassword, mustChangePassword) => {
+            await api.resetUserPassword(id, newPassword, mustChangePassword);
+            handleSecurityChanged();
+          }}
+        />
+      )}
+    </>
+  );
+};
@@ -0,0 +1,47 @@
+export const USER_DETAIL_TABS = ['profile', 'activity', 'security', 'audit'] as const;
+
+export type UserDetailTab = typeof USER_DETAIL_TABS[number];
+
+// The drawer as it appears in the URL: ?user=42&user_tab=security
+export interface UserDetailLink {
+  userId: number;
+  tab: UserDetailTab;
+}
+
+const tabParam = (param: string) => `${param}_tab`;
+
+/**
+ * The drawer the URL asks for, if any. An unknown tab falls back to the profile.
+ */
+export const readUserDetailLink = (param = 'user', search?: string): UserDetailLink | null => {
+  if (search === undefined) {
+    if (typeof window === 'undefined') return null;
+    search = window.location.search;
+  }
+
+  const params = new URLSearchParams(search);
+  const userId = Number(params.get(param));
+  if (!Number.isInteger(userId) || userId <= 0) return null;
+
+  const tab = params.get(tabParam(param));
+  return {
+    userId,
+    tab: USER_DETAIL_TABS.includes(tab as UserDetailTab) ? tab as UserDetailTab : 'profile',
+  };
+};
+
+/**
+ * `href` with the drawer's parameters set, or removed for null. Other parameters and the hash are kept.
+ */
+export const userDetailUrl = (link: UserDetailLink | null, param = 'user', href = window.location.href): string => {
+  const url = new URL(href);
+  url.searchParams.delete(param);
+  url.searchParams.delete(tabParam(param));
+
+  if (link) {
+    url.searchParams.set(param, String(link.userId));
+    // The profile is the default, so plain links stay short
+    if (link.tab !== 'profile') url.searchParams.set(tabParam(param), link.tab);
+  }
+  return url.toString();
+};
@@ -0,0 +1,3 @@
+export { UserDetailDrawer } from './UserDetailDrawer';
+export { USER_DETAIL_TABS, readUserDetailLink, userDetailUrl } from './detailLink';
+export type { UserDetailTab, UserDetailLink } from './detailLink';
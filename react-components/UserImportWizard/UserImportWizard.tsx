@@ -0,0 +1,594 @@
+import { useState, useMemo, useRef, type DragEvent } from 'react';
+import type { Language, PasswordPolicy } from '../types';
+import './UserImportWizard.css';
+import { useTranslation } from '../i18n';
+import { isRTL as isRTLLanguage } from '../i18n/locales';
+import { validateNewUser } from '../AddUserModal/validateNewUser';
+import { usePasswordPolicy } from '../PasswordPolicy/usePasswordPolicy';
+import type { ValidationMessageKey } from '../utils/validation';
+import { useValidationMessage } from '../utils/useFormValidation';
+import { useOvuApi, getApiErrorMessage } from '../api';
+import { readSpreadsheetFile, downloadCsv, type SpreadsheetData } from '../utils/spreadsheet';
+
+interface UserImportWizardProps {
+  language: Language;
+  onClose: () => void;
+  // Called once the import finished with at least one created user
+  onComplete?: (createdCount: number) => void;
+  // Roles accepted in the file, value -> label
+  roles?: Record<string, string>;
+  // Loaded from the policy endpoint when not given
+  passwordPolicy?: PasswordPolicy;
+}
+
+type Step = 'upload' | 'mapping' | 'preview' | 'importing' | 'results';
+
+const IMPORT_FIELDS = ['username', 'email', 'password', 'phone', 'role'] as const;
+type ImportField = typeof IMPORT_FIELDS[number];
+
+const REQUIRED_FIELDS: ImportField[] = ['username', 'email', 'password'];
+
+// Header names recognised when mapping columns automatically (compared lower-cased)
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  username: ['username', 'user name', 'user', 'login', 'שם משתמש', 'משתמש', 'اسم المستخدم'],
+  email: ['email', 'e-mail', 'mail', 'אימייל', 'דוא"ל', 'דואר אלקטרוני', 'البريد الإلكتروني'],
+  password: ['password', 'pass', 'סיסמה', 'סיסמא', 'كلمة المرور'],
+  phone: ['phone', 'phone number', 'mobile', 'טלפון', 'נייד', 'الهاتف'],
+  role: ['role', 'תפקיד', 'الدور'],
+};
+
+const SUPPORTED_FORMATS = ['.csv', '.xlsx'];
+
+// Rows are created a few at a time so large files neither flood the API nor run one by one
+const IMPORT_BATCH_SIZE = 5;
+
+type RowError = ValidationMessageKey | 'invalidRole' | 'duplicate';
+
+interface ImportRow {
+  // 1-based line number in the file, counting the header row
+  line: number;
+  values: Record<ImportField, string>;
+  errors: Partial<Record<ImportField, RowError>>;
+}
+
+interface ImportResult {
+  row: ImportRow;
+  status: 'success' | 'failed';
+  error?: string;
+}
+
+const DEFAULT_ROLES: Record<string, string> = { user: 'User', admin: 'Admin' };
+
+const translations = {
+  he: {
+    title: 'ייבוא משתמשים',
+    steps: {
+      upload: 'העלאת קובץ',
+      mapping: 'מיפוי עמודות',
+      preview: 'תצוגה מקדימה',
+      importing: 'ייבוא',
+      results: 'תוצאות',
+    },
+    reading: 'קורא קובץ...',
+    unsupportedFile: 'סוג קובץ לא נתמך',
+    emptyFile: 'הקובץ לא מכיל שורות נתונים',
+    readError: 'לא ניתן לקרוא את הקובץ',
+    mappingHint: 'בחר איזו עמודה בקובץ מתאימה לכל שדה',
+    notMapped: '— לא ממופה —',
+    fields: {
+      username: 'שם משתמש',
+      email: 'אימייל',
+      password: 'סיסמה',
+      phone: 'טלפון',
+      role: 'תפקיד',
+    },
+    line: 'שורה',
+    errors: {
+      invalidRole: 'תפקיד לא מוכר',
+      duplicate: 'מופיע יותר מפעם אחת בקובץ',
+    },
+    previewSummary: (valid: number, invalid: number) => `${valid} שורות תקינות, ${invalid} שורות עם שגיאות`,
+    onlyErrors: 'הצג רק שורות עם שגיאות',
+    mustChangePassword: 'חייב לשנות סיסמה בהתחברות הבאה',
+    invalidSkipped: 'שורות עם שגיאות לא ייובאו',
+    importing: (done: number, total: number) => `מייבא ${done} מתוך ${total}...`,
+    resultsSummary: (created: number, failed: number) => `${created} משתמשים נוצרו, ${failed} נכשלו`,
+    downloadReport: 'הורד דוח תוצאות',
+    status: 'סטטוס',
+    error: 'שגיאה',
+    created: 'נוצר',
+    failed: 'נכשל',
+    back: 'חזור',
+    next: 'הבא',
+    import: (count: number) => `ייבא ${count} משתמשים`,
+    cancel: 'ביטול',
+    close: 'סגור',
+  },
+  en: {
+    title: 'Import Users',
+    steps: {
+      upload: 'Upload',
+      mapping: 'Map columns',
+      preview: 'Preview',
+      importing: 'Import',
+      results: 'Results',
+    },
+    reading: 'Reading file...',
+    unsupportedFile: 'Unsupported file type',
+    emptyFile: 'The file has no data rows',
+    readError: 'Could not read the file',
+    mappingHint: 'Choose which column of the file holds each field',
+    notMapped: '— Not mapped —',
+    fields: {
+      username: 'Username',
+      email: 'Email',
+      password: 'Password',
+      phone: 'Phone',
+      role: 'Role',
+    },
+    line: 'Line',
+    errors: {
+      invalidRole: 'Unknown role',
+      duplicate: 'Appears more than once in the file',
+    },
+    previewSummary: (valid: number, invalid: number) => `${valid} valid rows, ${invalid} rows with errors`,
+    onlyErrors: 'Show only rows with errors',
+    mustChangePassword: 'Require password change at next login',
+    invalidSkipped: 'Rows with errors will not be imported',
+    importing: (done: number, total: number) => `Importing ${done} of ${total}...`,
+    resultsSummary: (created: number, failed: number) => `${created} users created, ${failed} failed`,
+    downloadReport: 'Download results report',
+    status: 'Status',
+    error: 'Error',
+    created: 'Created',
+    failed: 'Failed',
+    back: 'Back',
+    next: 'Next',
+    import: (count: number) => `Import ${count} users`,
+    cancel: 'Cancel',
+    close: 'Close',
+  },
+  ar: {
+    title: 'استيراد المستخدمين',
+    steps: {
+      upload: 'رفع الملف',
+      mapping: 'ربط الأعمدة',
+      preview: 'معاينة',
+      importing: 'استيراد',
+      results: 'النتائج',
+    },
+    reading: 'جارٍ قراءة الملف...',
+    unsupportedFile: 'نوع ملف غير مدعوم',
+    emptyFile: 'لا يحتوي الملف على صفوف بيانات',
+    readError: 'تعذرت قراءة الملف',
+    mappingHint: 'اختر العمود في الملف الذي يحتوي على كل حقل',
+    notMapped: '— غير مرتبط —',
+    fields: {
+      username: 'اسم المستخدم',
+      email: 'البريد الإلكتروني',
+      password: 'كلمة المرور',
+      phone: 'الهاتف',
+      role: 'الدور',
+    },
+    line: 'سطر',
+    errors: {
+      invalidRole: 'دور غير معروف',
+      duplicate: 'يظهر أكثر من مرة في الملف',
+    },
+    previewSummary: (valid: number, invalid: number) => `${valid} صفوف صالحة، ${invalid} صفوف بها أخطاء`,
+    onlyErrors: 'عرض الصفوف التي بها أخطاء فقط',
+    mustChangePassword: 'يجب تغيير كلمة المرور عند تسجيل الدخول التالي',
+    invalidSkipped: 'لن يتم استيراد الصفوف التي بها أخطاء',
+    importing: (done: number, total: number) => `جارٍ استيراد ${done} من ${total}...`,
+    resultsSummary: (created: number, failed: number) => `تم إنشاء ${created} مستخدمين، فشل ${failed}`,
+    downloadReport: 'تنزيل تقرير النتائج',
+    status: 'الحالة',
+    error: 'خطأ',
+    created: 'تم الإنشاء',
+    failed: 'فشل',
+    back: 'رجوع',
+    next: 'التالي',
+    import: (count: number) => `استيراد ${count} مستخدمين`,
+    cancel: 'إلغاء',
+    close: 'إغلاق',
+  }
+};
+
+const guessMapping = (headers: string[]): Partial<Record<ImportField, number>> => {
+  const mapping: Partial<Record<ImportField, number>> = {};
+  IMPORT_FIELDS.forEach(field => {
+    const index = headers.findIndex(header => HEADER_ALIASES[field].includes(header.toLowerCase()));
+    if (index !== -1) mapping[field] = index;
+  });
+  return mapping;
+};
+
+const buildRows = (
+  data: SpreadsheetData,
+  mapping: Partial<Record<ImportField, number>>,
+  roles: Record<string, string>,
+  policy: PasswordPolicy
+): ImportRow[] => {
+  const rows: ImportRow[] = data.rows.map((cells, index) => {
+    const values = Object.fromEntries(
+      IMPORT_FIELDS.map(field => {
+        const column = mapping[field];
+        return [field, column === undefined ? '' : String(cells[column] ?? '').trim()];
+      })
+    ) as Record<ImportField, string>;
+    if (!values.role) values.role = 'user';
+
+    const errors: ImportRow['errors'] = validateNewUser(values, policy);
+    if (!(values.role in roles)) errors.role = 'invalidRole';
+
+    return { line: index + 2, values, errors };
+  });
+
+  // The API rejects duplicates one by one; flag them up front instead
+  (['username', 'email'] as const).forEach(field => {
+    const counts = new Map<string, number>();
+    rows.forEach(row => {
+      const key = row.values[field].toLowerCase();
+      if (key) counts.set(key, (counts.get(key) || 0) + 1);
+    });
+    rows.forEach(row => {
+      if (!row.errors[field] && (counts.get(row.values[field].toLowerCase()) || 0) > 1) {
+        row.errors[field] = 'duplicate';
+      }
+    });
+  });
+
+  return rows;
+};
+
+const isValidRow = (row: ImportRow) => Object.keys(row.errors).length === 0;
+
+export const UserImportWizard = ({
+  language,
+  onClose,
+  onComplete,
+  roles = DEFAULT_ROLES,
+  passwordPolicy,
+}: UserImportWizardProps) => {
+  const api = useOvuApi();
+  const { t: translate } = useTranslation();
+  const validationMessage = useValidationMessage(language);
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [data, setData] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<Partial<Record<ImportField, number>>>({});
+  const [reading, setReading] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [dragActive, setDragActive] = useState(false);
+  const [onlyErrors, setOnlyErrors] = useState(false);
+  const [mustChangePassword, setMustChangePassword] = useState(true);
+  const policy = usePasswordPolicy(passwordPolicy);
+  const [results, setResults] = useState<ImportResult[]>([]);
+  const [importTotal, setImportTotal] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const t = translations[language] || translations.en;
+  const isRTL = isRTLLanguage(language);
+
+  const errorMessage = (error: RowError) =>
+    error === 'invalidRole' || error === 'duplicate' ? t.errors[error] : validationMessage(error);
+
+  const rows = useMemo(() => (data ? buildRows(data, mapping, roles, policy) : []), [data, mapping, roles, policy]);
+  const validRows = rows.filter(isValidRow);
+  const visibleRows = onlyErrors ? rows.filter(row => !isValidRow(row)) : rows;
+  const mappingComplete = REQUIRED_FIELDS.every(field => mapping[field] !== undefined);
+
+  const handleFile = async (file: File) => {
+    setFileError(null);
+
+    if (!SUPPORTED_FORMATS.some(format => file.name.toLowerCase().endsWith(format))) {
+      setFileError(t.unsupportedFile);
+      return;
+    }
+
+    setReading(true);
+    try {
+      const spreadsheet = await readSpreadsheetFile(file);
+      if (spreadsheet.rows.length === 0) {
+        setFileError(t.emptyFile);
+        return;
+      }
+      setFileName(file.name);
+      setData(spreadsheet);
+      setMapping(guessMapping(spreadsheet.headers));
+      setStep('mapping');
+    } catch (err) {
+      console.error('Failed to read import file:', err);
+      setFileError(t.readError);
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragActive(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleFile(file);
+  };
+
+  const handleImport = async () => {
+    const toImport = validRows;
+    setImportTotal(toImport.length);
+    setResults([]);
+    setStep('importing');
+
+    const collected: ImportResult[] = [];
+    for (let i = 0; i < toImport.length; i += IMPORT_BATCH_SIZE) {
+      const batch = toImport.slice(i, i + IMPORT_BATCH_SIZE);
+      const outcomes = await Promise.allSettled(
+        batch.map(row =>
+          api.createUser({
+            username: row.values.username,
+            email: row.values.email,
+            password: row.values.password,
+            phone: row.values.phone || undefined,
+            role: row.values.role,
+            must_change_password: mustChangePassword,
+          })
+        )
+      );
+
+      outcomes.forEach((outcome, index) => {
+        collected.push(
+          outcome.status === 'fulfilled'
+            ? { row: batch[index], status: 'success' }
+            : { row: batch[index], status: 'failed', error: getApiErrorMessage(outcome.reason) }
+        );
+      });
+      setResults([...collected]);
+    }
+
+    setStep('results');
+    const createdCount = collected.filter(result => result.status === 'success').length;
+    if (createdCount > 0) onComplete?.(createdCount);
+  };
+
+  const downloadReport = () => {
+    // Passwords are deliberately left out of the report
+    const invalid = rows.filter(row => !isValidRow(row));
+    downloadCsv(
+      {
+        headers: [t.line, t.fields.username, t.fields.email, t.fields.role, t.status, t.error],
+        rows: [
+          ...results.map(result => [
+            result.row.line,
+            result.row.values.username,
+            result.row.values.email,
+            result.row.values.role,
+            result.status === 'success' ? t.created : t.failed,
+            result.error || '',
+          ]),
+          ...invalid.map(row => [
+            row.line,
+            row.values.username,
+            row.values.email,
+            row.values.role,
+            t.failed,
+            Object.entries(row.errors).map(([field, code]) => `${t.fields[field as ImportField]}: ${errorMessage(code!)}`).join('; '),
+          ]),
+        ].sort((a, b) => Number(a[0]) - Number(b[0])),
+      },
+      `${fileName.replace(/\.[^.]+$/, '') || 'users'}-import-report.csv`
+    );
+  };
+
+  const createdCount = results.filter(result => result.status === 'success').length;
+  const failedResults = results.filter(result => result.status === 'failed');
+  const progress = importTotal === 0 ? 100 : Math.round((results.length / importTotal) * 100);
+  const busy = reading || step === 'importing';
+
+  const stepOrder: Step[] = ['upload', 'mapping', 'preview', 'importing', 'results'];
+
+  return (
+    <div className="modal-backdrop" onClick={busy ? undefined : onClose}>
+      <div
+        className="modal-content user-import-wizard"
+        dir={isRTL ? 'rtl' : 'ltr'}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="modal-header">
+          <h2>{t.title}</h2>
+          <button className="modal-close" onClick={onClose} title={t.close} disabled={busy}>
+            ✕
+          </button>
+        </div>
+
+        <ol className="import-steps">
+          {stepOrder.map((s, index) => (
+            <li
+              key={s}
+              className={`import-step ${s === step ? 'current' : ''} ${stepOrder.indexOf(step) > index ? 'done' : ''}`}
+            >
+              {t.steps[s]}
+            </li>
+          ))}
+        </ol>
+
+        <div className="modal-body">
+          {step === 'upload' && (
+            <>
+              <div
+                className={`import-dropzone ${dragActive ? 'drag-active' : ''}`}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setDragActive(true);
+                }}
+                onDragLeave={() => setDragActive(false)}
+                onDrop={handleDrop}
+              >
+                <div className="import-dropzone-icon">📄</div>
+                <p>{reading ? t.reading : translate('drag_drop_files')}</p>
+                <button
+                  type="button"
+                  className="btn-add"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={reading}
+                >
+                  {translate('select_file')}
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={SUPPORTED_FORMATS.join(',')}
+                  hidden
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) handleFile(file);
+                  }}
+                />
+                <p className="import-formats">{translate('supported_formats', { formats: 'CSV, XLSX' })}</p>
+              </div>
+              {fileError && <div className="error-message">{fileError}</div>}
+            </>
+          )}
+
+          {step === 'mapping' && data && (
+            <>
+              <p className="import-hint">
+                <strong>{fileName}</strong> — {t.mappingHint}
+              </p>
+              <div className="import-mapping">
+                {IMPORT_FIELDS.map(field => (
+                  <div key={field} className="form-group">
+                    <label htmlFor={`import-map-${field}`}>
+                      {t.fields[field]}{REQUIRED_FIELDS.includes(field) && ' *'}
+                    </label>
+                    <select
+                      id={`import-map-${field}`}
+                      value={mapping[field] ?? ''}
+                      onChange={(e) =>
+                        setMapping(prev => ({
+                          ...prev,
+                          [field]: e.target.value === '' ? undefined : Number(e.target.value),
+                        }))
+                      }
+                    >
+                      <option value="">{t.notMapped}</option>
+                      {data.headers.map((header, index) => (
+                        <option key={index} value={index}>{header || `#${index + 1}`}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          {step === 'preview' && (
+            <>
+              <div className="import-preview-toolbar">
+                <span>{t.previewSummary(validRows.length, rows.length - validRows.length)}</span>
+                <label className="import-only-errors">
+                  <input type="checkbox" checked={onlyErrors} onChange={(e) => setOnlyErrors(e.target.checked)} />
+                  {t.onlyErrors}
+                </label>
+                <label className="import-only-errors">
+                  <input
+                    type="checkbox"
+                    checked={mustChangePassword}
+                    onChange={(e) => setMustChangePassword(e.target.checked)}
+                  />
+                  {t.mustChangePassword}
+                </label>
+              </div>
+              {validRows.length < rows.length && <p className="import-hint">{t.invalidSkipped}</p>}
+              <div className="import-preview">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>{t.line}</th>
+                      {IMPORT_FIELDS.map(field => (
+                        <th key={field}>{t.fields[field]}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleRows.map(row => (
+                      <tr key={row.line} className={isValidRow(row) ? '' : 'row-invalid'}>
+                        <td>{row.line}</td>
+                        {IMPORT_FIELDS.map(field => {
+                          const error = row.errors[field];
+                          return (
+                            <td key={field} className={error ? 'cell-error' : ''} title={error ? errorMessage(error) : undefined}>
+                              {field === 'password' ? '•'.repeat(Math.min(row.values.password.length, 8)) : row.values[field]}
+                              {error && <span className="cell-error-message">{errorMessage(error)}</span>}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          {(step === 'importing' || step === 'results') && (
+            <>
+              <div
+                className="import-progress-bar"
+                role="progressbar"
+                aria-valuenow={progress}
+                aria-valuemin={0}
+                aria-valuemax={100}
+              >
+                <div className="import-progress-fill" style={{ width: `${progress}%` }} />
+              </div>
+              {step === 'importing' ? (
+                <p>{t.importing(results.length, importTotal)}</p>
+              ) : (
+                <>
+                  <p className="import-results-summary">{t.resultsSummary(createdCount, failedResults.length)}</p>
+                  {failedResults.length > 0 && (
+                    <ul className="import-failures">
+                      {failedResults.map(result => (
+                        <li key={result.row.line}>
+                          {t.line} {result.row.line} ({result.row.values.username}): {result.error}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          {step === 'mapping' && (
+            <>
+              <button className="btn-add" onClick={() => setStep('preview')} disabled={!mappingComplete}>
+                {t.next}
+              </button>
+              <button className="btn-cancel" onClick={() => setStep('upload')}>{t.back}</button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <button className="btn-add" onClick={handleImport} disabled={validRows.length === 0}>
+                {t.import(validRows.length)}
+              </button>
+              <button className="btn-cancel" onClick={() => setStep('mapping')}>{t.back}</button>
+            </>
+          )}
+          {step === 'results' && (
+            <>
+              <button className="btn-add" onClick={onClose}>{t.close}</button>
+              <button className="btn-cancel" onClick={downloadReport}>⬇️ {t.downloadReport}</button>
+            </>
+          )}
+          {step === 'upload' && (
+            <button className="btn-cancel" onClick={onClose} disabled={reading}>{t.cancel}</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
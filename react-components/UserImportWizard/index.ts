@@ -0,0 +1 @@
+export { UserImportWizard } from './UserImportWizard';
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import type { ActionState } from './actionPermissions';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  roles: Record<string, string>;
+  disabled?: boolean;
+  // Deactivate also covers reactivate and cancel schedule
+  actions?: { deactivate: ActionState; changeRole: ActionState };
+  onDeactivate: () => void;
+  onReactivate: () => void;
+  onCancelSchedule: () => void;
+  onChangeRole: (role: string) => void;
+  onClearSelection: () => void;
+  translations: {
+    selected: (count: number) => string;
+    deactivate: string;
+    reactivate: string;
+    cancelSchedule: string;
+    changeRole: string;
+    apply: string;
+    clearSelection: string;
+  };
+}
+
+export const BulkActionBar = ({
+  selectedCount,
+  roles,
+  disabled = false,
+  actions = { deactivate: 'allowed', changeRole: 'allowed' },
+  onDeactivate,
+  onReactivate,
+  onCancelSchedule,
+  onChangeRole,
+  onClearSelection,
+  translations: t,
+}: BulkActionBarProps) => {
+  const [role, setRole] = useState('');
+  const statusDisabled = disabled || actions.deactivate === 'disabled';
+  const roleDisabled = disabled || actions.changeRole === 'disabled';
+
+  return (
+    <div className="bulk-action-bar" role="toolbar">
+      <span className="bulk-selected-count">{t.selected(selectedCount)}</span>
+
+      <div className="bulk-actions">
+        {actions.deactivate !== 'hidden' && (
+          <>
+            <button className="bulk-btn btn-danger" onClick={onDeactivate} disabled={statusDisabled}>
+              🚫 {t.deactivate}
+            </button>
+            <button className="bulk-btn btn-success" onClick={onReactivate} disabled={statusDisabled}>
+              ✅ {t.reactivate}
+            </button>
+            <button className="bulk-btn btn-warning" onClick={onCancelSchedule} disabled={statusDisabled}>
+              ⏱️ {t.cancelSchedule}
+            </button>
+          </>
+        )}
+
+        {actions.changeRole !== 'hidden' && (
+          <div className="bulk-role-change">
+            <select value={role} onChange={(e) => setRole(e.target.value)} disabled={roleDisabled}>
+              <option value="">{t.changeRole}</option>
+              {Object.entries(roles).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <button
+              className="bulk-btn"
+              onClick={() => {
+                onChangeRole(role);
+                setRole('');
+              }}
+              disabled={roleDisabled || !role}
+            >
+              {t.apply}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <button className="bulk-clear-btn" onClick={onClearSelection} disabled={disabled}>
+        {t.clearSelection}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import type { User } from '../types';
+
+export type BulkItemStatus = 'pending' | 'running' | 'success' | 'failed' | 'skipped';
+
+export interface BulkProgressItem {
+  user: User;
+  status: BulkItemStatus;
+  error?: string;
+}
+
+interface BulkProgressModalProps {
+  title: string;
+  items: BulkProgressItem[];
+  done: boolean;
+  onClose: () => void;
+  translations: {
+    summary: (succeeded: number, failed: number, skipped: number) => string;
+    failures: string;
+    skippedHint: string;
+    close: string;
+  };
+}
+
+const statusIcons: Record<BulkItemStatus, string> = {
+  pending: '⏳',
+  running: '🔄',
+  success: '✅',
+  failed: '❌',
+  skipped: '➖',
+};
+
+export const BulkProgressModal = ({ title, items, done, onClose, translations: t }: BulkProgressModalProps) => {
+  const count = (status: BulkItemStatus) => items.filter(item => item.status === status).length;
+  const succeeded = count('success');
+  const failed = items.filter(item => item.status === 'failed');
+  const skipped = count('skipped');
+  const processed = succeeded + failed.length + skipped;
+  const percent = items.length === 0 ? 100 : Math.round((processed / items.length) * 100);
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content bulk-progress-modal" onClick={(e) => e.stopPropagation()}>
+        <h3 className="bulk-progress-title">{title}</h3>
+
+        <div
+          className="bulk-progress-bar"
+          role="progressbar"
+          aria-valuenow={percent}
+          aria-valuemin={0}
+          aria-valuemax={100}
+        >
+          <div className="bulk-progress-fill" style={{ width: `${percent}%` }} />
+        </div>
+
+        <ul className="bulk-progress-list">
+          {items.map(item => (
+            <li key={item.user.id} className={`bulk-progress-item status-${item.status}`}>
+              <span className="bulk-progress-icon">{statusIcons[item.status]}</span>
+              <span className="bulk-progress-username">{item.user.username}</span>
+              {item.status === 'skipped' && <span className="bulk-progress-note">{t.skippedHint}</span>}
+              {item.error && <span className="bulk-progress-error">{item.error}</span>}
+            </li>
+          ))}
+        </ul>
+
+        {done && (
+          <div className="bulk-progress-summary">
+            <p>{t.summary(succeeded, failed.length, skipped)}</p>
+            {failed.length > 0 && (
+              <div className="bulk-failures">
+                <strong>{t.failures}</strong>
+                <ul>
+                  {failed.map(item => (
+                    <li key={item.user.id}>
+                      {item.user.username}: {item.error}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <button className="btn-primary" onClick={onClose}>
+              {t.close}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
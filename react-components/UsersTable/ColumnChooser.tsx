@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import type { UsersTableColumn } from './columns';
+
+interface ColumnChooserProps {
+  columns: UsersTableColumn[];
+  isHidden: (column: UsersTableColumn) => boolean;
+  onToggle: (columnId: string) => void;
+  onMove: (columnId: string, targetId: string) => void;
+  onReset: () => void;
+  translations: {
+    columns: string;
+    dragToReorder: string;
+    resetColumns: string;
+  };
+}
+
+export const ColumnChooser = ({ columns, isHidden, onToggle, onMove, onReset, translations: t }: ColumnChooserProps) => {
+  const [open, setOpen] = useState(false);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const visibleCount = columns.filter(column => !isHidden(column)).length;
+
+  const handleDrop = (targetId: string) => {
+    if (draggedId) onMove(draggedId, targetId);
+    setDraggedId(null);
+    setDropTargetId(null);
+  };
+
+  return (
+    <div className="column-chooser">
+      <button
+        className={`column-chooser-btn ${open ? 'active' : ''}`}
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+      >
+        ⚙️ {t.columns}
+      </button>
+
+      {open && (
+        <>
+          <div className="column-chooser-backdrop" onClick={() => setOpen(false)} />
+          <div className="column-chooser-panel" role="dialog" aria-label={t.columns}>
+            <ul className="column-chooser-list">
+              {columns.map(column => {
+                const hidden = isHidden(column);
+                return (
+                  <li
+                    key={column.id}
+                    className={`column-chooser-item ${draggedId === column.id ? 'dragging' : ''} ${dropTargetId === column.id ? 'drop-target' : ''}`}
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDraggedId(column.id);
+                    }}
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      setDropTargetId(column.id);
+                    }}
+                    onDragLeave={() => setDropTargetId(null)}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      handleDrop(column.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggedId(null);
+                      setDropTargetId(null);
+                    }}
+                  >
+                    <span className="drag-handle" title={t.dragToReorder}>⋮⋮</span>
+                    <label>
+                      <input
+                        type="checkbox"
+                        checked={!hidden}
+                        // Keep at least one column on screen
+                        disabled={!hidden && visibleCount === 1}
+                        onChange={() => onToggle(column.id)}
+                      />
+                      {column.header}
+                    </label>
+                  </li>
+                );
+              })}
+            </ul>
+            <button className="column-chooser-reset" onClick={onReset}>
+              {t.resetColumns}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
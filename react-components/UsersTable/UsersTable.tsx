@@ -1,37 +1,130 @@
-import { useState, useEffect, useMemo } from 'react';
-import type { Language, Theme } from '../types';
+import {
+  useState,
+  useEffect,
+  useMemo,
+  useRef,
+  type MouseEvent as ReactMouseEvent,
+  type KeyboardEvent as ReactKeyboardEvent,
+} from 'react';
+import type { Language, Theme, User, PasswordPolicy } from '../types';
 import './UsersTable.css';
-import { EditUserModal } from '../EditUserModal/EditUserModal';
-import { ResetPasswordModal } from '../ResetPasswordModal/ResetPasswordModal';
+// .modal-backdrop and the buttons of the dialogs below
+import '../EditUserModal/EditUserModal.css';
 import { AddUserModal } from '../AddUserModal/AddUserModal';
+import { UserImportWizard } from '../UserImportWizard/UserImportWizard';
 import { DeactivateUserModal } from '../DeactivateUserModal/DeactivateUserModal';
-import { UserActivityHistory } from '../UserActivityHistory/UserActivityHistory';
-import axios from 'axios';
-
-interface User {
-  id: number;
-  username: string;
-  email: string;
-  role: string;
-  phone?: string;
-  status?: string;
-  current_joined_at?: string;
-  scheduled_deactivation_at?: string;
-  created_by_id?: number;
-  created_by_username?: string;
-  created_at: string;
-}
+import {
+  UserDetailDrawer,
+  readUserDetailLink,
+  userDetailUrl,
+  type UserDetailLink,
+  type UserDetailTab,
+} from '../UserDetailDrawer';
+import {
+  useOvuApi,
+  getApiErrorMessage,
+  isSessionExpiredError,
+  type ListUsersParams,
+  type CreateUserPayload,
+} from '../api';
+import { useTranslation, useFormatter, isRTL as isRTLLanguage } from '../i18n';
+import { useColumnLayout, type UsersTableColumn } from './columns';
+import { ColumnChooser } from './ColumnChooser';
+import { BulkActionBar } from './BulkActionBar';
+import { BulkProgressModal, type BulkProgressItem } from './BulkProgressModal';
+import { useUsersTableActions, type UsersTableAction } from './actionPermissions';
+import type { PermissionRequirement } from '../permissions';
+import { downloadCsv, downloadXlsx, type SpreadsheetData } from '../utils/spreadsheet';
 
 interface UsersTableProps {
   language: Language;
   theme: Theme;
-  apiEndpoint: string;
-  token: string;
+  // 'client' loads the whole list once; 'server' lets the API paginate, sort and search
+  mode?: 'client' | 'server';
+  pageSizeOptions?: number[];
+  defaultPageSize?: number;
+  // Column layout is saved per tableId; include the admin's id to keep layouts per admin
+  tableId?: string;
+  customColumns?: UsersTableColumn[];
+  // Passed to the add/reset-password/import dialogs; they load it from the API when omitted
+  passwordPolicy?: PasswordPolicy;
+  // Overrides DEFAULT_USERS_TABLE_PERMISSIONS per action; checked against the PermissionsProvider
+  actionPermissions?: Partial<Record<UsersTableAction, PermissionRequirement>>;
+  // What happens to controls the user has no permission for
+  unauthorizedActions?: 'hide' | 'disable';
+  // Shows only the users with this role; the role filter is locked to it. Server mode needs the proposed `role` parameter
+  role?: string;
+  // Query parameter that holds the open UserDetailDrawer (?user=42), so the link can be shared;
+  // null keeps the drawer out of the URL
+  detailParam?: string | null;
 }
 
-type SortField = keyof User | null;
+type SortField = keyof User;
 type SortDirection = 'asc' | 'desc';
 
+interface SortRule {
+  field: SortField;
+  direction: SortDirection;
+}
+
+interface ColumnFilters {
+  username?: string;
+  email?: string;
+  phone?: string;
+  role?: string;
+  status?: string;
+  created_from?: string;
+  created_to?: string;
+}
+
+const DEFAULT_SORT: SortRule[] = [{ field: 'created_at', direction: 'desc' }];
+const NO_FILTERS: ColumnFilters = {};
+const USER_STATUSES = ['active', 'inactive', 'scheduled_deactivation'] as const;
+
+const SEARCH_DEBOUNCE_MS = 300;
+// Page size used when loading every matching user (select-all in server mode)
+const FETCH_ALL_PAGE_SIZE = 100;
+const DEFAULT_PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
+
+const compareValues = (a: unknown, b: unknown) => {
+  // Missing values always sort last
+  if (a === undefined || a === null || a === '') return b === undefined || b === null || b === '' ? 0 : 1;
+  if (b === undefined || b === null || b === '') return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+};
+
+const sortUsers = (users: User[], rules: SortRule[]) => {
+  if (rules.length === 0) return users;
+  return [...users].sort((a, b) => {
+    for (const { field, direction } of rules) {
+      const comparison = compareValues(a[field], b[field]);
+      if (comparison !== 0) {
+        return direction === 'asc' ? comparison : -comparison;
+      }
+    }
+    return 0;
+  });
+};
+
+const matchesColumnFilters = (user: User, filters: ColumnFilters) => {
+  const textMatches = (value: string | undefined, filter: string | undefined) =>
+    !filter || (value || '').toLowerCase().includes(filter.toLowerCase());
+
+  if (!textMatches(user.username, filters.username)) return false;
+  if (!textMatches(user.email, filters.email)) return false;
+  if (!textMatches(user.phone, filters.phone)) return false;
+  if (filters.role && user.role !== filters.role) return false;
+  if (filters.status && (user.status || 'active') !== filters.status) return false;
+
+  // Date inputs give local YYYY-MM-DD; the range is inclusive of both whole days
+  const createdAt = new Date(user.created_at).getTime();
+  if (filters.created_from && createdAt < new Date(`${filters.created_from}T00:00:00`).getTime()) return false;
+  if (filters.created_to && createdAt > new Date(`${filters.created_to}T23:59:59.999`).getTime()) return false;
+
+  return true;
+};
+
 const translations = {
   he: {
     title: 'ניהול משתמשים',
@@ -47,6 +140,37 @@ const translations = {
     noUsers: 'אין משתמשים',
     search: 'חיפוש...',
     totalUsers: 'סה"כ משתמשים',
+    page: 'עמוד',
+    of: 'מתוך',
+    pageSize: 'שורות בעמוד',
+    previousPage: 'הקודם',
+    nextPage: 'הבא',
+    sortHint: 'לחץ למיון, Shift+לחיצה למיון לפי כמה עמודות',
+    filter: 'סינון...',
+    all: 'הכל',
+    dateFrom: 'מתאריך',
+    dateTo: 'עד תאריך',
+    resetFilters: 'נקה סינונים',
+    chooseColumns: 'עמודות',
+    dragToReorder: 'גרור לשינוי סדר',
+    resetColumns: 'איפוס עמודות',
+    resizeColumn: 'גרור לשינוי רוחב',
+    selectAll: 'בחר את כל המשתמשים המסוננים',
+    selectRow: 'בחר משתמש',
+    selected: (count: number) => `${count} נבחרו`,
+    selectedUsers: (count: number) => `${count} משתמשים`,
+    changeRole: 'שנה תפקיד...',
+    apply: 'החל',
+    clearSelection: 'נקה בחירה',
+    bulkSummary: (succeeded: number, failed: number, skipped: number) =>
+      `${succeeded} הצליחו, ${failed} נכשלו, ${skipped} דולגו`,
+    bulkFailures: 'כשלונות:',
+    bulkSkipped: 'לא רלוונטי לסטטוס הנוכחי',
+    close: 'סגור',
+    import: 'ייבוא',
+    exporting: 'מייצא...',
+    exportFailed: 'הייצוא נכשל',
+    sheetName: 'משתמשים',
     status: 'סטטוס',
     statusActive: 'פעיל',
     statusInactive: 'לא פעיל',
@@ -60,6 +184,8 @@ const translations = {
       status: 'סטטוס',
       created_by: 'נוצר ע"י',
       created_at: 'תאריך יצירה',
+      current_joined_at: 'פעיל מאז',
+      scheduled_deactivation_at: 'מועד השבתה מתוזמן',
     },
     roles: {
       user: 'משתמש',
@@ -82,6 +208,37 @@ const translations = {
     noUsers: 'No users found',
     search: 'Search...',
     totalUsers: 'Total Users',
+    page: 'Page',
+    of: 'of',
+    pageSize: 'Rows per page',
+    previousPage: 'Previous',
+    nextPage: 'Next',
+    sortHint: 'Click to sort, Shift+click to sort by multiple columns',
+    filter: 'Filter...',
+    all: 'All',
+    dateFrom: 'From date',
+    dateTo: 'To date',
+    resetFilters: 'Clear filters',
+    chooseColumns: 'Columns',
+    dragToReorder: 'Drag to reorder',
+    resetColumns: 'Reset columns',
+    resizeColumn: 'Drag to resize',
+    selectAll: 'Select all filtered users',
+    selectRow: 'Select user',
+    selected: (count: number) => `${count} selected`,
+    selectedUsers: (count: number) => `${count} users`,
+    changeRole: 'Change role...',
+    apply: 'Apply',
+    clearSelection: 'Clear selection',
+    bulkSummary: (succeeded: number, failed: number, skipped: number) =>
+      `${succeeded} succeeded, ${failed} failed, ${skipped} skipped`,
+    bulkFailures: 'Failures:',
+    bulkSkipped: 'Not applicable to current status',
+    close: 'Close',
+    import: 'Import',
+    exporting: 'Exporting...',
+    exportFailed: 'Export failed',
+    sheetName: 'Users',
     status: 'Status',
     statusActive: 'Active',
     statusInactive: 'Inactive',
@@ -95,6 +252,8 @@ const translations = {
       status: 'Status',
       created_by: 'Created By',
       created_at: 'Created',
+      current_joined_at: 'Active Since',
+      scheduled_deactivation_at: 'Scheduled Deactivation',
     },
     roles: {
       user: 'User',
@@ -102,63 +261,240 @@ const translations = {
       super_admin: 'Super Admin'
     },
     never: 'Never'
+  },
+  ar: {
+    title: 'إدارة المستخدمين',
+    actions: 'الإجراءات',
+    edit: 'تعديل',
+    deactivate: 'تعطيل المستخدم',
+    reactivate: 'إعادة التفعيل',
+    cancelSchedule: 'إلغاء الجدولة',
+    viewHistory: 'سجل النشاط',
+    resetPassword: 'إعادة تعيين كلمة المرور',
+    loading: 'جارٍ التحميل...',
+    error: 'خطأ في تحميل المستخدمين',
+    noUsers: 'لا يوجد مستخدمون',
+    search: 'بحث...',
+    totalUsers: 'إجمالي المستخدمين',
+    page: 'صفحة',
+    of: 'من',
+    pageSize: 'صفوف في الصفحة',
+    previousPage: 'السابق',
+    nextPage: 'التالي',
+    sortHint: 'انقر للفرز، Shift+نقرة للفرز حسب عدة أعمدة',
+    filter: 'تصفية...',
+    all: 'الكل',
+    dateFrom: 'من تاريخ',
+    dateTo: 'إلى تاريخ',
+    resetFilters: 'مسح عوامل التصفية',
+    chooseColumns: 'الأعمدة',
+    dragToReorder: 'اسحب لتغيير الترتيب',
+    resetColumns: 'إعادة تعيين الأعمدة',
+    resizeColumn: 'اسحب لتغيير العرض',
+    selectAll: 'تحديد كل المستخدمين المصفّين',
+    selectRow: 'تحديد المستخدم',
+    selected: (count: number) => `${count} محدد`,
+    selectedUsers: (count: number) => `${count} مستخدمين`,
+    changeRole: 'تغيير الدور...',
+    apply: 'تطبيق',
+    clearSelection: 'مسح التحديد',
+    bulkSummary: (succeeded: number, failed: number, skipped: number) =>
+      `${succeeded} نجحت، ${failed} فشلت، ${skipped} تم تخطيها`,
+    bulkFailures: 'الإخفاقات:',
+    bulkSkipped: 'لا ينطبق على الحالة الحالية',
+    close: 'إغلاق',
+    import: 'استيراد',
+    exporting: 'جارٍ التصدير...',
+    exportFailed: 'فشل التصدير',
+    sheetName: 'المستخدمون',
+    status: 'الحالة',
+    statusActive: 'نشط',
+    statusInactive: 'غير نشط',
+    statusScheduled: 'مجدول للتعطيل',
+    columns: {
+      id: 'المعرّف',
+      username: 'اسم المستخدم',
+      email: 'البريد الإلكتروني',
+      role: 'الدور',
+      phone: 'الهاتف',
+      status: 'الحالة',
+      created_by: 'أنشئ بواسطة',
+      created_at: 'تاريخ الإنشاء',
+      current_joined_at: 'نشط منذ',
+      scheduled_deactivation_at: 'موعد التعطيل المجدول',
+    },
+    roles: {
+      user: 'مستخدم',
+      admin: 'مدير',
+      super_admin: 'مدير عام'
+    },
+    never: 'أبدًا'
   }
 };
 
-export const UsersTable = ({ language, apiEndpoint, token }: UsersTableProps) => {
+export const UsersTable = ({
+  language,
+  theme,
+  mode = 'client',
+  pageSizeOptions = DEFAULT_PAGE_SIZE_OPTIONS,
+  defaultPageSize = pageSizeOptions[0],
+  tableId = 'users',
+  customColumns = [],
+  passwordPolicy,
+  actionPermissions,
+  unauthorizedActions = 'hide',
+  role,
+  detailParam = 'user',
+}: UsersTableProps) => {
+  const api = useOvuApi();
+  const { t: translate } = useTranslation();
+  const { formatDate, formatDateTime } = useFormatter(language);
   const [users, setUsers] = useState<User[]>([]);
+  const [serverTotal, setServerTotal] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [initialized, setInitialized] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
-  const [sortField] = useState<SortField>('created_at');
-  const [sortDirection] = useState<SortDirection>('desc');
-  const [columnFilters] = useState<Record<string, string>>({});
-  const [editingUser, setEditingUser] = useState<User | null>(null);
-  const [resetPasswordUserId, setResetPasswordUserId] = useState<number | null>(null);
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [debouncedFilters, setDebouncedFilters] = useState<ColumnFilters>(NO_FILTERS);
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(defaultPageSize);
+  const [sortRules, setSortRules] = useState<SortRule[]>(DEFAULT_SORT);
+  const [columnFilters, setColumnFilters] = useState<ColumnFilters>(NO_FILTERS);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showImportWizard, setShowImportWizard] = useState(false);
   const [deactivatingUserId, setDeactivatingUserId] = useState<number | null>(null);
-  const [viewingHistoryUserId, setViewingHistoryUserId] = useState<number | null>(null);
+  const [detail, setDetail] = useState<UserDetailLink | null>(() => (detailParam ? readUserDetailLink(detailParam) : null));
+  const [selectedUsers, setSelectedUsers] = useState<Map<number, User>>(new Map());
+  const [selectingAll, setSelectingAll] = useState(false);
+  const [bulkDeactivateOpen, setBulkDeactivateOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [bulkProgress, setBulkProgress] = useState<{ title: string; items: BulkProgressItem[]; done: boolean } | null>(null);
 
   const t = translations[language] || translations.en;
-  const isRTL = language === 'he';
-
-  // Create axios instance with token
-  const apiClient = useMemo(() => {
-    return axios.create({
-      baseURL: apiEndpoint,
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json'
-      }
-    });
-  }, [apiEndpoint, token]);
+  const isRTL = isRTLLanguage(language);
+
+  const actions = useUsersTableActions(actionPermissions, unauthorizedActions);
+  const rowActionsShown = (['edit', 'deactivate', 'viewActivity', 'resetPassword'] as const).some(
+    action => actions[action] !== 'hidden'
+  );
+  // Selection only serves the bulk actions
+  const selectionShown = actions.deactivate !== 'hidden' || actions.changeRole !== 'hidden';
+
+  const isServerMode = mode === 'server';
+
+  // Only the latest request may update state, so slow responses can't overwrite newer ones
+  const latestRequestRef = useRef(0);
+
+  useEffect(() => {
+    // Nothing new on mount, or when the input went back to what was already applied
+    if (searchTerm.trim() === debouncedSearch && columnFilters === debouncedFilters) return;
+
+    const timer = setTimeout(() => {
+      setDebouncedSearch(searchTerm.trim());
+      setDebouncedFilters(columnFilters);
+      setPage(1);
+      // A selection only makes sense for the filter it was made under
+      setSelectedUsers(new Map());
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm, columnFilters]);
+
+  useEffect(() => {
+    if (!isServerMode) fetchUsers();
+  }, [api, isServerMode]);
 
   useEffect(() => {
-    fetchUsers();
-  }, [apiEndpoint, token]);
+    if (isServerMode) fetchUsers();
+  }, [api, isServerMode, page, pageSize, debouncedSearch, debouncedFilters, sortRules, role]);
+
+  // Set once the table has opened a drawer, so a mount without one leaves the host's own parameters alone
+  const detailInUrlRef = useRef(false);
+
+  // Keep the open drawer in the URL so the link can be shared; replaceState leaves the back button alone
+  useEffect(() => {
+    if (!detailParam) return;
+    if (!detail && !detailInUrlRef.current) return;
+    detailInUrlRef.current = true;
+    const url = userDetailUrl(detail, detailParam);
+    if (url !== window.location.href) window.history.replaceState(window.history.state, '', url);
+  }, [detail, detailParam]);
+
+  // Back/forward to an entry with a different drawer
+  useEffect(() => {
+    if (!detailParam) return;
+    const handlePopState = () => setDetail(readUserDetailLink(detailParam));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [detailParam]);
+
+  // Search, sort and filters as sent to the API in server mode
+  const getServerQuery = (): ListUsersParams => ({
+    search: debouncedSearch || undefined,
+    sort_by: sortRules.map(rule => rule.field).join(',') || undefined,
+    sort_order: sortRules.map(rule => rule.direction).join(',') || undefined,
+    ...debouncedFilters,
+    ...(role ? { role } : {}),
+  });
+
+  // The SessionProvider takes care of an expired session; the table only explains why it is empty
+  const fetchErrorMessage = (err: unknown) =>
+    isSessionExpiredError(err) ? translate('session_expired') : `Failed to fetch users: ${getApiErrorMessage(err)}`;
 
   const fetchUsers = async () => {
+    const requestId = ++latestRequestRef.current;
     try {
       setLoading(true);
       setError(null);
       
       // Fetch users from API
-      const response = await apiClient.get('/api/v1/users');
-      setUsers(response.data.users || response.data || []);
-    } catch (err: any) {
-      const errorMessage = err.response?.data?.detail || err.message || 'Unknown error';
-      setError(`Failed to fetch users: ${errorMessage}`);
+      const response = isServerMode
+        ? await api.listUsers({ ...getServerQuery(), skip: (page - 1) * pageSize, limit: pageSize })
+        : await api.listUsers();
+
+      if (requestId !== latestRequestRef.current) return;
+      setUsers(response.users);
+      setServerTotal(response.total);
+    } catch (err) {
+      if (requestId !== latestRequestRef.current) return;
+      setError(fetchErrorMessage(err));
     } finally {
-      setLoading(false);
+      if (requestId === latestRequestRef.current) {
+        setLoading(false);
+        setInitialized(true);
+      }
     }
   };
 
+  const openDetails = (user: User, tab: UserDetailTab = 'profile') => setDetail({ userId: user.id, tab });
+
+  // Clicks on the row's own controls, and selecting text, don't open the drawer
+  const handleRowClick = (user: User, e: ReactMouseEvent) => {
+    if ((e.target as Element).closest('button, input, select, a, label')) return;
+    if (window.getSelection()?.toString()) return;
+    openDetails(user);
+  };
+
+  const handleRowKeyDown = (user: User, e: ReactKeyboardEvent) => {
+    if (e.key === 'Enter' && e.target === e.currentTarget) openDetails(user);
+  };
+
+  const handleUserUpdated = (updated: User) => {
+    setUsers(prev => prev.map(u => (u.id === updated.id ? { ...u, ...updated } : u)));
+  };
+
+  const handleAddUser = async (newUser: CreateUserPayload) => {
+    await api.createUser({ ...newUser, phone: newUser.phone || undefined });
+    await fetchUsers();
+  };
+
   const handleDeactivate = async (type: 'immediate' | 'scheduled', scheduledDate?: Date, reason?: string) => {
     if (!deactivatingUserId) return;
     
     try {
       // Call API endpoint
-      await apiClient.post(`/api/v1/users/${deactivatingUserId}/deactivate`, {
+      await api.deactivateUser(deactivatingUserId, {
         deactivation_type: type,
         scheduled_date: scheduledDate?.toISOString(),
         reason,
@@ -173,9 +509,7 @@ export const UsersTable = ({ language, apiEndpoint, token }: UsersTableProps) =>
 
   const handleReactivate = async (userId: number) => {
     try {
-      await apiClient.post(`/api/v1/users/${userId}/reactivate`, {
-        reason: 'Reactivated by admin'
-      });
+      await api.reactivateUser(userId, 'Reactivated by admin');
 
       await fetchUsers();
     } catch (error) {
@@ -185,9 +519,7 @@ export const UsersTable = ({ language, apiEndpoint, token }: UsersTableProps) =>
 
   const handleCancelSchedule = async (userId: number) => {
     try {
-      await apiClient.post(`/api/v1/users/${userId}/cancel-schedule`, {
-        reason: 'Cancelled by admin'
-      });
+      await api.cancelScheduledDeactivation(userId, 'Cancelled by admin');
 
       await fetchUsers();
     } catch (error) {
@@ -195,6 +527,142 @@ export const UsersTable = ({ language, apiEndpoint, token }: UsersTableProps) =>
     }
   };
 
+  // Every user matching the current search and filters, across all pages
+  const fetchAllMatchingUsers = async (): Promise<User[]> => {
+    if (!isServerMode) return filteredAndSortedUsers;
+
+    const query = getServerQuery();
+    const all: User[] = [];
+    let total = Infinity;
+    while (all.length < total) {
+      const response = await api.listUsers({ ...query, skip: all.length, limit: FETCH_ALL_PAGE_SIZE });
+      if (response.users.length === 0) break;
+      all.push(...response.users);
+      total = response.total;
+    }
+    return all;
+  };
+
+  const toggleUserSelection = (user: User) => {
+    setSelectedUsers(prev => {
+      const next = new Map(prev);
+      if (next.has(user.id)) {
+        next.delete(user.id);
+      } else {
+        next.set(user.id, user);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelectAll = async () => {
+    if (selectedUsers.size > 0) {
+      setSelectedUsers(new Map());
+      return;
+    }
+
+    try {
+      setSelectingAll(true);
+      const matching = await fetchAllMatchingUsers();
+      setSelectedUsers(new Map(matching.map(user => [user.id, user])));
+    } catch (err) {
+      setError(fetchErrorMessage(err));
+    } finally {
+      setSelectingAll(false);
+    }
+  };
+
+  const runBulkAction = async (
+    title: string,
+    isEligible: (user: User) => boolean,
+    action: (user: User) => Promise<unknown>
+  ) => {
+    const targets = Array.from(selectedUsers.values());
+    const updateItem = (userId: number, changes: Partial<BulkProgressItem>) => {
+      setBulkProgress(prev => prev && {
+        ...prev,
+        items: prev.items.map(item => (item.user.id === userId ? { ...item, ...changes } : item)),
+      });
+    };
+
+    setBulkProgress({
+      title,
+      items: targets.map(user => ({ user, status: isEligible(user) ? 'pending' : 'skipped' })),
+      done: false,
+    });
+
+    // Sequential on purpose: keeps load on the API predictable and progress easy to follow
+    const failedIds = new Set<number>();
+    for (const user of targets.filter(isEligible)) {
+      updateItem(user.id, { status: 'running' });
+      try {
+        await action(user);
+        updateItem(user.id, { status: 'success' });
+      } catch (err) {
+        failedIds.add(user.id);
+        updateItem(user.id, { status: 'failed', error: getApiErrorMessage(err) });
+      }
+    }
+
+    setBulkProgress(prev => prev && { ...prev, done: true });
+    // Leave only the failures selected so they can be retried
+    setSelectedUsers(prev => new Map([...prev].filter(([id]) => failedIds.has(id))));
+    await fetchUsers();
+  };
+
+  const hasStatus = (status: string) => (user: User) => (user.status || 'active') === status;
+
+  const handleBulkDeactivate = (type: 'immediate' | 'scheduled', scheduledDate?: Date, reason?: string) => {
+    setBulkDeactivateOpen(false);
+    runBulkAction(t.deactivate, hasStatus('active'), (user) =>
+      api.deactivateUser(user.id, {
+        deactivation_type: type,
+        scheduled_date: scheduledDate?.toISOString(),
+        reason,
+      })
+    );
+  };
+
+  const handleBulkReactivate = () => {
+    runBulkAction(t.reactivate, hasStatus('inactive'), (user) =>
+      api.reactivateUser(user.id, 'Reactivated by admin')
+    );
+  };
+
+  const handleBulkCancelSchedule = () => {
+    runBulkAction(t.cancelSchedule, hasStatus('scheduled_deactivation'), (user) =>
+      api.cancelScheduledDeactivation(user.id, 'Cancelled by admin')
+    );
+  };
+
+  const handleBulkChangeRole = (role: string) => {
+    runBulkAction(`${t.columns.role}: ${t.roles[role as keyof typeof t.roles] || role}`, (user) => user.role !== role, (user) =>
+      api.updateUser(user.id, { role })
+    );
+  };
+
+  const deactivateTranslations = {
+    deactivateUser: translate('deactivateUser'),
+    deactivateUserTitle: translate('deactivateUserTitle'),
+    deactivateImmediate: translate('deactivateImmediate'),
+    deactivateScheduled: translate('deactivateScheduled'),
+    selectDeactivationType: translate('selectDeactivationType'),
+    scheduledDate: translate('scheduledDate'),
+    reason: translate('reason'),
+    reasonPlaceholder: translate('reasonPlaceholder'),
+    cancel: translate('cancel'),
+    confirm: translate('confirm'),
+    scheduledDateRequired: translate('scheduledDateRequired'),
+    scheduledDateMustBeFuture: translate('scheduledDateMustBeFuture'),
+  };
+
+  const getStatusLabel = (status: string) => {
+    if (status === 'active') return t.statusActive;
+    if (status === 'inactive') return t.statusInactive;
+    if (status === 'scheduled_deactivation') return t.statusScheduled;
+    return status;
+  };
+
   const getStatusBadge = (user: User) => {
     const status = user.status || 'active';
     
@@ -208,45 +676,317 @@ export const UsersTable = ({ language, apiEndpoint, token }: UsersTableProps) =>
     return null;
   };
 
+  const getRoleLabel = (role: string) => t.roles[role as keyof typeof t.roles] || role;
+
+  const columns: UsersTableColumn[] = [
+    {
+      id: 'id',
+      header: t.columns.id,
+      sortField: 'id',
+      render: (user) => user.id,
+      exportValue: (user) => user.id,
+    },
+    {
+      id: 'username',
+      header: t.columns.username,
+      sortField: 'username',
+      render: (user) => <strong>{user.username}</strong>,
+      exportValue: (user) => user.username,
+    },
+    {
+      id: 'email',
+      header: t.columns.email,
+      sortField: 'email',
+      render: (user) => user.email,
+      exportValue: (user) => user.email,
+    },
+    {
+      id: 'phone',
+      header: t.columns.phone,
+      sortField: 'phone',
+      render: (user) => user.phone || '-',
+      exportValue: (user) => user.phone,
+    },
+    {
+      id: 'role',
+      header: t.columns.role,
+      sortField: 'role',
+      render: (user) => getRoleLabel(user.role),
+      exportValue: (user) => getRoleLabel(user.role),
+    },
+    {
+      id: 'status',
+      header: t.columns.status,
+      sortField: 'status',
+      render: (user) => getStatusBadge(user),
+      exportValue: (user) => getStatusLabel(user.status || 'active'),
+    },
+    {
+      id: 'created_by_username',
+      header: t.columns.created_by,
+      sortField: 'created_by_username',
+      defaultHidden: true,
+      render: (user) => user.created_by_username || '-',
+      exportValue: (user) => user.created_by_username,
+    },
+    {
+      id: 'current_joined_at',
+      header: t.columns.current_joined_at,
+      sortField: 'current_joined_at',
+      defaultHidden: true,
+      render: (user) => formatDate(user.current_joined_at),
+      exportValue: (user) => (user.current_joined_at ? formatDateTime(user.current_joined_at) : undefined),
+    },
+    {
+      id: 'scheduled_deactivation_at',
+      header: t.columns.scheduled_deactivation_at,
+      sortField: 'scheduled_deactivation_at',
+      defaultHidden: true,
+      render: (user) => formatDate(user.scheduled_deactivation_at),
+      exportValue: (user) => (user.scheduled_deactivation_at ? formatDateTime(user.scheduled_deactivation_at) : undefined),
+    },
+    {
+      id: 'created_at',
+      header: t.columns.created_at,
+      sortField: 'created_at',
+      render: (user) => formatDate(user.created_at),
+      exportValue: (user) => (user.created_at ? formatDateTime(user.created_at) : undefined),
+    },
+    ...customColumns,
+  ];
+
+  const {
+    orderedColumns,
+    visibleColumns,
+    isHidden,
+    toggleColumn,
+    moveColumn,
+    setColumnWidth,
+    getColumnWidth,
+    resetLayout,
+  } = useColumnLayout(`users_table_columns_${tableId}`, columns);
+
   const filteredAndSortedUsers = useMemo(() => {
-    let filtered = users.filter(user => {
+    // The server already searched and sorted this page
+    if (isServerMode) return users;
+
+    const filtered = users.filter(user => {
       const searchLower = searchTerm.toLowerCase();
       const matchesSearch = 
         user.username.toLowerCase().includes(searchLower) ||
         user.email.toLowerCase().includes(searchLower) ||
         (user.phone && user.phone.includes(searchTerm));
 
-      const matchesFilters = Object.entries(columnFilters).every(([key, value]) => {
-        if (!value) return true;
-        const userValue = user[key as keyof User];
-        return userValue && String(userValue).toLowerCase().includes(value.toLowerCase());
-      });
-
-      return matchesSearch && matchesFilters;
+      return matchesSearch && matchesColumnFilters(user, role ? { ...columnFilters, role } : columnFilters);
     });
 
-    if (sortField) {
-      filtered.sort((a, b) => {
-        const aValue = a[sortField];
-        const bValue = b[sortField];
-        
-        if (aValue === undefined || bValue === undefined) return 0;
-        
-        let comparison = 0;
-        if (typeof aValue === 'string' && typeof bValue === 'string') {
-          comparison = aValue.localeCompare(bValue);
-        } else if (typeof aValue === 'number' && typeof bValue === 'number') {
-          comparison = aValue - bValue;
-        }
-        
-        return sortDirection === 'asc' ? comparison : -comparison;
-      });
+    return sortUsers(filtered, sortRules);
+  }, [users, isServerMode, searchTerm, sortRules, columnFilters, role]);
+
+  const totalCount = isServerMode ? serverTotal : filteredAndSortedUsers.length;
+  const pageCount = Math.max(1, Math.ceil(totalCount / pageSize));
+
+  const pageUsers = useMemo(() => {
+    if (isServerMode) return filteredAndSortedUsers;
+    const start = (page - 1) * pageSize;
+    return filteredAndSortedUsers.slice(start, start + pageSize);
+  }, [filteredAndSortedUsers, isServerMode, page, pageSize]);
+
+  const rangeFrom = pageUsers.length === 0 ? 0 : (page - 1) * pageSize + 1;
+  const rangeTo = pageUsers.length === 0 ? 0 : rangeFrom + pageUsers.length - 1;
+
+  // Keep the current page in range when the list shrinks (e.g. after a deactivation)
+  useEffect(() => {
+    if (page > pageCount) setPage(pageCount);
+  }, [page, pageCount]);
+
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    try {
+      setExporting(true);
+      setExportError(null);
+
+      // Export what the admin sees: visible columns in their order, every matching row
+      const exportColumns = visibleColumns.filter(column => column.exportValue);
+      const rows = await fetchAllMatchingUsers();
+      const data: SpreadsheetData = {
+        headers: exportColumns.map(column => column.header),
+        rows: rows.map(user => exportColumns.map(column => column.exportValue!(user))),
+      };
+      const filename = `users-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+      if (format === 'csv') {
+        downloadCsv(data, filename);
+      } else {
+        downloadXlsx(data, filename, { sheetName: t.sheetName, rtl: isRTL });
+      }
+    } catch (err) {
+      setExportError(`${t.exportFailed}: ${getApiErrorMessage(err)}`);
+    } finally {
+      setExporting(false);
     }
+  };
+
+  const handleSort = (field: SortField, additive: boolean) => {
+    setSortRules(prev => {
+      const existing = prev.find(rule => rule.field === field);
+
+      if (!additive) {
+        // Plain click: sort by this column only, flipping direction if it already leads
+        const direction = existing && prev.length === 1 && existing.direction === 'asc' ? 'desc' : 'asc';
+        return [{ field, direction }];
+      }
+
+      // Shift+click: asc -> desc -> removed, keeping the other columns in place
+      if (!existing) return [...prev, { field, direction: 'asc' }];
+      if (existing.direction === 'asc') {
+        return prev.map(rule => (rule.field === field ? { field, direction: 'desc' } : rule));
+      }
+      return prev.filter(rule => rule.field !== field);
+    });
+  };
+
+  const updateFilter = (key: keyof ColumnFilters, value: string) => {
+    setColumnFilters(prev => ({ ...prev, [key]: value || undefined }));
+  };
 
-    return filtered;
-  }, [users, searchTerm, sortField, sortDirection, columnFilters]);
+  const hasActiveFilters = Object.values(columnFilters).some(Boolean);
+  const allMatchingSelected = totalCount > 0 && selectedUsers.size === totalCount;
+
+  const startResize = (e: ReactMouseEvent<HTMLSpanElement>, column: UsersTableColumn) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    const th = e.currentTarget.parentElement!;
+    const startX = e.clientX;
+    const startWidth = th.getBoundingClientRect().width;
+
+    const onMouseMove = (moveEvent: MouseEvent) => {
+      // In RTL the column's end edge is on the left, so dragging left widens it
+      const delta = (moveEvent.clientX - startX) * (isRTL ? -1 : 1);
+      setColumnWidth(column.id, startWidth + delta);
+    };
+    const onMouseUp = () => {
+      window.removeEventListener('mousemove', onMouseMove);
+      window.removeEventListener('mouseup', onMouseUp);
+    };
+
+    window.addEventListener('mousemove', onMouseMove);
+    window.addEventListener('mouseup', onMouseUp);
+  };
+
+  const renderHeader = (column: UsersTableColumn) => {
+    const width = getColumnWidth(column);
+    const field = column.sortField;
+    const ruleIndex = field ? sortRules.findIndex(rule => rule.field === field) : -1;
+    const rule = sortRules[ruleIndex];
+
+    return (
+      <th
+        key={column.id}
+        style={width ? { width, minWidth: width, maxWidth: width } : undefined}
+        onClick={field ? (e) => handleSort(field, e.shiftKey) : undefined}
+        title={field ? t.sortHint : undefined}
+        aria-sort={rule ? (rule.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+        className={field ? 'sortable' : undefined}
+      >
+        <div className="th-content">
+          <span>{column.header}</span>
+          {rule && (
+            <span className="sort-indicator">
+              {rule.direction === 'asc' ? '▲' : '▼'}
+              {sortRules.length > 1 && <sup>{ruleIndex + 1}</sup>}
+            </span>
+          )}
+        </div>
+        <span
+          className="column-resizer"
+          title={t.resizeColumn}
+          onMouseDown={(e) => startResize(e, column)}
+          onClick={(e) => e.stopPropagation()}
+        />
+      </th>
+    );
+  };
+
+  const renderFilter = (column: UsersTableColumn) => {
+    switch (column.id) {
+      case 'username':
+      case 'email':
+      case 'phone': {
+        const key = column.id;
+        return (
+          <th key={column.id}>
+            <input
+              type="text"
+              className="column-filter"
+              placeholder={t.filter}
+              value={columnFilters[key] || ''}
+              onChange={(e) => updateFilter(key, e.target.value)}
+            />
+          </th>
+        );
+      }
+      case 'role':
+        return (
+          <th key={column.id}>
+            <select
+              className="column-filter"
+              value={role || columnFilters.role || ''}
+              onChange={(e) => updateFilter('role', e.target.value)}
+              disabled={!!role}
+            >
+              <option value="">{t.all}</option>
+              {Object.entries(t.roles).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+              {role && !(role in t.roles) && <option value={role}>{role}</option>}
+            </select>
+          </th>
+        );
+      case 'status':
+        return (
+          <th key={column.id}>
+            <select
+              className="column-filter"
+              value={columnFilters.status || ''}
+              onChange={(e) => updateFilter('status', e.target.value)}
+            >
+              <option value="">{t.all}</option>
+              {USER_STATUSES.map(status => (
+                <option key={status} value={status}>{getStatusLabel(status)}</option>
+              ))}
+            </select>
+          </th>
+        );
+      case 'created_at':
+        return (
+          <th key={column.id}>
+            <div className="date-range-filter">
+              <input
+                type="date"
+                className="column-filter"
+                title={t.dateFrom}
+                value={columnFilters.created_from || ''}
+                max={columnFilters.created_to}
+                onChange={(e) => updateFilter('created_from', e.target.value)}
+              />
+              <input
+                type="date"
+                className="column-filter"
+                title={t.dateTo}
+                value={columnFilters.created_to || ''}
+                min={columnFilters.created_from}
+                onChange={(e) => updateFilter('created_to', e.target.value)}
+              />
+            </div>
+          </th>
+        );
+      default:
+        return <th key={column.id} />;
+    }
+  };
 
-  if (loading) {
+  if (loading && !initialized) {
     return <div className="users-table-loading">{t.loading}</div>;
   }
 
@@ -258,9 +998,26 @@ export const UsersTable = ({ language, apiEndpoint, token }: UsersTableProps) =>
     <div className={`users-table-container ${isRTL ? 'rtl' : 'ltr'}`} dir={isRTL ? 'rtl' : 'ltr'}>
       <div className="users-table-header">
         <h2>{t.title}</h2>
-        <button className="btn-primary" onClick={() => setShowAddModal(true)}>
-          + {t.columns.username}
-        </button>
+        <div className="users-table-header-actions">
+          {actions.import !== 'hidden' && (
+            <button
+              className="btn-secondary"
+              onClick={() => setShowImportWizard(true)}
+              disabled={actions.import === 'disabled'}
+            >
+              ⬆️ {t.import}
+            </button>
+          )}
+          {actions.create !== 'hidden' && (
+            <button
+              className="btn-primary"
+              onClick={() => setShowAddModal(true)}
+              disabled={actions.create === 'disabled'}
+            >
+              + {t.columns.username}
+            </button>
+          )}
+        </div>
       </div>
 
       <div className="users-table-controls">
@@ -271,130 +1028,279 @@ export const UsersTable = ({ language, apiEndpoint, token }: UsersTableProps) =>
           onChange={(e) => setSearchTerm(e.target.value)}
           className="search-input"
         />
+        {hasActiveFilters && (
+          <button className="reset-filters-btn" onClick={() => setColumnFilters(NO_FILTERS)}>
+            {t.resetFilters}
+          </button>
+        )}
+        {actions.export !== 'hidden' && (
+          <div className="export-actions" title={translate('export')}>
+            <span className="export-label">{exporting ? t.exporting : `${translate('export')}:`}</span>
+            <button
+              className="export-btn"
+              onClick={() => handleExport('csv')}
+              aria-label={`${translate('download')} CSV`}
+              disabled={exporting || totalCount === 0 || actions.export === 'disabled'}
+            >
+              CSV
+            </button>
+            <button
+              className="export-btn"
+              onClick={() => handleExport('xlsx')}
+              aria-label={`${translate('download')} XLSX`}
+              disabled={exporting || totalCount === 0 || actions.export === 'disabled'}
+            >
+              XLSX
+            </button>
+          </div>
+        )}
+        <ColumnChooser
+          columns={orderedColumns}
+          isHidden={isHidden}
+          onToggle={toggleColumn}
+          onMove={moveColumn}
+          onReset={resetLayout}
+          translations={{
+            columns: t.chooseColumns,
+            dragToReorder: t.dragToReorder,
+            resetColumns: t.resetColumns,
+          }}
+        />
         <div className="users-count">
-          {t.totalUsers}: {filteredAndSortedUsers.length}
+          {t.totalUsers}: {totalCount}
         </div>
       </div>
 
-      <div className="table-wrapper">
+      {exportError && <div className="users-table-error">{exportError}</div>}
+
+      {selectionShown && selectedUsers.size > 0 && (
+        <BulkActionBar
+          selectedCount={selectedUsers.size}
+          roles={t.roles}
+          disabled={!!bulkProgress && !bulkProgress.done}
+          actions={{ deactivate: actions.deactivate, changeRole: actions.changeRole }}
+          onDeactivate={() => setBulkDeactivateOpen(true)}
+          onReactivate={handleBulkReactivate}
+          onCancelSchedule={handleBulkCancelSchedule}
+          onChangeRole={handleBulkChangeRole}
+          onClearSelection={() => setSelectedUsers(new Map())}
+          translations={{
+            selected: t.selected,
+            deactivate: t.deactivate,
+            reactivate: t.reactivate,
+            cancelSchedule: t.cancelSchedule,
+            changeRole: t.changeRole,
+            apply: t.apply,
+            clearSelection: t.clearSelection,
+          }}
+        />
+      )}
+
+      <div className={`table-wrapper ${loading ? 'is-loading' : ''}`}>
         <table className="users-table">
           <thead>
             <tr>
-              <th>{t.columns.id}</th>
-              <th>{t.columns.username}</th>
-              <th>{t.columns.email}</th>
-              <th>{t.columns.phone}</th>
-              <th>{t.columns.role}</th>
-              <th>{t.columns.status}</th>
-              <th>{t.columns.created_at}</th>
-              <th>{t.actions}</th>
+              {selectionShown && (
+                <th className="select-column">
+                  <input
+                    type="checkbox"
+                    title={t.selectAll}
+                    aria-label={t.selectAll}
+                    checked={allMatchingSelected}
+                    ref={(el) => {
+                      if (el) el.indeterminate = selectedUsers.size > 0 && !allMatchingSelected;
+                    }}
+                    onChange={toggleSelectAll}
+                    disabled={selectingAll || totalCount === 0}
+                  />
+                </th>
+              )}
+              {visibleColumns.map(renderHeader)}
+              {rowActionsShown && <th className="actions-column">{t.actions}</th>}
+            </tr>
+            <tr className="filter-row">
+              {selectionShown && <th />}
+              {visibleColumns.map(renderFilter)}
+              {rowActionsShown && <th />}
             </tr>
           </thead>
           <tbody>
-            {filteredAndSortedUsers.map((user) => (
-              <tr key={user.id}>
-                <td>{user.id}</td>
-                <td><strong>{user.username}</strong></td>
-                <td>{user.email}</td>
-                <td>{user.phone || '-'}</td>
-                <td>{t.roles[user.role as keyof typeof t.roles] || user.role}</td>
-                <td>{getStatusBadge(user)}</td>
-                <td>{new Date(user.created_at).toLocaleDateString(language)}</td>
-                <td>
-                  <div className="action-buttons">
-                    <button
-                      className="btn-icon"
-                      onClick={() => setEditingUser(user)}
-                      title={t.edit}
-                    >
-                      ✏️
-                    </button>
-                    
-                    {user.status === 'active' && (
-                      <button
-                        className="btn-icon btn-danger"
-                        onClick={() => setDeactivatingUserId(user.id)}
-                        title={t.deactivate}
-                      >
-                        🚫
-                      </button>
-                    )}
-                    
-                    {user.status === 'inactive' && (
-                      <button
-                        className="btn-icon btn-success"
-                        onClick={() => handleReactivate(user.id)}
-                        title={t.reactivate}
-                      >
-                        ✅
-                      </button>
-                    )}
-                    
-                    {user.status === 'scheduled_deactivation' && (
-                      <button
-                        className="btn-icon btn-warning"
-                        onClick={() => handleCancelSchedule(user.id)}
-                        title={t.cancelSchedule}
-                      >
-                        ⏱️
-                      </button>
-                    )}
-                    
-                    <button
-                      className="btn-icon"
-                      onClick={() => setViewingHistoryUserId(user.id)}
-                      title={t.viewHistory}
-                    >
-                      📊
-                    </button>
-                    
-                    <button
-                      className="btn-icon"
-                      onClick={() => setResetPasswordUserId(user.id)}
-                      title={t.resetPassword}
-                    >
-                      🔑
-                    </button>
-                  </div>
-                </td>
+            {pageUsers.map((user) => (
+              <tr
+                key={user.id}
+                className={[
+                  'row-clickable',
+                  selectedUsers.has(user.id) ? 'row-selected' : '',
+                  detail?.userId === user.id ? 'row-open' : '',
+                ].filter(Boolean).join(' ')}
+                tabIndex={0}
+                onClick={(e) => handleRowClick(user, e)}
+                onKeyDown={(e) => handleRowKeyDown(user, e)}
+              >
+                {selectionShown && (
+                  <td className="select-cell">
+                    <input
+                      type="checkbox"
+                      aria-label={`${t.selectRow} ${user.username}`}
+                      checked={selectedUsers.has(user.id)}
+                      onChange={() => toggleUserSelection(user)}
+                    />
+                  </td>
+                )}
+                {visibleColumns.map(column => (
+                  <td key={column.id}>{column.render(user)}</td>
+                ))}
+                {rowActionsShown && (
+                  <td>
+                    <div className="action-buttons">
+                      {actions.edit !== 'hidden' && (
+                        <button
+                          className="btn-icon"
+                          onClick={() => openDetails(user, 'profile')}
+                          title={t.edit}
+                          disabled={actions.edit === 'disabled'}
+                        >
+                          ✏️
+                        </button>
+                      )}
+
+                      {actions.deactivate !== 'hidden' && user.status === 'active' && (
+                        <button
+                          className="btn-icon btn-danger"
+                          onClick={() => setDeactivatingUserId(user.id)}
+                          title={t.deactivate}
+                          disabled={actions.deactivate === 'disabled'}
+                        >
+                          🚫
+                        </button>
+                      )}
+
+                      {actions.deactivate !== 'hidden' && user.status === 'inactive' && (
+                        <button
+                          className="btn-icon btn-success"
+                          onClick={() => handleReactivate(user.id)}
+                          title={t.reactivate}
+                          disabled={actions.deactivate === 'disabled'}
+                        >
+                          ✅
+                        </button>
+                      )}
+
+                      {actions.deactivate !== 'hidden' && user.status === 'scheduled_deactivation' && (
+                        <button
+                          className="btn-icon btn-warning"
+                          onClick={() => handleCancelSchedule(user.id)}
+                          title={t.cancelSchedule}
+                          disabled={actions.deactivate === 'disabled'}
+                        >
+                          ⏱️
+                        </button>
+                      )}
+
+                      {actions.viewActivity !== 'hidden' && (
+                        <button
+                          className="btn-icon"
+                          onClick={() => openDetails(user, 'activity')}
+                          title={t.viewHistory}
+                          disabled={actions.viewActivity === 'disabled'}
+                        >
+                          📊
+                        </button>
+                      )}
+
+                      {actions.resetPassword !== 'hidden' && (
+                        <button
+                          className="btn-icon"
+                          onClick={() => openDetails(user, 'security')}
+                          title={t.resetPassword}
+                          disabled={actions.resetPassword === 'disabled'}
+                        >
+                          🔑
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                )}
               </tr>
             ))}
           </tbody>
         </table>
       </div>
 
-      {editingUser && (
-        <EditUserModal
-          onClose={() => setEditingUser(null)}
-          onSave={async (_userId: number, _updates: any) => {
-            setEditingUser(null);
-            await fetchUsers();
-          }}
-          user={editingUser}
-          language={language}
-        />
-      )}
+      <div className="users-pagination">
+        <div className="pagination-summary">
+          {translate('showing_x_to_y_of_z', { from: rangeFrom, to: rangeTo, total: totalCount })}
+        </div>
+        <div className="pagination-controls">
+          <label className="page-size-selector">
+            {t.pageSize}
+            <select
+              value={pageSize}
+              onChange={(e) => {
+                setPageSize(Number(e.target.value));
+                setPage(1);
+              }}
+            >
+              {pageSizeOptions.map(size => (
+                <option key={size} value={size}>{size}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            className="page-btn"
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1 || loading}
+            title={t.previousPage}
+          >
+            {isRTL ? '▶' : '◀'}
+          </button>
+          <span className="page-indicator">
+            {t.page} {page} {t.of} {pageCount}
+          </span>
+          <button
+            className="page-btn"
+            onClick={() => setPage(page + 1)}
+            disabled={page >= pageCount || loading}
+            title={t.nextPage}
+          >
+            {isRTL ? '◀' : '▶'}
+          </button>
+        </div>
+      </div>
 
-      {resetPasswordUserId && (
-        <ResetPasswordModal
-          onClose={() => setResetPasswordUserId(null)}
-          onReset={async (_userId: number, _newPassword: string) => {
-            setResetPasswordUserId(null);
-          }}
-          userId={resetPasswordUserId}
-          username={users.find(u => u.id === resetPasswordUserId)?.username || ''}
+      {detail && (
+        <UserDetailDrawer
+          userId={detail.userId}
+          tab={detail.tab}
+          onTabChange={(tab) => setDetail({ ...detail, tab })}
+          onClose={() => setDetail(null)}
+          initialUser={users.find(u => u.id === detail.userId)}
+          onUserUpdated={handleUserUpdated}
           language={language}
+          theme={theme}
+          passwordPolicy={passwordPolicy}
+          actionPermissions={actionPermissions}
+          unauthorizedActions={unauthorizedActions}
+          shareUrl={detailParam ? userDetailUrl(detail, detailParam) : undefined}
         />
       )}
 
       {showAddModal && (
         <AddUserModal
           onClose={() => setShowAddModal(false)}
-          onAdd={async (_newUser: any) => {
-            setShowAddModal(false);
-            await fetchUsers();
-          }}
+          onAdd={handleAddUser}
+          passwordPolicy={passwordPolicy}
+          language={language}
+        />
+      )}
+
+      {showImportWizard && (
+        <UserImportWizard
           language={language}
+          roles={t.roles}
+          passwordPolicy={passwordPolicy}
+          onClose={() => setShowImportWizard(false)}
+          onComplete={() => fetchUsers()}
         />
       )}
 
@@ -404,53 +1310,35 @@ export const UsersTable = ({ language, apiEndpoint, token }: UsersTableProps) =>
           onClose={() => setDeactivatingUserId(null)}
           onConfirm={handleDeactivate}
           username={users.find(u => u.id === deactivatingUserId)?.username || ''}
-          translations={{
-            deactivateUser: t.deactivate,
-            deactivateUserTitle: t.deactivate,
-            deactivateImmediate: translations.he.statusActive, // Will be replaced with proper translations
-            deactivateScheduled: t.statusScheduled,
-            selectDeactivationType: 'בחר סוג השבתה',
-            scheduledDate: 'תאריך ושעה',
-            reason: 'סיבה',
-            reasonPlaceholder: 'הזן סיבה (אופציונלי)',
-            cancel: 'ביטול',
-            confirm: 'אישור',
-            scheduledDateRequired: 'נדרש תאריך',
-            scheduledDateMustBeFuture: 'התאריך חייב להיות עתידי',
-          }}
+          translations={deactivateTranslations}
           preferredLanguage={language}
         />
       )}
 
-      {viewingHistoryUserId && (
-        <div className="modal-overlay" onClick={() => setViewingHistoryUserId(null)}>
-          <div className="modal-content" onClick={(e) => e.stopPropagation()}>
-            <button className="close-button" onClick={() => setViewingHistoryUserId(null)}>×</button>
-            <UserActivityHistory
-              userId={viewingHistoryUserId}
-              apiBaseUrl={apiEndpoint}
-              authToken={token}
-              translations={{
-                activityHistory: t.viewHistory,
-                joinedAt: 'הצטרף ב',
-                leftAt: 'עזב ב',
-                scheduledAt: 'מתוזמן ל',
-                actionType: 'סוג פעולה',
-                performedBy: 'בוצע על ידי',
-                reason: 'סיבה',
-                duration: 'משך',
-                days: 'ימים',
-                active: t.statusActive,
-                inactive: t.statusInactive,
-                noHistory: 'אין היסטוריה',
-                loading: t.loading,
-                error: t.error,
-                current: 'נוכחי',
-              }}
-              preferredLanguage={language}
-            />
-          </div>
-        </div>
+      {bulkDeactivateOpen && (
+        <DeactivateUserModal
+          isOpen={true}
+          onClose={() => setBulkDeactivateOpen(false)}
+          onConfirm={handleBulkDeactivate}
+          username={t.selectedUsers(selectedUsers.size)}
+          translations={deactivateTranslations}
+          preferredLanguage={language}
+        />
+      )}
+
+      {bulkProgress && (
+        <BulkProgressModal
+          title={bulkProgress.title}
+          items={bulkProgress.items}
+          done={bulkProgress.done}
+          onClose={() => setBulkProgress(null)}
+          translations={{
+            summary: t.bulkSummary,
+            failures: t.bulkFailures,
+            skippedHint: t.bulkSkipped,
+            close: t.close,
+          }}
+        />
       )}
     </div>
   );
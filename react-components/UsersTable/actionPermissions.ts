@@ -0,0 +1,52 @@
+import { useMemo } from 'react';
+import { usePermissions, type PermissionRequirement } from '../permissions';
+
+// 'deactivate' also covers reactivating and cancelling a scheduled deactivation;
+// 'resetPassword' also covers signing out a user's sessions and resetting their MFA
+export type UsersTableAction =
+  | 'create'
+  | 'import'
+  | 'export'
+  | 'edit'
+  | 'changeRole'
+  | 'deactivate'
+  | 'resetPassword'
+  | 'viewActivity'
+  | 'viewAudit';
+
+// 'disabled' when the permission is missing and unauthorizedActions is 'disable'
+export type ActionState = 'allowed' | 'disabled' | 'hidden';
+
+export const DEFAULT_USERS_TABLE_PERMISSIONS: Record<UsersTableAction, PermissionRequirement> = {
+  create: 'users.write',
+  import: 'users.write',
+  export: 'users.read',
+  edit: 'users.write',
+  changeRole: 'users.write',
+  deactivate: 'users.write',
+  resetPassword: 'users.write',
+  viewActivity: 'users.read',
+  viewAudit: 'logs.read',
+};
+
+export const USERS_TABLE_ACTIONS = Object.keys(DEFAULT_USERS_TABLE_PERMISSIONS) as UsersTableAction[];
+
+/**
+ * The state of each action for the current user, as UsersTable and UserDetailDrawer show it.
+ */
+export const useUsersTableActions = (
+  actionPermissions?: Partial<Record<UsersTableAction, PermissionRequirement>>,
+  unauthorizedActions: 'hide' | 'disable' = 'hide'
+) => {
+  const { can } = usePermissions();
+
+  return useMemo(() => {
+    const required = { ...DEFAULT_USERS_TABLE_PERMISSIONS, ...actionPermissions };
+    return Object.fromEntries(
+      USERS_TABLE_ACTIONS.map(action => [
+        action,
+        can(required[action]) ? 'allowed' : unauthorizedActions === 'disable' ? 'disabled' : 'hidden',
+      ])
+    ) as Record<UsersTableAction, ActionState>;
+  }, [can, actionPermissions, unauthorizedActions]);
+};
@@ -0,0 +1,165 @@
+import { useState, useEffect, useMemo, useRef, type ReactNode } from 'react';
+import type { User } from '../types';
+
+export interface UsersTableColumn {
+  id: string;
+  header: string;
+  render: (user: User) => ReactNode;
+  // Plain value written to CSV/XLSX exports; columns without one are left out of exports
+  exportValue?: (user: User) => string | number | undefined;
+  // Field used for sorting; columns without one are not sortable
+  sortField?: keyof User;
+  defaultHidden?: boolean;
+  defaultWidth?: number;
+}
+
+export interface ColumnLayout {
+  order: string[];
+  hidden: string[];
+  widths: Record<string, number>;
+}
+
+export const MIN_COLUMN_WIDTH = 60;
+
+const getDefaultLayout = (columns: UsersTableColumn[]): ColumnLayout => ({
+  order: columns.map(column => column.id),
+  hidden: columns.filter(column => column.defaultHidden).map(column => column.id),
+  widths: {},
+});
+
+// Resizing updates the width on every mousemove; only the layout the drag settles on is saved
+const SAVE_DELAY_MS = 300;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isColumnLayout = (value: unknown): value is ColumnLayout => {
+  if (!value || typeof value !== 'object') return false;
+  const { order, hidden, widths } = value as Partial<ColumnLayout>;
+  return (
+    isStringArray(order) &&
+    isStringArray(hidden) &&
+    !!widths &&
+    typeof widths === 'object' &&
+    !Array.isArray(widths) &&
+    Object.values(widths).every(width => typeof width === 'number' && Number.isFinite(width))
+  );
+};
+
+// A saved layout that is missing, unreadable or not shaped like a ColumnLayout falls back to the defaults
+const loadLayout = (storageKey: string, columns: UsersTableColumn[]): ColumnLayout => {
+  try {
+    const saved = localStorage.getItem(storageKey);
+    const parsed: unknown = saved ? JSON.parse(saved) : null;
+    return isColumnLayout(parsed) ? parsed : getDefaultLayout(columns);
+  } catch {
+    return getDefaultLayout(columns);
+  }
+};
+
+const saveLayout = (storageKey: string, layout: ColumnLayout) => {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(layout));
+  } catch {
+    // Private browsing or a full quota: the layout still applies, it just isn't kept
+  }
+};
+
+interface StoredLayout {
+  storageKey: string;
+  layout: ColumnLayout;
+}
+
+/**
+ * Column order, visibility and widths for one table, persisted to localStorage.
+ * Columns added after a layout was saved (e.g. new custom columns) are appended with their defaults.
+ * Changing the storage key (e.g. a different tableId) loads that key's layout instead of carrying the current one over.
+ */
+export const useColumnLayout = (storageKey: string, columns: UsersTableColumn[]) => {
+  const [stored, setStored] = useState<StoredLayout>(() => ({ storageKey, layout: loadLayout(storageKey, columns) }));
+  // Written when the save delay runs out, or straight away when the key changes or the table unmounts
+  const pendingSaveRef = useRef<StoredLayout | null>(null);
+
+  let current = stored;
+  if (stored.storageKey !== storageKey) {
+    current = { storageKey, layout: loadLayout(storageKey, columns) };
+    setStored(current);
+  }
+  const layout = current.layout;
+
+  const setLayout = (update: (prev: ColumnLayout) => ColumnLayout) => {
+    setStored(prev => ({ ...prev, layout: update(prev.layout) }));
+  };
+
+  const flushSave = () => {
+    const pending = pendingSaveRef.current;
+    pendingSaveRef.current = null;
+    if (pending) saveLayout(pending.storageKey, pending.layout);
+  };
+
+  useEffect(() => {
+    if (pendingSaveRef.current && pendingSaveRef.current.storageKey !== stored.storageKey) flushSave();
+    pendingSaveRef.current = stored;
+    const timer = window.setTimeout(flushSave, SAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [stored]);
+
+  useEffect(() => flushSave, []);
+
+  const orderedColumns = useMemo(() => {
+    const byId = new Map(columns.map(column => [column.id, column]));
+    const known = layout.order.filter(id => byId.has(id));
+    const added = columns.filter(column => !layout.order.includes(column.id)).map(column => column.id);
+    return [...known, ...added].map(id => byId.get(id)!);
+  }, [columns, layout.order]);
+
+  const isHidden = (column: UsersTableColumn) =>
+    layout.order.includes(column.id) ? layout.hidden.includes(column.id) : !!column.defaultHidden;
+
+  const visibleColumns = orderedColumns.filter(column => !isHidden(column));
+
+  const toggleColumn = (columnId: string) => {
+    const column = columns.find(c => c.id === columnId);
+    if (!column) return;
+
+    setLayout(prev => {
+      const order = prev.order.includes(columnId) ? prev.order : [...prev.order, columnId];
+      const hidden = isHidden(column)
+        ? prev.hidden.filter(id => id !== columnId)
+        : [...prev.hidden, columnId];
+      return { ...prev, order, hidden };
+    });
+  };
+
+  const moveColumn = (columnId: string, targetId: string) => {
+    if (columnId === targetId) return;
+
+    setLayout(prev => {
+      const order = orderedColumns.map(column => column.id).filter(id => id !== columnId);
+      order.splice(order.indexOf(targetId), 0, columnId);
+      return { ...prev, order };
+    });
+  };
+
+  const setColumnWidth = (columnId: string, width: number) => {
+    setLayout(prev => ({
+      ...prev,
+      widths: { ...prev.widths, [columnId]: Math.max(MIN_COLUMN_WIDTH, Math.round(width)) },
+    }));
+  };
+
+  const getColumnWidth = (column: UsersTableColumn) => layout.widths[column.id] ?? column.defaultWidth;
+
+  const resetLayout = () => setLayout(() => getDefaultLayout(columns));
+
+  return {
+    orderedColumns,
+    visibleColumns,
+    isHidden,
+    toggleColumn,
+    moveColumn,
+    setColumnWidth,
+    getColumnWidth,
+    resetLayout,
+  };
+};
@@ -1 +1,4 @@
 export { UsersTable } from './UsersTable';
+export type { UsersTableColumn } from './columns';
+export { DEFAULT_USERS_TABLE_PERMISSIONS } from './actionPermissions';
+export type { UsersTableAction } from './actionPermissions';
@@ -0,0 +1,572 @@
+import axios, { type AxiosInstance, type InternalAxiosRequestConfig } from 'axios';
+import type {
+  User,
+  UserInfo,
+  UserSession,
+  UserMfaStatus,
+  Role,
+  ActivityRecord,
+  AuditLogEntry,
+  PasswordPolicy,
+} from '../types';
+
+export interface OvuApiClientConfig {
+  baseUrl: string;
+  token?: string | null;
+  // With a refresh token, a 401 refreshes the session and replays the request instead of failing
+  refreshToken?: string | null;
+  apiPrefix?: string;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken?: string | null;
+  // Epoch milliseconds; from `expires_in`, or the token's JWT `exp` claim
+  expiresAt?: number | null;
+  // Epoch milliseconds after which the refresh token is rejected and the user has to log in again
+  refreshExpiresAt?: number | null;
+}
+
+// 'restore' is a session set from outside (storage, another tab) rather than by the backend
+export type SessionChangeReason = 'login' | 'refresh' | 'logout' | 'expired' | 'restore';
+
+export type SessionListener = (session: SessionTokens | null, reason: SessionChangeReason) => void;
+
+export interface ListUsersParams {
+  skip?: number;
+  limit?: number;
+  search?: string;
+  // Comma-separated for multi-column sort, e.g. sort_by=role,created_at&sort_order=asc,desc
+  sort_by?: string;
+  sort_order?: string;
+  username?: string;
+  email?: string;
+  phone?: string;
+  role?: string;
+  status?: string;
+  created_from?: string;
+  created_to?: string;
+}
+
+export interface ListUsersResponse {
+  users: User[];
+  total: number;
+  skip: number;
+  limit: number;
+}
+
+export interface CreateUserPayload {
+  username: string;
+  email: string;
+  password: string;
+  phone?: string;
+  role: string;
+  // The user has to pick a new password right after their first login
+  must_change_password?: boolean;
+}
+
+export interface UpdateUserPayload {
+  username?: string;
+  email?: string;
+  phone?: string;
+  role?: string;
+}
+
+// The fields a user may change on their own account
+export interface UpdateProfilePayload {
+  first_name?: string;
+  last_name?: string;
+  email?: string;
+  phone?: string;
+  // null returns the user to the system default
+  preferred_language?: string | null;
+}
+
+export interface AuditLogParams {
+  skip?: number;
+  limit?: number;
+}
+
+export interface AuditLogResponse {
+  entries: AuditLogEntry[];
+  total: number;
+}
+
+export interface DeactivateUserPayload {
+  deactivation_type: 'immediate' | 'scheduled';
+  scheduled_date?: string;
+  reason?: string;
+}
+
+export interface CreateRolePayload {
+  name: string;
+  permissions?: string[];
+}
+
+export interface PasswordPolicyResponse {
+  min_length: number;
+  require_uppercase?: boolean;
+  require_lowercase?: boolean;
+  require_digit?: boolean;
+  require_symbol?: boolean;
+  banned_passwords?: string[];
+  disallow_username?: boolean;
+}
+
+export interface TokenResponse {
+  access_token: string;
+  token_type: string;
+  refresh_token?: string;
+  // Seconds
+  expires_in?: number;
+  refresh_expires_in?: number;
+}
+
+export interface LoginResponse extends TokenResponse {
+  user: UserInfo;
+}
+
+// What LoginCallback hands over after an OIDC redirect; the backend redeems the code and checks the nonce
+export interface OidcLoginPayload {
+  providerId: string;
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+  nonce: string;
+}
+
+/**
+ * Thrown instead of the original 401 when the session cannot be refreshed; the user has to log in again.
+ */
+export class SessionExpiredError extends Error {
+  constructor() {
+    super('Session expired');
+    this.name = 'SessionExpiredError';
+  }
+}
+
+export const isSessionExpiredError = (err: unknown): err is SessionExpiredError => err instanceof SessionExpiredError;
+
+// The `exp` claim of a JWT in epoch milliseconds, or null for other tokens
+const getJwtExpiry = (token: string): number | null => {
+  try {
+    const payload = token.split('.')[1];
+    if (!payload) return null;
+    const { exp } = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+const toSession = (data: TokenResponse, previous?: SessionTokens | null): SessionTokens => {
+  const now = Date.now();
+  const refreshToken = data.refresh_token ?? previous?.refreshToken ?? null;
+  return {
+    accessToken: data.access_token,
+    refreshToken,
+    expiresAt: data.expires_in ? now + data.expires_in * 1000 : getJwtExpiry(data.access_token),
+    refreshExpiresAt: data.refresh_expires_in
+      ? now + data.refresh_expires_in * 1000
+      : data.refresh_token
+        ? getJwtExpiry(data.refresh_token)
+        : previous?.refreshExpiresAt ?? null,
+  };
+};
+
+// isUserFieldTaken pages through the search matches, but gives up (answers "unknown") after this many pages
+const USER_LOOKUP_PAGE_SIZE = 50;
+const USER_LOOKUP_MAX_PAGES = 3;
+
+// Endpoints whose 401 means wrong credentials or a dead refresh token, never "refresh and retry"
+const NO_REFRESH_PATHS = ['/auth/login', '/auth/oidc/login', '/auth/refresh', '/auth/logout'];
+
+type ReplayableRequest = InternalAxiosRequestConfig & { _retried?: boolean };
+
+// One entry of a FastAPI validation error, e.g. { loc: ['body', 'email'], msg: 'field required' }
+interface ApiValidationIssue {
+  loc?: (string | number)[];
+  msg?: string;
+}
+
+interface ApiErrorBody {
+  detail?: string | ApiValidationIssue[] | { code?: string; message?: string };
+}
+
+// The `detail` of a failed request's body; undefined for anything that isn't an axios error
+const getErrorDetail = (err: unknown): ApiErrorBody['detail'] =>
+  axios.isAxiosError<ApiErrorBody>(err) ? err.response?.data?.detail : undefined;
+
+/**
+ * Human-readable message for a failed API call.
+ * FastAPI returns `detail` as a string, as a list of validation errors, or as a `{ code, message }` object.
+ */
+export const getApiErrorMessage = (err: unknown): string => {
+  const detail = getErrorDetail(err);
+  if (typeof detail === 'string') return detail;
+  if (Array.isArray(detail)) return detail.map(item => item.msg).filter(Boolean).join(', ');
+  if (typeof detail?.message === 'string') return detail.message;
+  return (err instanceof Error && err.message) || 'Unknown error';
+};
+
+export interface ApiFormErrors {
+  fieldErrors: Record<string, string>;
+  // Message for everything that could not be attached to one of the form's fields
+  formError: string | null;
+}
+
+/**
+ * Maps a FastAPI validation error (`detail` list of `{ loc, msg }`) onto a form's fields.
+ * The field is the last entry of `loc`, e.g. `["body", "email"]` -> `email`; the first message per field wins.
+ */
+export const getApiFormErrors = (err: unknown, fields: readonly string[]): ApiFormErrors => {
+  const detail = getErrorDetail(err);
+  const fieldErrors: Record<string, string> = {};
+  const unmatched: string[] = [];
+
+  if (!Array.isArray(detail)) return { fieldErrors, formError: getApiErrorMessage(err) };
+
+  detail.forEach(item => {
+    const field = item.loc?.[item.loc.length - 1];
+    if (typeof field === 'string' && fields.includes(field)) {
+      if (!fieldErrors[field]) fieldErrors[field] = item.msg || '';
+    } else if (item.msg) {
+      unmatched.push(item.msg);
+    }
+  });
+
+  if (unmatched.length > 0) return { fieldErrors, formError: unmatched.join(', ') };
+  return { fieldErrors, formError: Object.keys(fieldErrors).length > 0 ? null : getApiErrorMessage(err) };
+};
+
+/**
+ * Typed client for the OVU backend (ULM/AAM).
+ * Owns the base URL and bearer token so components never build their own requests.
+ */
+export class OvuApiClient {
+  private readonly http: AxiosInstance;
+  private session: SessionTokens | null;
+  private refreshing: Promise<SessionTokens> | null = null;
+  private readonly listeners = new Set<SessionListener>();
+
+  constructor({ baseUrl, token = null, refreshToken = null, apiPrefix = '/api/v1' }: OvuApiClientConfig) {
+    this.session = token ? { accessToken: token, refreshToken, expiresAt: getJwtExpiry(token) } : null;
+    this.http = axios.create({
+      baseURL: `${baseUrl}${apiPrefix}`,
+      headers: {
+        'Content-Type': 'application/json'
+      }
+    });
+
+    // Attach the current token on every request so setToken() takes effect immediately
+    this.http.interceptors.request.use((config) => {
+      if (this.session) {
+        config.headers.Authorization = `Bearer ${this.session.accessToken}`;
+      }
+      return config;
+    });
+
+    // Refresh once on 401 and replay the request; concurrent 401s share a single refresh call
+    this.http.interceptors.response.use(undefined, async (error) => {
+      const request = error?.config as ReplayableRequest | undefined;
+      if (
+        error?.response?.status !== 401 ||
+        !request ||
+        request._retried ||
+        !this.session ||
+        NO_REFRESH_PATHS.some(path => request.url?.startsWith(path))
+      ) {
+        throw error;
+      }
+
+      request._retried = true;
+      // Another request may already have refreshed the token this one was sent with
+      if (request.headers.Authorization === `Bearer ${this.session.accessToken}`) {
+        await this.refreshSession();
+      }
+      return this.http.request(request);
+    });
+  }
+
+  getToken() {
+    return this.session?.accessToken ?? null;
+  }
+
+  setToken(token: string | null) {
+    this.session = token ? { ...this.session, accessToken: token, expiresAt: getJwtExpiry(token) } : null;
+  }
+
+  getSession() {
+    return this.session;
+  }
+
+  setSession(session: SessionTokens | null, reason: SessionChangeReason = 'restore') {
+    if (!session && !this.session) return;
+    this.session = session;
+    this.listeners.forEach(listener => listener(session, reason));
+  }
+
+  /**
+   * Calls `listener` whenever the tokens change (login, refresh, logout, expiry). Returns the unsubscribe function.
+   */
+  onSessionChange(listener: SessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ===== Auth =====
+
+  // `captchaToken` answers a `captcha_required` rejection of an earlier attempt
+  async login(username: string, password: string, { captchaToken }: { captchaToken?: string } = {}): Promise<LoginResponse> {
+    const response = await this.http.post<LoginResponse>('/auth/login', {
+      username,
+      password,
+      ...(captchaToken ? { captcha_token: captchaToken } : {}),
+    });
+    this.setSession(toSession(response.data), 'login');
+    return response.data;
+  }
+
+  // Signs in with the authorization code of an OIDC provider; see auth/oidc.ts
+  async loginWithOidc(callback: OidcLoginPayload): Promise<LoginResponse> {
+    const response = await this.http.post<LoginResponse>('/auth/oidc/login', {
+      provider: callback.providerId,
+      code: callback.code,
+      code_verifier: callback.codeVerifier,
+      redirect_uri: callback.redirectUri,
+      nonce: callback.nonce,
+    });
+    this.setSession(toSession(response.data), 'login');
+    return response.data;
+  }
+
+  async logout(): Promise<void> {
+    try {
+      await this.http.post('/auth/logout', { refresh_token: this.session?.refreshToken ?? undefined });
+    } finally {
+      this.setSession(null, 'logout');
+    }
+  }
+
+  /**
+   * Exchanges the refresh token for new tokens. Fails with SessionExpiredError (and ends the session)
+   * when there is no refresh token or the backend rejects it; network errors keep the session.
+   */
+  refreshSession(): Promise<SessionTokens> {
+    if (!this.refreshing) {
+      this.refreshing = this.requestRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async requestRefresh(): Promise<SessionTokens> {
+    const refreshToken = this.session?.refreshToken;
+    if (!refreshToken) {
+      this.setSession(null, 'expired');
+      throw new SessionExpiredError();
+    }
+
+    try {
+      const response = await this.http.post<TokenResponse>('/auth/refresh', { refresh_token: refreshToken });
+      const session = toSession(response.data, this.session);
+      this.setSession(session, 'refresh');
+      return session;
+    } catch (err) {
+      const status = axios.isAxiosError(err) ? err.response?.status : undefined;
+      if (status !== undefined && status < 500) {
+        this.setSession(null, 'expired');
+        throw new SessionExpiredError();
+      }
+      throw err;
+    }
+  }
+
+  async me(): Promise<UserInfo> {
+    const response = await this.http.get<UserInfo>('/auth/me');
+    return response.data;
+  }
+
+  async getPasswordPolicy(): Promise<PasswordPolicy> {
+    const response = await this.http.get<PasswordPolicyResponse>('/auth/password-policy');
+    const policy = response.data;
+    return {
+      minLength: policy.min_length,
+      requireUppercase: !!policy.require_uppercase,
+      requireLowercase: !!policy.require_lowercase,
+      requireDigit: !!policy.require_digit,
+      requireSymbol: !!policy.require_symbol,
+      bannedPasswords: policy.banned_passwords || [],
+      disallowUsername: !!policy.disallow_username,
+    };
+  }
+
+  // ===== Own account =====
+
+  async updateMe(payload: UpdateProfilePayload): Promise<UserInfo> {
+    const response = await this.http.put<UserInfo>('/users/me', payload);
+    return response.data;
+  }
+
+  async changeMyPassword(currentPassword: string, newPassword: string): Promise<void> {
+    await this.http.put('/users/me/password', {
+      current_password: currentPassword,
+      new_password: newPassword,
+    });
+  }
+
+  async listMySessions(): Promise<UserSession[]> {
+    const response = await this.http.get<{ sessions: UserSession[] } | UserSession[]>('/users/me/sessions');
+    const data = response.data;
+    return Array.isArray(data) ? data : data.sessions;
+  }
+
+  async revokeMySession(sessionId: string): Promise<void> {
+    await this.http.delete(`/users/me/sessions/${encodeURIComponent(sessionId)}`);
+  }
+
+  // Signs out every device except the one making the request
+  async revokeOtherSessions(): Promise<void> {
+    await this.http.delete('/users/me/sessions', { params: { keep_current: true } });
+  }
+
+  // ===== Users =====
+
+  async listUsers(params: ListUsersParams = {}): Promise<ListUsersResponse> {
+    const response = await this.http.get<ListUsersResponse | User[]>('/users', { params });
+    const data = response.data;
+
+    // Older backends return a bare array instead of the paginated envelope
+    if (Array.isArray(data)) {
+      return { users: data, total: data.length, skip: 0, limit: data.length };
+    }
+    return data;
+  }
+
+  async getUser(userId: number): Promise<User> {
+    const response = await this.http.get<User>(`/users/${userId}`);
+    return response.data;
+  }
+
+  /**
+   * Whether another user already has this username/email (case-insensitive), or null when that can't be told.
+   * Uses the list's `search`, which matches substrings of several fields, and looks for an exact match.
+   * Null when the backend returned users the search doesn't match (it ignored the search) or the matches run
+   * past USER_LOOKUP_MAX_PAGES; the server still rejects a duplicate on save.
+   */
+  async isUserFieldTaken(field: 'username' | 'email', value: string, excludeUserId?: number): Promise<boolean | null> {
+    const wanted = value.toLowerCase();
+    const matchesSearch = (user: User) =>
+      [user.username, user.email, user.phone].some(text => text?.toLowerCase().includes(wanted));
+
+    let skip = 0;
+    for (let page = 0; page < USER_LOOKUP_MAX_PAGES; page++) {
+      const { users, total } = await this.listUsers({ search: value, skip, limit: USER_LOOKUP_PAGE_SIZE });
+      if (users.some(user => user.id !== excludeUserId && user[field].toLowerCase() === wanted)) return true;
+      if (!users.every(matchesSearch)) return null;
+      skip += users.length;
+      // Stop on an empty page too, in case total overstates the matches
+      if (users.length === 0 || skip >= total) return false;
+    }
+    return null;
+  }
+
+  async createUser(payload: CreateUserPayload): Promise<User> {
+    const response = await this.http.post<User>('/users', payload);
+    return response.data;
+  }
+
+  async updateUser(userId: number, payload: UpdateUserPayload): Promise<User> {
+    const response = await this.http.put<User>(`/users/${userId}`, payload);
+    return response.data;
+  }
+
+  async deactivateUser(userId: number, payload: DeactivateUserPayload): Promise<void> {
+    await this.http.post(`/users/${userId}/deactivate`, payload);
+  }
+
+  async reactivateUser(userId: number, reason?: string): Promise<void> {
+    await this.http.post(`/users/${userId}/reactivate`, { reason });
+  }
+
+  async resetUserPassword(userId: number, newPassword: string, mustChangePassword = false): Promise<void> {
+    await this.http.post(`/users/${userId}/reset-password`, {
+      new_password: newPassword,
+      must_change_password: mustChangePassword,
+    });
+  }
+
+  async cancelScheduledDeactivation(userId: number, reason?: string): Promise<void> {
+    await this.http.post(`/users/${userId}/cancel-schedule`, { reason });
+  }
+
+  // ===== Activity =====
+
+  async getActivityHistory(userId: number): Promise<ActivityRecord[]> {
+    const response = await this.http.get<ActivityRecord[]>(`/users/${userId}/activity-history`);
+    return response.data;
+  }
+
+  // ===== Security =====
+
+  async listUserSessions(userId: number): Promise<UserSession[]> {
+    const response = await this.http.get<{ sessions: UserSession[] } | UserSession[]>(`/users/${userId}/sessions`);
+    const data = response.data;
+    return Array.isArray(data) ? data : data.sessions;
+  }
+
+  async revokeUserSession(userId: number, sessionId: string): Promise<void> {
+    await this.http.delete(`/users/${userId}/sessions/${encodeURIComponent(sessionId)}`);
+  }
+
+  // Signs the user out on every device
+  async revokeUserSessions(userId: number): Promise<void> {
+    await this.http.delete(`/users/${userId}/sessions`);
+  }
+
+  async getUserMfaStatus(userId: number): Promise<UserMfaStatus> {
+    const response = await this.http.get<UserMfaStatus>(`/users/${userId}/mfa`);
+    return response.data;
+  }
+
+  // Removes the user's MFA enrollment; they set it up again at their next login
+  async resetUserMfa(userId: number): Promise<void> {
+    await this.http.delete(`/users/${userId}/mfa`);
+  }
+
+  async getAuditLog(userId: number, params: AuditLogParams = {}): Promise<AuditLogResponse> {
+    const response = await this.http.get<AuditLogResponse | AuditLogEntry[]>(`/users/${userId}/audit-log`, { params });
+    const data = response.data;
+    return Array.isArray(data) ? { entries: data, total: data.length } : data;
+  }
+
+  // ===== Roles =====
+
+  async listRoles(): Promise<Role[]> {
+    const response = await this.http.get<{ roles: Role[] } | Role[]>('/roles');
+    const data = response.data;
+    return Array.isArray(data) ? data : data.roles;
+  }
+
+  async createRole(payload: CreateRolePayload): Promise<Role> {
+    const response = await this.http.post<Role>('/roles', { permissions: [], ...payload });
+    return response.data;
+  }
+
+  async renameRole(roleId: number, name: string): Promise<Role> {
+    const response = await this.http.put<Role>(`/roles/${roleId}`, { name });
+    return response.data;
+  }
+
+  async updateRolePermissions(roleId: number, permissions: string[]): Promise<Role> {
+    const response = await this.http.put<Role>(`/roles/${roleId}/permissions`, { permissions });
+    return response.data;
+  }
+
+  async deleteRole(roleId: number): Promise<void> {
+    await this.http.delete(`/roles/${roleId}`);
+  }
+}
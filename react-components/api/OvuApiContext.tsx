@@ -0,0 +1,29 @@
+import { createContext, useContext, useMemo, type ReactNode } from 'react';
+import { OvuApiClient } from './OvuApiClient';
+
+interface OvuApiProviderProps {
+  children: ReactNode;
+  // Either pass a ready client, or let the provider build one from baseUrl + token
+  client?: OvuApiClient;
+  baseUrl?: string;
+  token?: string | null;
+  apiPrefix?: string;
+}
+
+const OvuApiContext = createContext<OvuApiClient | null>(null);
+
+export const OvuApiProvider = ({ children, client, baseUrl = '', token = null, apiPrefix }: OvuApiProviderProps) => {
+  const value = useMemo(() => {
+    return client ?? new OvuApiClient({ baseUrl, token, apiPrefix });
+  }, [client, baseUrl, token, apiPrefix]);
+
+  return <OvuApiContext.Provider value={value}>{children}</OvuApiContext.Provider>;
+};
+
+export const useOvuApi = () => {
+  const client = useContext(OvuApiContext);
+  if (!client) {
+    throw new Error('useOvuApi must be used within an OvuApiProvider');
+  }
+  return client;
+};
@@ -0,0 +1,28 @@
+export {
+  OvuApiClient,
+  getApiErrorMessage,
+  getApiFormErrors,
+  SessionExpiredError,
+  isSessionExpiredError,
+} from './OvuApiClient';
+export type {
+  OvuApiClientConfig,
+  ListUsersParams,
+  ListUsersResponse,
+  CreateUserPayload,
+  UpdateUserPayload,
+  UpdateProfilePayload,
+  DeactivateUserPayload,
+  AuditLogParams,
+  AuditLogResponse,
+  CreateRolePayload,
+  LoginResponse,
+  OidcLoginPayload,
+  TokenResponse,
+  SessionTokens,
+  SessionChangeReason,
+  SessionListener,
+  PasswordPolicyResponse,
+  ApiFormErrors,
+} from './OvuApiClient';
+export { OvuApiProvider, useOvuApi } from './OvuApiContext';
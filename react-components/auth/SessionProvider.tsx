@@ -0,0 +1,275 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+import { useOvuApi, type LoginResponse, type SessionTokens } from '../api';
+import { useTranslation } from '../i18n';
+import { SessionExpiryDialog } from '../SessionExpiryDialog';
+import { SESSION_STORAGE_KEY, createWebTokenStorage, type TokenStorage } from './tokenStorage';
+
+// 'logout': the user signed out; 'expired': the tokens ran out or were rejected; 'idle': idleTimeout passed
+export type SessionEndReason = 'logout' | 'expired' | 'idle';
+
+interface SessionContextValue {
+  session: SessionTokens | null;
+  isAuthenticated: boolean;
+  login: (username: string, password: string, options?: { captchaToken?: string }) => Promise<LoginResponse>;
+  logout: () => Promise<void>;
+  // Why the previous session ended; cleared by the next login
+  endReason: SessionEndReason | null;
+  // The translated `session_expired` message after an expired or idle session, e.g. for LoginPage's `notice`
+  endMessage: string | null;
+}
+
+const SessionContext = createContext<SessionContextValue | null>(null);
+
+interface SessionProviderProps {
+  children: ReactNode;
+  // Defaults to localStorage, which also keeps every open tab on the same session
+  storage?: TokenStorage;
+  // Sign out after this many milliseconds without mouse, keyboard or touch input in any tab; off by default
+  idleTimeout?: number;
+  // How long before the session ends the warning dialog opens, in milliseconds
+  warningTime?: number;
+  onSessionEnd?: (reason: SessionEndReason) => void;
+}
+
+const DEFAULT_WARNING_TIME = 60 * 1000;
+const ACTIVITY_KEY = `${SESSION_STORAGE_KEY}_activity`;
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'touchstart', 'wheel'] as const;
+// Activity is recorded (and shared with other tabs) at most this often
+const ACTIVITY_THROTTLE = 5 * 1000;
+
+interface ExpiryWarning {
+  deadline: number;
+  reason: 'idle' | 'expired';
+}
+
+// When the session ends unless refreshed: the refresh token's expiry, or the access token's without one
+const getSessionDeadline = (session: SessionTokens): number =>
+  (session.refreshToken ? session.refreshExpiresAt : session.expiresAt) ?? Infinity;
+
+const readSharedActivity = (): number => {
+  try {
+    return Number(localStorage.getItem(ACTIVITY_KEY)) || 0;
+  } catch {
+    return 0;
+  }
+};
+
+const defaultStorage = createWebTokenStorage();
+
+/**
+ * Owns the login session of the OvuApiClient in context: persists and restores the tokens, syncs them
+ * across tabs, warns before the session ends and signs out on expiry or inactivity.
+ * Must be inside an OvuApiProvider (without a fixed `token`) and an I18nProvider.
+ */
+export const SessionProvider = ({
+  children,
+  storage = defaultStorage,
+  idleTimeout,
+  warningTime = DEFAULT_WARNING_TIME,
+  onSessionEnd,
+}: SessionProviderProps) => {
+  const api = useOvuApi();
+  const { t } = useTranslation();
+
+  // Restored during the first render so that the children's first requests already carry the token
+  const [session, setSession] = useState<SessionTokens | null>(() => {
+    const stored = storage.load();
+    if (stored && getSessionDeadline(stored) <= Date.now()) {
+      storage.clear();
+    } else if (stored && !api.getSession()) {
+      api.setSession(stored, 'restore');
+    }
+    return api.getSession();
+  });
+  const [endReason, setEndReason] = useState<SessionEndReason | null>(null);
+  const [warning, setWarning] = useState<ExpiryWarning | null>(null);
+  const [extending, setExtending] = useState(false);
+
+  const lastActivityRef = useRef(Math.max(Date.now(), readSharedActivity()));
+  // Set just before the client's session is cleared, so the change listener knows why
+  const pendingEndRef = useRef<SessionEndReason | null>(null);
+  const warningRef = useRef(warning);
+  warningRef.current = warning;
+
+  const recordActivity = useCallback((now = Date.now()) => {
+    lastActivityRef.current = now;
+    try {
+      localStorage.setItem(ACTIVITY_KEY, String(now));
+    } catch {
+      // Other tabs just won't see this tab's activity
+    }
+  }, []);
+
+  // Persist every change made through the client and report the end of the session
+  useEffect(() => {
+    return api.onSessionChange((next, reason) => {
+      setSession(next);
+      if (reason !== 'restore') {
+        if (next) storage.save(next);
+        else storage.clear();
+      }
+
+      if (next) {
+        setEndReason(null);
+        if (reason === 'login') recordActivity();
+        return;
+      }
+
+      const ended = reason === 'expired' ? 'expired' : pendingEndRef.current ?? 'logout';
+      pendingEndRef.current = null;
+      setWarning(null);
+      setEndReason(ended);
+      onSessionEnd?.(ended);
+    });
+  }, [api, storage, onSessionEnd, recordActivity]);
+
+  // Another tab logged in, refreshed or signed out
+  useEffect(() => {
+    return storage.subscribe?.(stored => {
+      if (stored) {
+        api.setSession(stored, 'restore');
+        return;
+      }
+      const current = api.getSession();
+      if (!current) return;
+      // The other tab's timers run on the same deadlines, so this tab can tell why it ended
+      const now = Date.now();
+      if (idleTimeout && now >= lastActivityRef.current + idleTimeout) pendingEndRef.current = 'idle';
+      else if (now >= getSessionDeadline(current)) pendingEndRef.current = 'expired';
+      api.setSession(null, 'restore');
+    });
+  }, [api, storage, idleTimeout]);
+
+  const endSession = useCallback(
+    async (reason: SessionEndReason) => {
+      pendingEndRef.current = reason;
+      if (reason === 'expired') {
+        api.setSession(null, 'expired');
+        return;
+      }
+      try {
+        await api.logout();
+      } catch {
+        // The local session is cleared even when the backend call fails
+      }
+    },
+    [api]
+  );
+
+  // Activity in this tab or any other one keeps the session alive
+  useEffect(() => {
+    if (!session || !idleTimeout) return;
+
+    const handleActivity = () => {
+      const now = Date.now();
+      // While the warning is open only "Stay signed in" counts
+      if (warningRef.current || now - lastActivityRef.current < ACTIVITY_THROTTLE) return;
+      recordActivity(now);
+    };
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === ACTIVITY_KEY && event.newValue) {
+        lastActivityRef.current = Math.max(lastActivityRef.current, Number(event.newValue) || 0);
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(name => window.addEventListener(name, handleActivity, { passive: true }));
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      ACTIVITY_EVENTS.forEach(name => window.removeEventListener(name, handleActivity));
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [session, idleTimeout, recordActivity]);
+
+  // Opens the warning and ends the session at the earlier of the idle and expiry deadlines
+  useEffect(() => {
+    if (!session) return;
+
+    let timer: number | undefined;
+    // False once the session has been ended, so it is ended only once
+    const check = () => {
+      const now = Date.now();
+      const idleDeadline = idleTimeout ? lastActivityRef.current + idleTimeout : Infinity;
+      const expiryDeadline = getSessionDeadline(session);
+      const deadline = Math.min(idleDeadline, expiryDeadline);
+      if (deadline === Infinity) return true;
+
+      const reason = idleDeadline <= expiryDeadline ? 'idle' : 'expired';
+      if (now >= deadline) {
+        window.clearInterval(timer);
+        endSession(reason);
+        return false;
+      }
+      if (deadline - now <= warningTime) {
+        setWarning(current =>
+          current?.deadline === deadline && current.reason === reason ? current : { deadline, reason }
+        );
+      } else {
+        setWarning(null);
+      }
+      return true;
+    };
+
+    if (check()) timer = window.setInterval(check, 1000);
+    return () => window.clearInterval(timer);
+  }, [session, idleTimeout, warningTime, endSession]);
+
+  const handleExtend = async () => {
+    if (!warning) return;
+    recordActivity();
+    if (warning.reason === 'expired') {
+      setExtending(true);
+      try {
+        await api.refreshSession();
+      } catch (err) {
+        // SessionExpiredError has already ended the session; anything else leaves the warning open
+        console.error('Failed to refresh the session:', err);
+        return;
+      } finally {
+        setExtending(false);
+      }
+    }
+    setWarning(null);
+  };
+
+  const login = useCallback(
+    (username: string, password: string, options?: { captchaToken?: string }) => api.login(username, password, options),
+    [api]
+  );
+  const logout = useCallback(() => endSession('logout'), [endSession]);
+
+  const value = useMemo<SessionContextValue>(
+    () => ({
+      session,
+      isAuthenticated: session !== null,
+      login,
+      logout,
+      endReason,
+      endMessage: endReason === 'expired' || endReason === 'idle' ? t('session_expired') : null,
+    }),
+    [session, login, logout, endReason, t]
+  );
+
+  return (
+    <SessionContext.Provider value={value}>
+      {children}
+      {warning && (
+        <SessionExpiryDialog
+          deadline={warning.deadline}
+          reason={warning.reason}
+          canExtend={warning.reason === 'idle' || !!session?.refreshToken}
+          onExtend={handleExtend}
+          onLogout={logout}
+          extending={extending}
+        />
+      )}
+    </SessionContext.Provider>
+  );
+};
+
+export const useSession = (): SessionContextValue => {
+  const context = useContext(SessionContext);
+  if (!context) {
+    throw new Error('useSession must be used within a SessionProvider');
+  }
+  return context;
+};
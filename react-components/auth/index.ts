@@ -0,0 +1,20 @@
+export { SessionProvider, useSession } from './SessionProvider';
+export type { SessionEndReason } from './SessionProvider';
+export { createWebTokenStorage, createMemoryTokenStorage, SESSION_STORAGE_KEY } from './tokenStorage';
+export type { TokenStorage } from './tokenStorage';
+export {
+  OIDC_STORAGE_PREFIX,
+  randomToken,
+  createPkceChallenge,
+  createAuthorizationRequest,
+  startOidcLogin,
+  parseOidcCallback,
+  exchangeAuthorizationCode,
+} from './oidc';
+export type {
+  OidcLoginOptions,
+  OidcCallbackSuccess,
+  OidcCallbackFailure,
+  OidcCallbackResult,
+  OidcTokenResponse,
+} from './oidc';
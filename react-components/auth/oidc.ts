@@ -0,0 +1,238 @@
+import type { IdentityProvider } from '../types';
+
+// OIDC authorization-code flow with PKCE. startOidcLogin() keeps the verifier, state and nonce in sessionStorage
+// and redirects to the provider; LoginCallback reads them back with parseOidcCallback() on the way in.
+
+export const OIDC_STORAGE_PREFIX = 'ovu_oidc_';
+
+// How long the user may take at the provider before the callback is refused
+const PENDING_TTL_MS = 10 * 60 * 1000;
+
+const DEFAULT_SCOPE = 'openid profile email';
+
+// Kept per `state` between the redirect to the provider and the callback
+interface PendingOidcLogin {
+  providerId: string;
+  codeVerifier: string;
+  nonce: string;
+  redirectUri: string;
+  returnTo?: string;
+  createdAt: number;
+}
+
+export interface OidcLoginOptions {
+  // Where to go after signing in, handed back by parseOidcCallback
+  returnTo?: string;
+  storage?: Storage;
+}
+
+export interface OidcCallbackSuccess {
+  type: 'success';
+  providerId: string;
+  code: string;
+  codeVerifier: string;
+  nonce: string;
+  redirectUri: string;
+  returnTo?: string;
+}
+
+export interface OidcCallbackFailure {
+  type: 'error';
+  // The provider's `error` (e.g. 'access_denied'), or 'invalid_state', 'expired' or 'missing_code'
+  error: string;
+  description?: string;
+}
+
+export type OidcCallbackResult = OidcCallbackSuccess | OidcCallbackFailure;
+
+export interface OidcTokenResponse {
+  access_token: string;
+  token_type: string;
+  id_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+}
+
+const defaultStorage = () => (typeof window !== 'undefined' ? window.sessionStorage : undefined);
+
+const base64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/**
+ * URL-safe random string; 32 bytes give the 43 characters that PKCE requires at minimum.
+ */
+export const randomToken = (byteLength = 32) => base64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+// The S256 code challenge of a PKCE verifier
+export const createPkceChallenge = async (codeVerifier: string) =>
+  base64Url(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier))));
+
+const readPending = (storage: Storage, key: string): PendingOidcLogin | null => {
+  try {
+    const pending = JSON.parse(storage.getItem(key) ?? 'null');
+    return typeof pending?.codeVerifier === 'string' ? pending : null;
+  } catch {
+    return null;
+  }
+};
+
+// Drops the leftovers of sign-ins that never came back
+const prunePending = (storage: Storage, now: number) => {
+  for (let i = storage.length - 1; i >= 0; i--) {
+    const key = storage.key(i);
+    if (!key?.startsWith(OIDC_STORAGE_PREFIX)) continue;
+    const pending = readPending(storage, key);
+    if (!pending || now - pending.createdAt > PENDING_TTL_MS) storage.removeItem(key);
+  }
+};
+
+/**
+ * Builds the authorization URL of `provider` and stores what the callback needs to verify the answer.
+ */
+export const createAuthorizationRequest = async (
+  provider: IdentityProvider,
+  { returnTo, storage = defaultStorage() }: OidcLoginOptions = {}
+): Promise<{ url: string; state: string }> => {
+  // Without storage the callback could not check the state, so refuse to start
+  if (!storage) throw new Error('Session storage is unavailable');
+
+  const state = randomToken();
+  const nonce = randomToken();
+  const codeVerifier = randomToken();
+  const now = Date.now();
+
+  const url = new URL(provider.authorizationEndpoint);
+  Object.entries({
+    ...provider.extraParams,
+    response_type: 'code',
+    client_id: provider.clientId,
+    redirect_uri: provider.redirectUri,
+    scope: provider.scope ?? DEFAULT_SCOPE,
+    state,
+    nonce,
+    code_challenge: await createPkceChallenge(codeVerifier),
+    code_challenge_method: 'S256',
+  }).forEach(([name, value]) => url.searchParams.set(name, value));
+
+  prunePending(storage, now);
+  const pending: PendingOidcLogin = {
+    providerId: provider.id,
+    codeVerifier,
+    nonce,
+    redirectUri: provider.redirectUri,
+    returnTo,
+    createdAt: now,
+  };
+  storage.setItem(OIDC_STORAGE_PREFIX + state, JSON.stringify(pending));
+
+  return { url: url.toString(), state };
+};
+
+/**
+ * Redirects the browser to the provider's sign-in page.
+ */
+export const startOidcLogin = async (provider: IdentityProvider, options?: OidcLoginOptions) => {
+  const { url } = await createAuthorizationRequest(provider, options);
+  window.location.assign(url);
+};
+
+/**
+ * Reads the provider's answer from the callback URL and matches it to the sign-in it belongs to.
+ * The stored state is removed either way, so a callback URL only works once.
+ */
+export const parseOidcCallback = (
+  callbackUrl: string = window.location.href,
+  storage: Storage | undefined = defaultStorage(),
+  now = Date.now()
+): OidcCallbackResult => {
+  const url = new URL(callbackUrl);
+  // Providers answer in the query string, or in the fragment with response_mode=fragment. The callback route
+  // may carry its own query (e.g. ?tenant=acme), so each parameter falls back to the fragment on its own.
+  const fragment = new URLSearchParams(url.hash.slice(1));
+  const param = (name: string) => url.searchParams.get(name) ?? fragment.get(name);
+
+  const state = param('state');
+  const key = state ? OIDC_STORAGE_PREFIX + state : null;
+  const pending = storage && key ? readPending(storage, key) : null;
+  if (storage && key) storage.removeItem(key);
+
+  const error = param('error');
+  if (error) return { type: 'error', error, description: param('error_description') ?? undefined };
+  if (!pending) return { type: 'error', error: 'invalid_state' };
+  if (now - pending.createdAt > PENDING_TTL_MS) return { type: 'error', error: 'expired' };
+
+  const code = param('code');
+  if (!code) return { type: 'error', error: 'missing_code' };
+
+  return {
+    type: 'success',
+    providerId: pending.providerId,
+    code,
+    codeVerifier: pending.codeVerifier,
+    nonce: pending.nonce,
+    redirectUri: pending.redirectUri,
+    returnTo: pending.returnTo,
+  };
+};
+
+// What the provider adds to the redirect URI (RFC 6749, OpenID Connect session management, RFC 9207)
+const CALLBACK_PARAMS = ['code', 'state', 'error', 'error_description', 'session_state', 'iss'];
+
+/**
+ * `href` without the provider's answer, from the query and from the fragment. The route's own parameters and
+ * a fragment that holds no answer (e.g. a hash route) are kept as they are.
+ */
+export const stripOidcCallbackParams = (href: string): string => {
+  const url = new URL(href);
+  if (CALLBACK_PARAMS.some(name => url.searchParams.has(name))) {
+    CALLBACK_PARAMS.forEach(name => url.searchParams.delete(name));
+  }
+
+  const fragment = new URLSearchParams(url.hash.slice(1));
+  if (CALLBACK_PARAMS.some(name => fragment.has(name))) {
+    CALLBACK_PARAMS.forEach(name => fragment.delete(name));
+    url.hash = fragment.toString();
+  }
+  return url.toString();
+};
+
+const decodeJwtPayload = (token: string): Record<string, unknown> | null => {
+  try {
+    const payload = token.split('.')[1];
+    return payload ? JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/'))) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Redeems the code at the provider's token endpoint, for public clients that do not go through the backend.
+ * Rejects an ID token whose nonce is not the one sent with the authorization request.
+ */
+export const exchangeAuthorizationCode = async (
+  provider: IdentityProvider,
+  callback: OidcCallbackSuccess
+): Promise<OidcTokenResponse> => {
+  if (!provider.tokenEndpoint) throw new Error(`Identity provider "${provider.id}" has no token endpoint`);
+
+  const response = await fetch(provider.tokenEndpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: callback.code,
+      redirect_uri: callback.redirectUri,
+      client_id: provider.clientId,
+      code_verifier: callback.codeVerifier,
+    }),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error_description || data.error || `Token request failed with status ${response.status}`);
+  }
+
+  if (data.id_token && decodeJwtPayload(data.id_token)?.nonce !== callback.nonce) {
+    throw new Error('ID token nonce does not match the sign-in request');
+  }
+  return data;
+};
@@ -0,0 +1,79 @@
+import type { SessionTokens } from '../api';
+
+/**
+ * Keeps the session tokens across page reloads.
+ */
+export interface TokenStorage {
+  load(): SessionTokens | null;
+  save(session: SessionTokens): void;
+  clear(): void;
+  // Calls `listener` when another browser tab saves or clears the session; returns the unsubscribe function
+  subscribe?(listener: (session: SessionTokens | null) => void): () => void;
+}
+
+export const SESSION_STORAGE_KEY = 'ovu_session';
+
+const parseSession = (value: string | null): SessionTokens | null => {
+  if (!value) return null;
+  try {
+    const session = JSON.parse(value);
+    return typeof session?.accessToken === 'string' ? session : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * localStorage (the default) is shared by every tab of the app, so logging out or refreshing in one tab
+ * applies to all of them. sessionStorage keeps each tab on its own and forgets the session when the tab closes.
+ */
+export const createWebTokenStorage = (
+  key = SESSION_STORAGE_KEY,
+  storage: Storage | undefined = typeof window !== 'undefined' ? window.localStorage : undefined
+): TokenStorage => ({
+  load: () => {
+    try {
+      return parseSession(storage?.getItem(key) ?? null);
+    } catch {
+      return null;
+    }
+  },
+  save: (session) => {
+    try {
+      storage?.setItem(key, JSON.stringify(session));
+    } catch {
+      // Storage full or blocked: the session still works until the page reloads
+    }
+  },
+  clear: () => {
+    try {
+      storage?.removeItem(key);
+    } catch {
+      // Ignore - see save()
+    }
+  },
+  subscribe: (listener) => {
+    if (typeof window === 'undefined') return () => {};
+    const handleStorage = (event: StorageEvent) => {
+      if (event.storageArea === storage && event.key === key) listener(parseSession(event.newValue));
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  },
+});
+
+/**
+ * Nothing survives a reload; for apps that must not persist tokens.
+ */
+export const createMemoryTokenStorage = (): TokenStorage => {
+  let stored: SessionTokens | null = null;
+  return {
+    load: () => stored,
+    save: (session) => {
+      stored = session;
+    },
+    clear: () => {
+      stored = null;
+    },
+  };
+};
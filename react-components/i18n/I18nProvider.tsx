@@ -0,0 +1,120 @@
+import { createContext, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
+import type { Language } from '../types';
+import { createTranslator, loadBundledMessages, type Messages, type MessagesLoader, type Translator } from './translate';
+import {
+  formatDate,
+  formatDateTime,
+  formatDuration,
+  formatNumber,
+  formatPercent,
+  formatRelativeTime,
+  formatTime,
+  type DateFormatOptions,
+  type DateInput,
+  type DurationFormatOptions,
+} from './format';
+
+interface I18nContextValue {
+  language: Language;
+  t: Translator;
+  // False while the messages for `language` are loading; `t` falls back to English meanwhile
+  ready: boolean;
+  dateOptions: DateFormatOptions;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+interface I18nProviderProps {
+  language: Language;
+  children: ReactNode;
+  // Defaults to the JSON files in localization/assets/i18n; pass one to fetch messages from a server instead.
+  // Keep it stable (module-level or memoized): a new function reloads the messages
+  loadMessages?: MessagesLoader;
+  // Time zone and calendar for every date shown by the components; browser zone and Gregorian calendar by default
+  timeZone?: string;
+  calendar?: string;
+}
+
+export const I18nProvider = ({
+  language,
+  children,
+  loadMessages = loadBundledMessages,
+  timeZone,
+  calendar,
+}: I18nProviderProps) => {
+  // Nothing is loaded up front, so a custom loader is asked for English too
+  const [loaded, setLoaded] = useState<{ language: string | null; loader: MessagesLoader | null; messages: Messages }>({
+    language: null,
+    loader: null,
+    messages: {},
+  });
+  const current = loaded.language === language && loaded.loader === loadMessages;
+
+  useEffect(() => {
+    if (current) return;
+
+    let cancelled = false;
+    loadMessages(language)
+      .then(messages => {
+        if (!cancelled) setLoaded({ language, loader: loadMessages, messages });
+      })
+      .catch(error => {
+        console.error(`Failed to load translations for "${language}":`, error);
+        // Keep rendering with the English fallback
+        if (!cancelled) setLoaded({ language, loader: loadMessages, messages: {} });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [language, loadMessages, current]);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    language,
+    t: createTranslator(current ? loaded.messages : {}),
+    ready: current,
+    dateOptions: { timeZone, calendar },
+  }), [language, loaded, current, timeZone, calendar]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useTranslation = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error('useTranslation must be used within an I18nProvider');
+  }
+  return context;
+};
+
+/**
+ * The enclosing I18nProvider's value, or null outside one; for components that fall back to English without a provider.
+ */
+export const useOptionalTranslation = (): I18nContextValue | null => useContext(I18nContext);
+
+/**
+ * Formatting functions bound to `language` and to the time zone and calendar of the enclosing I18nProvider.
+ * Unlike useTranslation, works without a provider (browser zone, Gregorian calendar).
+ */
+export const useFormatter = (language: Language) => {
+  const dateOptions = useContext(I18nContext)?.dateOptions;
+  const timeZone = dateOptions?.timeZone;
+  const calendar = dateOptions?.calendar;
+
+  return useMemo(() => {
+    const options: DateFormatOptions = { timeZone, calendar };
+    return {
+      formatDate: (value: DateInput | null | undefined, fallback?: string) => formatDate(value, language, options, fallback),
+      formatDateTime: (value: DateInput | null | undefined, fallback?: string) =>
+        formatDateTime(value, language, options, fallback),
+      formatTime: (value: DateInput | null | undefined, fallback?: string) => formatTime(value, language, options, fallback),
+      formatRelativeTime: (value: DateInput | null | undefined, now?: DateInput) =>
+        formatRelativeTime(value, language, now),
+      formatDuration: (milliseconds: number, durationOptions?: DurationFormatOptions) =>
+        formatDuration(milliseconds, language, durationOptions),
+      formatNumber: (value: number, numberOptions?: Intl.NumberFormatOptions) => formatNumber(value, language, numberOptions),
+      formatPercent: (value: number, numberOptions?: Intl.NumberFormatOptions) =>
+        formatPercent(value, language, numberOptions),
+    };
+  }, [language, timeZone, calendar]);
+};
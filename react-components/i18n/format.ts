@@ -0,0 +1,164 @@
+import type { Language } from '../types';
+import { getIntlLocale } from './locales';
+
+// Locale-aware formatting of dates, relative times, durations and numbers.
+// Dates are accepted as ISO strings (as returned by the API), epoch milliseconds or Date objects.
+
+export type DateInput = string | number | Date;
+
+export interface DateFormatOptions {
+  // IANA zone such as 'Asia/Jerusalem'; defaults to the browser's zone
+  timeZone?: string;
+  // 'gregory' (default), 'hebrew', 'islamic-umalqura', ... - see getCalendarOptions()
+  calendar?: string;
+}
+
+export type DurationUnit = 'day' | 'hour' | 'minute' | 'second';
+
+export interface DurationFormatOptions {
+  // Smallest unit shown; the remainder is dropped
+  minUnit?: DurationUnit;
+  // At most this many units, largest first, e.g. 2 -> "3 days, 4 hours"
+  maxUnits?: number;
+}
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const DURATION_UNITS: [DurationUnit, number][] = [
+  ['day', DAY],
+  ['hour', HOUR],
+  ['minute', MINUTE],
+  ['second', SECOND],
+];
+
+/**
+ * Date for `value`, or null when it is empty or not a valid date.
+ */
+export const parseDate = (value: DateInput | null | undefined): Date | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// Numeric months mean little outside the Gregorian calendar, so other calendars spell the month out
+const dateParts = (options: DateFormatOptions): Intl.DateTimeFormatOptions =>
+  !options.calendar || options.calendar === 'gregory'
+    ? { year: 'numeric', month: '2-digit', day: '2-digit' }
+    : { year: 'numeric', month: 'long', day: 'numeric' };
+
+const dateTimeFormat = (language: Language, parts: Intl.DateTimeFormatOptions, options: DateFormatOptions) =>
+  new Intl.DateTimeFormat(getIntlLocale(language), {
+    ...parts,
+    timeZone: options.timeZone,
+    calendar: options.calendar,
+  });
+
+/**
+ * Calendar date, e.g. 14.03.2025 (he), 03/14/2025 (en) or "14 באדר 5785" with the Hebrew calendar.
+ * Invalid or empty values return `fallback`.
+ */
+export const formatDate = (
+  value: DateInput | null | undefined,
+  language: Language,
+  options: DateFormatOptions = {},
+  fallback = '-'
+): string => {
+  const date = parseDate(value);
+  return date ? dateTimeFormat(language, dateParts(options), options).format(date) : fallback;
+};
+
+export const formatDateTime = (
+  value: DateInput | null | undefined,
+  language: Language,
+  options: DateFormatOptions = {},
+  fallback = '-'
+): string => {
+  const date = parseDate(value);
+  if (!date) return fallback;
+  return dateTimeFormat(language, { ...dateParts(options), hour: '2-digit', minute: '2-digit' }, options).format(date);
+};
+
+export const formatTime = (
+  value: DateInput | null | undefined,
+  language: Language,
+  options: DateFormatOptions = {},
+  fallback = '-'
+): string => {
+  const date = parseDate(value);
+  return date ? dateTimeFormat(language, { hour: '2-digit', minute: '2-digit' }, options).format(date) : fallback;
+};
+
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 365 * DAY],
+  ['month', 30 * DAY],
+  ['week', 7 * DAY],
+  ['day', DAY],
+  ['hour', HOUR],
+  ['minute', MINUTE],
+];
+
+/**
+ * "5 minutes ago", "in 2 days", "yesterday". Anything under a minute is "now".
+ */
+export const formatRelativeTime = (
+  value: DateInput | null | undefined,
+  language: Language,
+  now: DateInput = Date.now(),
+  fallback = '-'
+): string => {
+  const date = parseDate(value);
+  const reference = parseDate(now);
+  if (!date || !reference) return fallback;
+
+  const diff = date.getTime() - reference.getTime();
+  const format = new Intl.RelativeTimeFormat(getIntlLocale(language), { numeric: 'auto' });
+  const unit = RELATIVE_UNITS.find(([, size]) => Math.abs(diff) >= size);
+  return unit ? format.format(Math.round(diff / unit[1]), unit[0]) : format.format(0, 'second');
+};
+
+/**
+ * Length of a time span in milliseconds, e.g. "3 days, 4 hours".
+ */
+export const formatDuration = (
+  milliseconds: number,
+  language: Language,
+  { minUnit = 'second', maxUnits = 2 }: DurationFormatOptions = {}
+): string => {
+  const locale = getIntlLocale(language);
+  const units = DURATION_UNITS.slice(0, DURATION_UNITS.findIndex(([unit]) => unit === minUnit) + 1);
+
+  let remaining = Math.abs(milliseconds);
+  const amounts = units.map(([unit, size]) => {
+    const amount = Math.floor(remaining / size);
+    remaining -= amount * size;
+    return [unit, amount] as const;
+  });
+
+  // The `maxUnits` units starting at the largest non-zero one; zero amounts inside that window are skipped
+  const first = amounts.findIndex(([, amount]) => amount > 0);
+  const parts = first === -1
+    ? []
+    : amounts
+        .slice(first, first + maxUnits)
+        .filter(([, amount]) => amount > 0)
+        .map(([unit, amount]) => new Intl.NumberFormat(locale, { style: 'unit', unit, unitDisplay: 'long' }).format(amount));
+
+  if (parts.length === 0) {
+    return new Intl.NumberFormat(locale, { style: 'unit', unit: minUnit, unitDisplay: 'long' }).format(0);
+  }
+  return new Intl.ListFormat(locale, { style: 'long', type: 'unit' }).format(parts);
+};
+
+export const formatNumber = (value: number, language: Language, options: Intl.NumberFormatOptions = {}): string =>
+  new Intl.NumberFormat(getIntlLocale(language), options).format(value);
+
+/**
+ * `value` is in percent points: 12.5 -> "12.5%".
+ */
+export const formatPercent = (value: number, language: Language, options: Intl.NumberFormatOptions = {}): string =>
+  new Intl.NumberFormat(getIntlLocale(language), { style: 'percent', maximumFractionDigits: 1, ...options }).format(
+    value / 100
+  );
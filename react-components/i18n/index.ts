@@ -0,0 +1,25 @@
+export { I18nProvider, useTranslation, useOptionalTranslation, useFormatter } from './I18nProvider';
+export { createTranslator, interpolate, loadBundledMessages, englishMessages } from './translate';
+export type { TranslationKey, Messages, TranslationParams, Translator, MessagesLoader } from './translate';
+export {
+  LOCALES,
+  SUPPORTED_LANGUAGES,
+  isSupportedLanguage,
+  getDirection,
+  isRTL,
+  getIntlLocale,
+  getCalendarOptions,
+  localize,
+} from './locales';
+export type { LocaleInfo, TextDirection } from './locales';
+export {
+  parseDate,
+  formatDate,
+  formatDateTime,
+  formatTime,
+  formatRelativeTime,
+  formatDuration,
+  formatNumber,
+  formatPercent,
+} from './format';
+export type { DateInput, DateFormatOptions, DurationUnit, DurationFormatOptions } from './format';
@@ -0,0 +1,44 @@
+import type { Language, LocalizedText } from '../types';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface LocaleInfo {
+  // Name of the language in the language itself, for language pickers
+  nativeName: string;
+  dir: TextDirection;
+  // BCP 47 tag passed to Intl formatters
+  intlLocale: string;
+  // Calendars offered for date display besides the Gregorian one
+  calendars: readonly string[];
+}
+
+/**
+ * Every locale the components support; `Language` is derived from the keys.
+ * To add one, add an entry here and a matching localization/assets/i18n/<code>.json file.
+ */
+export const LOCALES = {
+  he: { nativeName: 'עברית', dir: 'rtl', intlLocale: 'he-IL', calendars: ['hebrew'] },
+  en: { nativeName: 'English', dir: 'ltr', intlLocale: 'en-US', calendars: [] },
+  ar: { nativeName: 'العربية', dir: 'rtl', intlLocale: 'ar', calendars: ['islamic-umalqura'] },
+} as const satisfies Record<string, LocaleInfo>;
+
+export const SUPPORTED_LANGUAGES = Object.keys(LOCALES) as Language[];
+
+export const isSupportedLanguage = (code: string): code is Language =>
+  Object.prototype.hasOwnProperty.call(LOCALES, code);
+
+export const getDirection = (language: Language): TextDirection => LOCALES[language]?.dir ?? 'ltr';
+
+export const isRTL = (language: Language) => getDirection(language) === 'rtl';
+
+export const getIntlLocale = (language: Language): string => LOCALES[language]?.intlLocale ?? language;
+
+/**
+ * Calendars a date can be shown in for `language`, Gregorian first (e.g. a calendar picker in settings).
+ */
+export const getCalendarOptions = (language: Language): string[] => ['gregory', ...(LOCALES[language]?.calendars ?? [])];
+
+/**
+ * Text for `language` from a locale-keyed map, falling back to English.
+ */
+export const localize = (text: LocalizedText, language: Language): string => text[language] ?? text.en;
@@ -0,0 +1,48 @@
+import en from '../../localization/assets/i18n/en.json';
+
+// en.json is the reference locale: every key must exist there, so it defines the set of valid keys
+export type TranslationKey = keyof typeof en;
+
+export type Messages = Partial<Record<TranslationKey, string>>;
+
+export type TranslationParams = Record<string, string | number>;
+
+export type Translator = (key: TranslationKey, params?: TranslationParams) => string;
+
+// Loads the messages of one language; may return only part of the keys
+export type MessagesLoader = (language: string) => Promise<Messages>;
+
+export const englishMessages: Messages = en;
+
+/**
+ * Replaces `{name}` placeholders, e.g. "Showing {from} to {to} of {total}".
+ * Placeholders without a matching param are left as they are.
+ */
+export const interpolate = (template: string, params?: TranslationParams) =>
+  params
+    ? template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+        name in params ? String(params[name]) : placeholder
+      )
+    : template;
+
+/**
+ * Missing keys fall back to English, then to the key itself.
+ */
+export const createTranslator = (messages: Messages, fallback: Messages = englishMessages): Translator =>
+  (key, params) => interpolate(messages[key] ?? fallback[key] ?? key, params);
+
+/**
+ * Loads the JSON files shipped in localization/assets/i18n. Each non-English file is a separate chunk.
+ */
+export const loadBundledMessages: MessagesLoader = async (language) => {
+  switch (language) {
+    case 'en':
+      return englishMessages;
+    case 'he':
+      return (await import('../../localization/assets/i18n/he.json')).default;
+    case 'ar':
+      return (await import('../../localization/assets/i18n/ar.json')).default;
+    default:
+      return {};
+  }
+};
@@ -1,13 +1,40 @@
-export { LoginPage } from './LoginPage';
+export { LoginPage, StubChallenge, LoginFailedError, getLoginError } from './LoginPage';
+export type {
+  LoginChallenge,
+  LoginStepResult,
+  MfaMethod,
+  LoginError,
+  LoginAttemptOptions,
+  LoginChallengeWidgetProps,
+} from './LoginPage';
+export { ResetPasswordByTokenPage } from './ResetPasswordByTokenPage';
+export type { ResetTokenCheck, ResetTokenProblem } from './ResetPasswordByTokenPage';
+export { LoginCallback } from './LoginCallback';
 export { Layout } from './Layout';
 export { Sidebar } from './Sidebar';
 export { Dashboard } from './Dashboard';
-export { UsersTable } from './UsersTable';
+export { UsersTable, DEFAULT_USERS_TABLE_PERMISSIONS } from './UsersTable';
+export type { UsersTableColumn, UsersTableAction } from './UsersTable';
+export { UserDetailDrawer, USER_DETAIL_TABS, readUserDetailLink, userDetailUrl } from './UserDetailDrawer';
+export type { UserDetailTab, UserDetailLink } from './UserDetailDrawer';
 export { ManagePage } from './ManagePage';
+export { RolesEditor } from './RolesEditor';
 export { APIUIEndpoints } from './APIUIEndpoints';
 export { APIFunctions } from './APIFunctions';
 export * from './types';
 export { ResetPasswordModal } from './ResetPasswordModal';
-export { AddUserModal } from './AddUserModal';
+export { AddUserModal, validateNewUser, createNewUserSchema } from './AddUserModal';
+export { UserImportWizard } from './UserImportWizard';
+export * from './PasswordPolicy';
 export { DeactivateUserModal } from './DeactivateUserModal';
 export { UserActivityHistory } from './UserActivityHistory';
+export { SessionExpiryDialog } from './SessionExpiryDialog';
+export { MfaEnrollment } from './MfaEnrollment';
+export { ProfilePage } from './ProfilePage';
+export * from './api';
+export * from './auth';
+export * from './permissions';
+export * from './i18n';
+export * from './theme';
+export * from './utils/validation';
+export { useFormValidation, useValidationMessage } from './utils/useFormValidation';
@@ -0,0 +1,25 @@
+import type { ReactNode } from 'react';
+import { useCan } from './PermissionsProvider';
+import type { PermissionMatch, PermissionRequirement } from './permissions';
+
+interface CanProps {
+  permission: PermissionRequirement;
+  // With a list of permissions: 'all' (default) or 'any' of them
+  match?: PermissionMatch;
+  // Rendered instead of the children when the permission is missing
+  fallback?: ReactNode;
+  // A function gets the result instead, e.g. to render a disabled control
+  children: ReactNode | ((allowed: boolean) => ReactNode);
+}
+
+/**
+ * Renders its children only when the user has `permission`:
+ *
+ *   <Can permission="users.write"><button>Add</button></Can>
+ *   <Can permission="users.write">{allowed => <button disabled={!allowed}>Add</button>}</Can>
+ */
+export const Can = ({ permission, match, fallback = null, children }: CanProps) => {
+  const allowed = useCan(permission, match);
+  if (typeof children === 'function') return <>{children(allowed)}</>;
+  return <>{allowed ? children : fallback}</>;
+};
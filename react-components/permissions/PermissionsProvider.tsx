@@ -0,0 +1,91 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
+import type { Role, UserInfo } from '../types';
+import { useOvuApi } from '../api';
+import { checkPermissions, resolvePermissions, type PermissionMatch, type PermissionRequirement } from './permissions';
+
+interface PermissionsContextValue {
+  permissions: string[];
+  // False while the roles are loading; everything is denied meanwhile
+  ready: boolean;
+  can: (required: PermissionRequirement, match?: PermissionMatch) => boolean;
+  // Loads GET /roles again, e.g. after it failed and the DEFAULT_ROLE_PERMISSIONS are in use
+  reloadRoles: () => void;
+}
+
+// Without a provider nothing is gated, as before permissions existed
+const ALLOW_ALL: PermissionsContextValue = {
+  permissions: ['*'],
+  ready: true,
+  can: () => true,
+  reloadRoles: () => {},
+};
+
+const PermissionsContext = createContext<PermissionsContextValue | null>(null);
+
+interface PermissionsProviderProps {
+  children: ReactNode;
+  // The signed-in user (/auth/me); null denies everything
+  user: UserInfo | null;
+  // Role definitions; loaded from GET /roles when neither they nor `permissions` are passed
+  roles?: Role[];
+  // The user's effective permissions, when the host already knows them
+  permissions?: string[];
+}
+
+export const PermissionsProvider = ({ children, user, roles, permissions }: PermissionsProviderProps) => {
+  const api = useOvuApi();
+  const needsRoles = !!user && !permissions && !user.permissions && !roles;
+  const userId = user?.id ?? null;
+  // The answer of GET /roles and the user it was loaded for; `roles` is null when it failed
+  const [loadedRoles, setLoadedRoles] = useState<{ userId: number | null; roles: Role[] | null } | null>(null);
+  // Loaded again for another user, so a failure doesn't stick for the rest of the session
+  const rolesResult = loadedRoles?.userId === userId ? loadedRoles : null;
+
+  useEffect(() => {
+    if (!needsRoles || rolesResult) return;
+
+    let cancelled = false;
+    api
+      .listRoles()
+      .then(result => {
+        if (!cancelled) setLoadedRoles({ userId, roles: result });
+      })
+      .catch(err => {
+        // Backends without a roles endpoint fall back to DEFAULT_ROLE_PERMISSIONS
+        console.error('Failed to load roles:', err);
+        if (!cancelled) setLoadedRoles({ userId, roles: null });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [api, needsRoles, rolesResult, userId]);
+
+  const reloadRoles = useCallback(() => setLoadedRoles(null), []);
+
+  const granted = useMemo(
+    () => permissions ?? resolvePermissions(user, roles ?? rolesResult?.roles),
+    [permissions, user, roles, rolesResult]
+  );
+  const ready = !needsRoles || rolesResult !== null;
+
+  const can = useCallback(
+    (required: PermissionRequirement, match?: PermissionMatch) => ready && checkPermissions(granted, required, match),
+    [granted, ready]
+  );
+
+  const value = useMemo<PermissionsContextValue>(
+    () => ({ permissions: granted, ready, can, reloadRoles }),
+    [granted, ready, can, reloadRoles]
+  );
+
+  return <PermissionsContext.Provider value={value}>{children}</PermissionsContext.Provider>;
+};
+
+/**
+ * The current user's permissions. Outside a PermissionsProvider everything is allowed.
+ */
+export const usePermissions = (): PermissionsContextValue => useContext(PermissionsContext) ?? ALLOW_ALL;
+
+export const useCan = (required: PermissionRequirement, match?: PermissionMatch): boolean =>
+  usePermissions().can(required, match);
@@ -0,0 +1,37 @@
+import type { PermissionGroup } from '../types';
+
+// The permissions the AAM backend knows, by category. Permissions a role has that are not listed here
+// still show up in the RolesEditor, under "Other".
+export const DEFAULT_PERMISSION_GROUPS: PermissionGroup[] = [
+  {
+    id: 'users',
+    label: { he: 'משתמשים', en: 'Users', ar: 'المستخدمون' },
+    permissions: [
+      { id: 'users.read', label: { he: 'צפייה במשתמשים', en: 'View users', ar: 'عرض المستخدمين' } },
+      { id: 'users.write', label: { he: 'ניהול משתמשים', en: 'Manage users', ar: 'إدارة المستخدمين' } },
+    ],
+  },
+  {
+    id: 'admins',
+    label: { he: 'מנהלים', en: 'Admins', ar: 'المسؤولون' },
+    permissions: [
+      { id: 'admins.read', label: { he: 'צפייה במנהלים', en: 'View admins', ar: 'عرض المسؤولين' } },
+      { id: 'admins.write', label: { he: 'ניהול מנהלים', en: 'Manage admins', ar: 'إدارة المسؤولين' } },
+    ],
+  },
+  {
+    id: 'roles',
+    label: { he: 'תפקידים והרשאות', en: 'Roles & permissions', ar: 'الأدوار والأذونات' },
+    permissions: [
+      { id: 'roles.read', label: { he: 'צפייה בתפקידים', en: 'View roles', ar: 'عرض الأدوار' } },
+      { id: 'roles.write', label: { he: 'עריכת תפקידים והרשאות', en: 'Edit roles and permissions', ar: 'تعديل الأدوار والأذونات' } },
+    ],
+  },
+  {
+    id: 'system',
+    label: { he: 'מערכת', en: 'System', ar: 'النظام' },
+    permissions: [
+      { id: 'logs.read', label: { he: 'צפייה ביומני מערכת', en: 'View system logs', ar: 'عرض سجلات النظام' } },
+    ],
+  },
+];
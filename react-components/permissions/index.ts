@@ -0,0 +1,12 @@
+export { PermissionsProvider, usePermissions, useCan } from './PermissionsProvider';
+export { Can } from './Can';
+export {
+  DEFAULT_ROLE_PERMISSIONS,
+  hasPermission,
+  checkPermissions,
+  resolvePermissions,
+  filterMenuItems,
+  canAccessPath,
+} from './permissions';
+export { DEFAULT_PERMISSION_GROUPS } from './catalog';
+export type { PermissionRequirement, PermissionMatch } from './permissions';
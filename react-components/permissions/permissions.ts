@@ -0,0 +1,82 @@
+import type { MenuItem, Role, UserInfo } from '../types';
+
+// One permission string, or a list that must all be granted (or any of them, see checkPermissions)
+export type PermissionRequirement = string | readonly string[];
+
+export type PermissionMatch = 'all' | 'any';
+
+// For ULM-style roles that are plain strings without permission lists
+export const DEFAULT_ROLE_PERMISSIONS: Record<string, string[]> = {
+  super_admin: ['*'],
+  admin: ['users.read', 'users.write', 'roles.read'],
+  user: [],
+};
+
+/**
+ * `*` grants everything and `users.*` every permission starting with `users.`.
+ */
+export const hasPermission = (granted: readonly string[], permission: string): boolean =>
+  granted.some(
+    entry => entry === '*' || entry === permission || (entry.endsWith('.*') && permission.startsWith(entry.slice(0, -1)))
+  );
+
+/**
+ * Whether `granted` satisfies `required`. An empty requirement is always satisfied.
+ */
+export const checkPermissions = (
+  granted: readonly string[],
+  required: PermissionRequirement | undefined,
+  match: PermissionMatch = 'all'
+): boolean => {
+  if (!required || required.length === 0) return true;
+  const permissions = typeof required === 'string' ? [required] : required;
+  return match === 'any'
+    ? permissions.some(permission => hasPermission(granted, permission))
+    : permissions.every(permission => hasPermission(granted, permission));
+};
+
+/**
+ * The user's own `permissions` when /auth/me returns them, else those of their role in `roles`,
+ * else DEFAULT_ROLE_PERMISSIONS.
+ */
+export const resolvePermissions = (user: UserInfo | null, roles?: Role[] | null): string[] => {
+  if (!user) return [];
+  if (user.permissions) return user.permissions;
+  const role = roles?.find(item => item.name === user.role);
+  return role ? role.permissions : DEFAULT_ROLE_PERMISSIONS[user.role] ?? [];
+};
+
+/**
+ * Menu items the user may see. A group is hidden when its own permission is missing
+ * or when none of its sub-items are left.
+ */
+export const filterMenuItems = (items: MenuItem[], can: (required: PermissionRequirement) => boolean): MenuItem[] =>
+  items.flatMap(item => {
+    if (item.requiredPermission && !can(item.requiredPermission)) return [];
+    if (!item.subItems || item.subItems.length === 0) return [item];
+    const subItems = filterMenuItems(item.subItems, can);
+    return subItems.length > 0 ? [{ ...item, subItems }] : [];
+  });
+
+/**
+ * Whether the page at `path` may be shown: the item's own permission and those of its parent groups.
+ * Paths that are not in the menu are allowed.
+ */
+export const canAccessPath = (
+  items: MenuItem[],
+  path: string,
+  can: (required: PermissionRequirement) => boolean
+): boolean => {
+  const find = (list: MenuItem[], inherited: PermissionRequirement[]): PermissionRequirement[] | null => {
+    for (const item of list) {
+      const required = item.requiredPermission ? [...inherited, item.requiredPermission] : inherited;
+      if (item.path === path) return required;
+      const found = item.subItems ? find(item.subItems, required) : null;
+      if (found) return found;
+    }
+    return null;
+  };
+
+  const required = find(items, []);
+  return !required || required.every(requirement => can(requirement));
+};
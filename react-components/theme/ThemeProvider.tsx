@@ -0,0 +1,109 @@
+import { createContext, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
+import type { Theme } from '../types';
+import {
+  BUILT_IN_THEMES,
+  themeToCssVariables,
+  withBrand,
+  type BrandColors,
+  type ThemeDefinition,
+} from './tokens';
+
+// 'system' follows prefers-color-scheme (and prefers-contrast: more); any other value names a theme
+export type ThemeMode = 'system' | keyof typeof BUILT_IN_THEMES | (string & {});
+
+interface ThemeContextValue {
+  mode: ThemeMode;
+  // Name of the theme in use after resolving 'system'
+  themeName: string;
+  // For the components' `theme` prop
+  theme: Theme;
+  tokens: ThemeDefinition;
+}
+
+const ThemeContext = createContext<ThemeContextValue | null>(null);
+
+interface ThemeProviderProps {
+  mode: ThemeMode;
+  children: ReactNode;
+  // App accent colours, e.g. BRANDS.ulm or BRANDS.aam
+  brand?: BrandColors;
+  // Extra themes selectable by name through `mode`; may override the built-in ones
+  themes?: Record<string, ThemeDefinition>;
+}
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+const CONTRAST_QUERY = '(prefers-contrast: more)';
+
+const matches = (query: string) => typeof window !== 'undefined' && window.matchMedia?.(query).matches === true;
+
+const systemThemeName = () => {
+  if (matches(CONTRAST_QUERY)) return 'high-contrast';
+  return matches(DARK_QUERY) ? 'dark' : 'light';
+};
+
+const useSystemThemeName = (enabled: boolean) => {
+  const [name, setName] = useState(systemThemeName);
+
+  useEffect(() => {
+    if (!enabled || typeof window === 'undefined' || !window.matchMedia) return;
+
+    const update = () => setName(systemThemeName());
+    const queries = [window.matchMedia(DARK_QUERY), window.matchMedia(CONTRAST_QUERY)];
+    queries.forEach(query => query.addEventListener('change', update));
+    update();
+    return () => queries.forEach(query => query.removeEventListener('change', update));
+  }, [enabled]);
+
+  return name;
+};
+
+/**
+ * Writes the theme's CSS variables and `data-theme` to the document root, so every component
+ * (and the host app's own CSS) picks them up.
+ */
+export const ThemeProvider = ({ mode, children, brand, themes }: ThemeProviderProps) => {
+  const systemName = useSystemThemeName(mode === 'system');
+  const allThemes = useMemo<Record<string, ThemeDefinition>>(() => ({ ...BUILT_IN_THEMES, ...themes }), [themes]);
+
+  const requestedName = mode === 'system' ? systemName : mode;
+  const themeName = requestedName in allThemes ? requestedName : 'light';
+
+  // Once per theme name rather than on every render
+  useEffect(() => {
+    if (themeName !== requestedName) {
+      console.warn(`Unknown theme "${requestedName}", falling back to "light"`);
+    }
+  }, [requestedName, themeName]);
+
+  const tokens = useMemo(() => withBrand(allThemes[themeName], brand), [allThemes, themeName, brand]);
+
+  useEffect(() => {
+    const root = document.documentElement;
+    const variables = themeToCssVariables(tokens);
+
+    root.dataset.theme = tokens.colorScheme;
+    root.dataset.themeName = themeName;
+    root.style.colorScheme = tokens.colorScheme;
+    Object.entries(variables).forEach(([name, value]) => root.style.setProperty(name, value));
+
+    return () => {
+      Object.keys(variables).forEach(name => root.style.removeProperty(name));
+      delete root.dataset.themeName;
+    };
+  }, [tokens, themeName]);
+
+  const value = useMemo<ThemeContextValue>(
+    () => ({ mode, themeName, theme: tokens.colorScheme, tokens }),
+    [mode, themeName, tokens]
+  );
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+};
+
+export const useTheme = (): ThemeContextValue => {
+  const context = useContext(ThemeContext);
+  if (!context) {
+    throw new Error('useTheme must be used within a ThemeProvider');
+  }
+  return context;
+};
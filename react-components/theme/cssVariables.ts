@@ -0,0 +1,49 @@
+import type { ThemeDefinition } from './tokens';
+
+// Maps tokens to the CSS variable names the component stylesheets use.
+// Shared by ThemeProvider and the generated themes.css (tools/tokens/generate-tokens.ts).
+
+export interface TokenScales {
+  spacing: Record<string, string>;
+  radius: Record<string, string>;
+  typography: { fontFamily: string } & Record<string, string>;
+}
+
+export const themeColorVariables = ({ colors, shadows }: ThemeDefinition): Record<string, string> => ({
+  '--bg-main': colors.bgMain,
+  '--bg-card': colors.bgCard,
+  '--bg-input': colors.bgInput,
+  '--bg-hover': colors.bgHover,
+  '--hover-bg': colors.bgHover,
+  '--surface-color': colors.surface,
+  '--header-bg': colors.headerBg,
+  '--text-primary': colors.textPrimary,
+  '--text-secondary': colors.textSecondary,
+  '--text-disabled': colors.textDisabled,
+  '--border-color': colors.border,
+  '--primary-color': colors.primary,
+  '--primary-color-light': colors.primaryLight,
+  '--secondary-color': colors.secondary,
+  '--success-color': colors.success,
+  '--warning-color': colors.warning,
+  '--error-color': colors.error,
+  '--info-color': colors.info,
+  '--shadow-sm': shadows.sm,
+  '--shadow-md': shadows.md,
+  '--shadow-lg': shadows.lg,
+});
+
+// Same for every theme
+export const scaleVariables = ({ spacing, radius, typography }: TokenScales): Record<string, string> => {
+  const variables: Record<string, string> = { '--font-family': typography.fontFamily };
+  Object.entries(spacing).forEach(([name, value]) => {
+    variables[`--spacing-${name}`] = value;
+  });
+  Object.entries(radius).forEach(([name, value]) => {
+    variables[`--radius-${name}`] = value;
+  });
+  Object.entries(typography).forEach(([name, value]) => {
+    if (name !== 'fontFamily') variables[`--font-size-${name}`] = value;
+  });
+  return variables;
+};
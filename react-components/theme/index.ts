@@ -0,0 +1,17 @@
+export { ThemeProvider, useTheme } from './ThemeProvider';
+export type { ThemeMode } from './ThemeProvider';
+export {
+  palette,
+  primarySwatch,
+  spacing,
+  radius,
+  typography,
+  BRANDS,
+  lightTheme,
+  darkTheme,
+  highContrastTheme,
+  BUILT_IN_THEMES,
+  withBrand,
+  themeToCssVariables,
+} from './tokens';
+export type { ThemeColors, ThemeDefinition, BrandColors } from './tokens';
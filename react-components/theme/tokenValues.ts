@@ -0,0 +1,169 @@
+// Generated by tools/tokens/generate-tokens.ts from interface-resources/tokens/tokens.json. Do not edit.
+import type { BrandColors, ThemeDefinition } from './tokens';
+
+export const palette = {
+  primary: '#1976D2',
+  primaryLight: '#63A4FF',
+  primaryDark: '#004BA0',
+  secondary: '#DC004E',
+  secondaryLight: '#FF5983',
+  secondaryDark: '#A00037',
+  success: '#4CAF50',
+  warning: '#FF9800',
+  error: '#F44336',
+  info: '#2196F3',
+  textPrimary: '#212121',
+  textSecondary: '#757575',
+  textDisabled: '#9E9E9E',
+  textHint: '#BDBDBD',
+  background: '#FFFFFF',
+  backgroundDark: '#121212',
+  surface: '#F5F5F5',
+  surfaceDark: '#1E1E1E',
+  divider: '#E0E0E0',
+  dividerDark: '#424242',
+  border: '#E0E0E0',
+  borderDark: '#424242',
+  overlay: '#0000001F',
+  overlayDark: '#FFFFFF1F',
+} as const;
+
+export const primarySwatch = {
+  50: '#E3F2FD',
+  100: '#BBDEFB',
+  200: '#90CAF9',
+  300: '#64B5F6',
+  400: '#42A5F5',
+  500: '#2196F3',
+  600: '#1E88E5',
+  700: '#1976D2',
+  800: '#1565C0',
+  900: '#0D47A1',
+} as const;
+
+export const spacing = {
+  xs: '4px',
+  sm: '8px',
+  md: '16px',
+  lg: '24px',
+  xl: '32px',
+  xxl: '48px',
+} as const;
+
+export const radius = {
+  sm: '4px',
+  md: '8px',
+  lg: '16px',
+  xl: '24px',
+  full: '9999px',
+} as const;
+
+export const typography = {
+  fontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Heebo', 'Noto Sans Arabic', sans-serif",
+  h1: '2.5rem',
+  h2: '2rem',
+  h3: '1.75rem',
+  h4: '1.5rem',
+  h5: '1.25rem',
+  h6: '1.125rem',
+  body1: '1rem',
+  body2: '0.875rem',
+  caption: '0.75rem',
+} as const;
+
+export const BRANDS = {
+  ulm: {
+    primary: '#3b82f6',
+    primaryLight: '#60a5fa',
+  },
+  aam: {
+    primary: '#8b5cf6',
+    primaryLight: '#a78bfa',
+  },
+} as const satisfies Record<string, BrandColors>;
+
+export const BUILT_IN_THEMES = {
+  light: {
+    colorScheme: 'light',
+    colors: {
+      bgMain: '#f8fafc',
+      bgCard: '#fafafa',
+      bgInput: '#ffffff',
+      bgHover: '#f1f5f9',
+      surface: '#f1f5f9',
+      headerBg: '#f8fafc',
+      textPrimary: '#1e293b',
+      textSecondary: '#64748b',
+      textDisabled: '#9E9E9E',
+      border: '#e5e7eb',
+      primary: '#3b82f6',
+      primaryLight: '#60a5fa',
+      secondary: '#DC004E',
+      success: '#4CAF50',
+      warning: '#FF9800',
+      error: '#F44336',
+      info: '#2196F3',
+    },
+    shadows: {
+      sm: '0 2px 8px rgba(15, 23, 42, 0.06)',
+      md: '0 4px 12px rgba(15, 23, 42, 0.08)',
+      lg: '0 8px 24px rgba(15, 23, 42, 0.12)',
+    },
+  },
+  dark: {
+    colorScheme: 'dark',
+    colors: {
+      bgMain: '#0f172a',
+      bgCard: '#1e293b',
+      bgInput: '#0f172a',
+      bgHover: '#334155',
+      surface: '#1e293b',
+      headerBg: '#0f172a',
+      textPrimary: '#f1f5f9',
+      textSecondary: '#cbd5e1',
+      textDisabled: '#64748b',
+      border: '#334155',
+      primary: '#60a5fa',
+      primaryLight: '#93c5fd',
+      secondary: '#DC004E',
+      success: '#4CAF50',
+      warning: '#FF9800',
+      error: '#F44336',
+      info: '#2196F3',
+    },
+    shadows: {
+      sm: '0 2px 8px rgba(0, 0, 0, 0.2)',
+      md: '0 4px 12px rgba(0, 0, 0, 0.3)',
+      lg: '0 8px 24px rgba(0, 0, 0, 0.4)',
+    },
+  },
+  // White text on black with solid white borders so every control stays visible; ignores the app brand
+  'high-contrast': {
+    colorScheme: 'dark',
+    brandable: false,
+    colors: {
+      bgMain: '#000000',
+      bgCard: '#000000',
+      bgInput: '#000000',
+      bgHover: '#1a1a1a',
+      surface: '#000000',
+      headerBg: '#000000',
+      textPrimary: '#ffffff',
+      textSecondary: '#ffffff',
+      textDisabled: '#bdbdbd',
+      border: '#ffffff',
+      primary: '#ffd600',
+      primaryLight: '#ffea00',
+      secondary: '#00e5ff',
+      success: '#69f0ae',
+      warning: '#ffd740',
+      error: '#ff8a80',
+      info: '#80d8ff',
+    },
+    shadows: {
+      sm: 'none',
+      md: 'none',
+      lg: 'none',
+    },
+  },
+} satisfies Record<string, ThemeDefinition>;
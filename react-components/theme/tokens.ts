@@ -0,0 +1,58 @@
+// Design tokens shared with the Flutter apps.
+// The values come from interface-resources/tokens/tokens.json through the generated tokenValues.ts;
+// edit the JSON and run tools/tokens/generate-tokens.ts instead of changing them here.
+import { scaleVariables, themeColorVariables } from './cssVariables';
+import { BUILT_IN_THEMES, radius, spacing, typography } from './tokenValues';
+
+export { palette, primarySwatch, spacing, radius, typography, BRANDS, BUILT_IN_THEMES } from './tokenValues';
+
+// Colours the components read through CSS variables
+export interface ThemeColors {
+  bgMain: string;
+  bgCard: string;
+  bgInput: string;
+  bgHover: string;
+  surface: string;
+  headerBg: string;
+  textPrimary: string;
+  textSecondary: string;
+  textDisabled: string;
+  border: string;
+  primary: string;
+  primaryLight: string;
+  secondary: string;
+  success: string;
+  warning: string;
+  error: string;
+  info: string;
+}
+
+export interface ThemeDefinition {
+  // Which of the components' light/dark styles apply (`data-theme` attribute)
+  colorScheme: 'light' | 'dark';
+  colors: ThemeColors;
+  shadows: { sm: string; md: string; lg: string };
+  // False keeps the theme's own primary colours when a brand is set (e.g. high contrast)
+  brandable?: boolean;
+}
+
+// Accent colours of one app
+export interface BrandColors {
+  primary: string;
+  primaryLight: string;
+}
+
+export const lightTheme: ThemeDefinition = BUILT_IN_THEMES.light;
+export const darkTheme: ThemeDefinition = BUILT_IN_THEMES.dark;
+export const highContrastTheme: ThemeDefinition = BUILT_IN_THEMES['high-contrast'];
+
+export const withBrand = (theme: ThemeDefinition, brand?: BrandColors): ThemeDefinition =>
+  brand && theme.brandable !== false ? { ...theme, colors: { ...theme.colors, ...brand } } : theme;
+
+/**
+ * CSS variables for a theme, by the names the component stylesheets use.
+ */
+export const themeToCssVariables = (theme: ThemeDefinition): Record<string, string> => ({
+  ...themeColorVariables(theme),
+  ...scaleVariables({ spacing, radius, typography }),
+});
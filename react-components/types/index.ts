@@ -1,4 +1,5 @@
 // Common types for OVU applications
+import type { LOCALES } from '../i18n/locales';
 
 export interface UserInfo {
   id: number;
@@ -7,23 +8,151 @@ export interface UserInfo {
   role: string;
   first_name?: string;
   last_name?: string;
+  phone?: string;
   preferred_language?: string;
+  // Effective permissions, when the backend includes them in /auth/me (see PermissionsProvider)
+  permissions?: string[];
 }
 
+export interface User {
+  id: number;
+  username: string;
+  email: string;
+  role: string;
+  phone?: string;
+  status?: string;
+  current_joined_at?: string;
+  scheduled_deactivation_at?: string;
+  created_by_id?: number;
+  created_by_username?: string;
+  must_change_password?: boolean;
+  created_at: string;
+}
+
+export interface ActivityRecord {
+  id: number;
+  joined_at: string;
+  left_at: string | null;
+  scheduled_left_at: string | null;
+  actual_left_at: string | null;
+  action_type: string;
+  performed_by_username: string | null;
+  reason: string | null;
+  duration_days: number | null;
+  is_current: boolean;
+  created_at: string;
+}
+
+// An administrative change to a user, as shown on the Audit tab of the UserDetailDrawer
+export interface AuditLogEntry {
+  id: number;
+  // e.g. 'user.updated', 'password.reset', 'mfa.reset', 'sessions.revoked'
+  action: string;
+  actor_username: string | null;
+  ip_address?: string | null;
+  // Field-level changes, when the action edited the user
+  changes?: { field: string; old_value: string | null; new_value: string | null }[];
+  created_at: string;
+}
+
+// Multi-factor sign-in of a user, as an admin sees it
+export interface UserMfaStatus {
+  enabled: boolean;
+  // e.g. ['totp']
+  methods: string[];
+  enrolled_at?: string | null;
+  backup_codes_remaining?: number | null;
+}
+
+// A signed-in device of a user, as listed on the ProfilePage and the UserDetailDrawer
+export interface UserSession {
+  id: string;
+  // Browser and operating system as the backend reads them from the user agent, e.g. "Chrome on Windows"
+  device?: string | null;
+  ip_address?: string | null;
+  location?: string | null;
+  created_at: string;
+  last_active_at: string;
+  // The session making the request; always false for another user's sessions
+  is_current: boolean;
+}
+
+export interface Role {
+  id: number;
+  name: string;
+  permissions: string[];
+}
+
+export interface PermissionDefinition {
+  // e.g. 'users.write'
+  id: string;
+  label: LocalizedText;
+}
+
+// A category of permissions, shown together in the RolesEditor matrix
+export interface PermissionGroup {
+  id: string;
+  label: LocalizedText;
+  permissions: PermissionDefinition[];
+}
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  // Compared case-insensitively against the whole password
+  bannedPasswords: string[];
+  // Reject passwords that contain the username
+  disallowUsername: boolean;
+}
+
+// An OIDC provider for "Sign in with ..." on LoginPage; see auth/oidc.ts
+export interface IdentityProvider {
+  id: string;
+  label: LocalizedText;
+  // Emoji or short text shown before the label
+  icon?: string;
+  authorizationEndpoint: string;
+  // Only needed by exchangeAuthorizationCode, when the browser redeems the code itself
+  tokenEndpoint?: string;
+  clientId: string;
+  // The route that renders LoginCallback
+  redirectUri: string;
+  // Defaults to 'openid profile email'
+  scope?: string;
+  // Extra query parameters of the authorization request, e.g. { prompt: 'select_account' }
+  extraParams?: Record<string, string>;
+}
+
+// Light or dark styling of a component; see theme/ThemeProvider for custom and high-contrast themes
+export type Theme = 'light' | 'dark';
+
+// One of the locales registered in i18n/locales.ts
+export type Language = keyof typeof LOCALES;
+
+// Text keyed by locale; English is required and used for any locale that is missing
+export type LocalizedText = { en: string } & Partial<Record<Language, string>>;
+
 export interface MenuItem {
   id: string;
-  label: string;
-  labelEn: string;
+  label: LocalizedText;
   icon: string;
   path: string;
   subItems?: MenuItem[];
+  // Hidden from the Sidebar, and the page blocked by Layout, without this permission (all of them for a list)
+  requiredPermission?: string | string[];
 }
 
 export interface StatCardData {
   icon: string;
-  label: string;
-  labelEn: string;
+  label: LocalizedText;
+  // Numbers are formatted for the current language; strings are shown as they are
   value: number | string;
+  // 'percent' treats a numeric value as percent points (12.5 -> 12.5%)
+  valueFormat?: 'number' | 'percent';
+  // Change in percent points
   change?: number;
   color: 'blue' | 'purple' | 'green' | 'orange';
 }
@@ -31,21 +160,17 @@ export interface StatCardData {
 export interface ActivityItem {
   id: string;
   icon: string;
-  message: string;
-  messageEn: string;
+  message: LocalizedText;
+  // ISO timestamp, shown relative to now ("5 minutes ago"); strings that are not dates are shown as they are
   timestamp: string;
 }
 
 export interface QuickAction {
-  label: string;
-  labelEn: string;
+  label: LocalizedText;
   icon: string;
   onClick: () => void;
 }
 
-export type Theme = 'light' | 'dark';
-export type Language = 'he' | 'en';
-
 export interface AppTranslations {
   [key: string]: string | ((param?: any) => string);
 }
@@ -0,0 +1,382 @@
+// Dependency-free CSV and XLSX readers/writers for importing and exporting tabular data
+
+export type SpreadsheetCell = string | number | null | undefined;
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: SpreadsheetCell[][];
+}
+
+const UTF8_BOM = '\uFEFF';
+
+// Cells starting with these are treated as formulas by spreadsheet tools
+const FORMULA_PREFIXES = ['=', '@', '\t', '\r'];
+// A leading + or - only starts a formula when something other than a number follows,
+// so phone numbers such as +972501234567 and negative numbers are exported as they are
+const NUMBER_OR_PHONE = /^[+-]?[\d\s().-]+$/;
+
+const isFormulaLike = (value: string) =>
+  FORMULA_PREFIXES.some(prefix => value.startsWith(prefix)) ||
+  (/^[+-]/.test(value) && !NUMBER_OR_PHONE.test(value));
+
+const escapeCsvCell = (cell: SpreadsheetCell) => {
+  if (cell === null || cell === undefined) return '';
+  let value = String(cell);
+  if (typeof cell === 'string' && isFormulaLike(value)) {
+    value = `'${value}`;
+  }
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * CSV with a UTF-8 BOM so Excel detects the encoding and Hebrew/Arabic text opens correctly.
+ */
+export const toCsv = ({ headers, rows }: SpreadsheetData) => {
+  const lines = [headers, ...rows].map(row => row.map(escapeCsvCell).join(','));
+  return UTF8_BOM + lines.join('\r\n');
+};
+
+// ===== XLSX =====
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+const columnLetter = (index: number) => {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+};
+
+const renderCell = (cell: SpreadsheetCell, ref: string, style: number) => {
+  if (cell === null || cell === undefined || cell === '') return '';
+  if (typeof cell === 'number' && Number.isFinite(cell)) {
+    return `<c r="${ref}" s="${style}"><v>${cell}</v></c>`;
+  }
+  return `<c r="${ref}" s="${style}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(cell))}</t></is></c>`;
+};
+
+const renderSheet = ({ headers, rows }: SpreadsheetData, rtl: boolean) => {
+  const sheetRows = [headers, ...rows].map((row, rowIndex) => {
+    // Style 1 is bold, used for the header row
+    const style = rowIndex === 0 ? 1 : 0;
+    const cells = row.map((cell, colIndex) => renderCell(cell, `${columnLetter(colIndex)}${rowIndex + 1}`, style));
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + `<sheetViews><sheetView workbookViewId="0"${rtl ? ' rightToLeft="1"' : ''}>`
+    + '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    + `<sheetData>${sheetRows.join('')}</sheetData>`
+    + '</worksheet>';
+};
+
+const xlsxParts = (data: SpreadsheetData, sheetName: string, rtl: boolean): Record<string, string> => ({
+  '[Content_Types].xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+    + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+    + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+    + '</Types>',
+  '_rels/.rels': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+    + '</Relationships>',
+  'xl/workbook.xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+    + `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>`
+    + '</workbook>',
+  'xl/_rels/workbook.xml.rels': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+    + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+    + '</Relationships>',
+  'xl/styles.xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+    + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+    + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+    + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+    + '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+    + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>'
+    + '</styleSheet>',
+  'xl/worksheets/sheet1.xml': renderSheet(data, rtl),
+});
+
+// ===== Minimal ZIP (stored, no compression) =====
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const zip = (files: Record<string, string>) => {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name);
+    const data = encoder.encode(content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, nameBytes.length, true);
+    localParts.push(new Uint8Array(local.buffer), nameBytes, data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, nameBytes.length, true);
+    central.setUint32(42, offset, true);
+    centralParts.push(new Uint8Array(central.buffer), nameBytes);
+
+    offset += 30 + nameBytes.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, centralParts.length / 2, true);
+  end.setUint16(10, centralParts.length / 2, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    output.set(part, position);
+    position += part.length;
+  }
+
+  return new Blob([output.buffer], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+};
+
+/**
+ * Single-sheet XLSX workbook. `rtl` flips the sheet direction for Hebrew/Arabic.
+ */
+export const toXlsx = (data: SpreadsheetData, { sheetName = 'Sheet1', rtl = false } = {}) =>
+  zip(xlsxParts(data, sheetName, rtl));
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a tick to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadCsv = (data: SpreadsheetData, filename: string) => {
+  downloadBlob(new Blob([toCsv(data)], { type: 'text/csv;charset=utf-8' }), filename);
+};
+
+export const downloadXlsx = (data: SpreadsheetData, filename: string, options?: { sheetName?: string; rtl?: boolean }) => {
+  downloadBlob(toXlsx(data, options), filename);
+};
+
+// ===== Reading =====
+
+/**
+ * RFC 4180 CSV parser. Handles quoted fields, embedded newlines, a leading BOM,
+ * and semicolon-separated files (as saved by Excel in many locales).
+ */
+export const parseCsv = (text: string): string[][] => {
+  const input = text.startsWith(UTF8_BOM) ? text.slice(1) : text;
+  const firstLine = input.split(/\r?\n/, 1)[0];
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+const unzip = async (buffer: ArrayBuffer): Promise<Record<string, string>> => {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+
+  // The end-of-central-directory record sits in the last 22 bytes (plus an optional comment)
+  let endOffset = buffer.byteLength - 22;
+  while (endOffset >= 0 && view.getUint32(endOffset, true) !== 0x06054b50) endOffset--;
+  if (endOffset < 0) throw new Error('Not a valid XLSX file');
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const files: Record<string, string> = {};
+
+  for (let i = 0; i < entryCount; i++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = new Uint8Array(buffer, dataStart, compressedSize);
+
+    if (name.endsWith('.xml') || name.endsWith('.rels')) {
+      if (method === 0) {
+        files[name] = decoder.decode(data);
+      } else if (method === 8) {
+        const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+        files[name] = await new Response(stream).text();
+      } else {
+        throw new Error(`Unsupported XLSX compression method: ${method}`);
+      }
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return files;
+};
+
+const columnIndex = (cellRef: string) => {
+  const letters = cellRef.replace(/[0-9]/g, '');
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+/**
+ * Reads the first worksheet of an XLSX file as rows of cell text.
+ */
+export const readXlsx = async (blob: Blob): Promise<string[][]> => {
+  const files = await unzip(await blob.arrayBuffer());
+  const parser = new DOMParser();
+  const parse = (name: string) => (files[name] ? parser.parseFromString(files[name], 'application/xml') : null);
+
+  // Resolve the first sheet through the workbook relationships rather than assuming sheet1.xml
+  const firstSheet = parse('xl/workbook.xml')?.getElementsByTagName('sheet')[0];
+  const relationId = firstSheet?.getAttribute('r:id');
+  const relation = Array.from(parse('xl/_rels/workbook.xml.rels')?.getElementsByTagName('Relationship') || [])
+    .find(rel => rel.getAttribute('Id') === relationId);
+  const target = relation?.getAttribute('Target') || 'worksheets/sheet1.xml';
+  const sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+
+  // Workbooks without shared strings (e.g. ones written by toXlsx) have no sharedStrings.xml
+  const sharedStrings = Array.from(parse('xl/sharedStrings.xml')?.getElementsByTagName('si') || []).map(si =>
+    Array.from(si.getElementsByTagName('t'))
+      // Phonetic hints (<rPh>) are not part of the visible text
+      .filter(t => t.parentElement?.tagName !== 'rPh')
+      .map(t => t.textContent || '')
+      .join('')
+  );
+
+  const sheet = parse(sheetPath);
+  if (!sheet) throw new Error('XLSX file has no worksheet');
+
+  const rows = Array.from(sheet.getElementsByTagName('row')).map(rowElement => {
+    const cells: string[] = [];
+    Array.from(rowElement.getElementsByTagName('c')).forEach((cellElement, position) => {
+      const ref = cellElement.getAttribute('r');
+      const index = ref ? columnIndex(ref) : position;
+      const type = cellElement.getAttribute('t');
+      const value = cellElement.getElementsByTagName('v')[0]?.textContent ?? '';
+
+      if (type === 's') {
+        cells[index] = sharedStrings[Number(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        cells[index] = Array.from(cellElement.getElementsByTagName('t')).map(t => t.textContent || '').join('');
+      } else {
+        cells[index] = value;
+      }
+    });
+    return Array.from(cells, cell => cell ?? '');
+  });
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+/**
+ * Reads an uploaded .csv or .xlsx file; the first row is taken as the header row.
+ */
+export const readSpreadsheetFile = async (file: File): Promise<SpreadsheetData> => {
+  const isXlsx = /\.xlsx$/i.test(file.name);
+  const [headers = [], ...rows] = isXlsx ? await readXlsx(file) : parseCsv(await file.text());
+  return { headers: headers.map(header => header.trim()), rows };
+};
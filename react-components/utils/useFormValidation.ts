@@ -0,0 +1,95 @@
+import { useState, useRef } from 'react';
+import type { Language } from '../types';
+import { createTranslator, englishMessages, useOptionalTranslation } from '../i18n';
+import {
+  validateFieldAsync,
+  validateSchemaAsync,
+  type FormValues,
+  type ValidationMessageKey,
+  type ValidationSchema,
+} from './validation';
+
+const englishTranslator = createTranslator(englishMessages);
+
+/**
+ * Text of a validation error, from the locale files through the enclosing I18nProvider.
+ * Without a provider, or when it is set to another language than `language`, the messages are in English.
+ */
+export const useValidationMessage = (language: Language) => {
+  const i18n = useOptionalTranslation();
+  const translate = i18n && i18n.language === language ? i18n.t : englishTranslator;
+  return (key: ValidationMessageKey) => translate(key);
+};
+
+/**
+ * Per-field errors for a form driven by a ValidationSchema.
+ * Errors are kept as display strings so server messages (from getApiFormErrors) can share the same slots.
+ */
+export const useFormValidation = <V extends FormValues>(schema: ValidationSchema<V>, language: Language) => {
+  type Field = keyof V & string;
+
+  const getMessage = useValidationMessage(language);
+
+  const [errors, setErrors] = useState<Partial<Record<Field, string>>>({});
+  const [validating, setValidating] = useState<Partial<Record<Field, boolean>>>({});
+  // Latest check per field, so a slow uniqueness lookup cannot overwrite a newer result
+  const checkIds = useRef<Partial<Record<Field, number>>>({});
+
+  const setFieldError = (field: Field, message: string | null) => {
+    setErrors(prev => {
+      const next = { ...prev };
+      if (message) {
+        next[field] = message;
+      } else {
+        delete next[field];
+      }
+      return next;
+    });
+  };
+
+  // Typically called on blur
+  const validateField = async (field: Field, values: V) => {
+    const checkId = (checkIds.current[field] || 0) + 1;
+    checkIds.current[field] = checkId;
+
+    setValidating(prev => ({ ...prev, [field]: true }));
+    const error = await validateFieldAsync(schema, field, values);
+    if (checkIds.current[field] !== checkId) return !error;
+
+    setValidating(prev => ({ ...prev, [field]: false }));
+    setFieldError(field, error && getMessage(error));
+    return !error;
+  };
+
+  // Validates every field in the schema; resolves to true when the form can be submitted
+  const validateForm = async (values: V) => {
+    const fieldErrors = await validateSchemaAsync(schema, values);
+    const messages: Partial<Record<Field, string>> = {};
+    (Object.keys(fieldErrors) as Field[]).forEach(field => {
+      messages[field] = getMessage(fieldErrors[field]!);
+    });
+    setErrors(messages);
+    return Object.keys(messages).length === 0;
+  };
+
+  // Call when the value changes; also discards any check still running for the old value
+  const clearError = (field: Field) => {
+    checkIds.current[field] = (checkIds.current[field] || 0) + 1;
+    setValidating(prev => ({ ...prev, [field]: false }));
+    setFieldError(field, null);
+  };
+
+  // Attach server-side messages to fields
+  const setServerErrors = (serverErrors: Partial<Record<Field, string>>) => {
+    setErrors(prev => ({ ...prev, ...serverErrors }));
+  };
+
+  return {
+    errors,
+    validating,
+    validateField,
+    validateForm,
+    clearError,
+    setServerErrors,
+  };
+};
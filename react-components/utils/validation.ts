@@ -0,0 +1,131 @@
+// Schema-based form validation shared by the user modals and the import wizard.
+// Validators return a key of localization/assets/i18n/*.json (see useValidationMessage) or null when the value is valid.
+
+export type ValidationMessageKey =
+  | 'required'
+  | 'invalid_email'
+  | 'password_too_short'
+  | 'password_needs_uppercase'
+  | 'password_needs_lowercase'
+  | 'password_needs_digit'
+  | 'password_needs_symbol'
+  | 'password_too_common'
+  | 'password_contains_username'
+  | 'passwords_do_not_match'
+  | 'invalid_phone'
+  | 'username_taken'
+  | 'email_taken';
+
+export type FormValues = Record<string, string>;
+
+export type Validator<V extends FormValues = FormValues> = (value: string, values: V) => ValidationMessageKey | null;
+
+export type AsyncValidator<V extends FormValues = FormValues> = (
+  value: string,
+  values: V
+) => Promise<ValidationMessageKey | null>;
+
+export interface FieldRules<V extends FormValues = FormValues> {
+  validators?: Validator<V>[];
+  // Run only once the synchronous validators pass, e.g. uniqueness checks against the API
+  asyncValidators?: AsyncValidator<V>[];
+}
+
+export type ValidationSchema<V extends FormValues = FormValues> = Partial<Record<keyof V & string, FieldRules<V>>>;
+
+export type ValidationErrors<V extends FormValues = FormValues> = Partial<Record<keyof V & string, ValidationMessageKey>>;
+
+// ===== Validators =====
+
+export const required: Validator = (value) => (value.trim() ? null : 'required');
+
+export const email: Validator = (value) =>
+  !value || /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value.trim()) ? null : 'invalid_email';
+
+export const minLength = (min: number): Validator => (value) =>
+  !value || value.length >= min ? null : 'password_too_short';
+
+/**
+ * International numbers (+972 50-123-4567, +1 (555) 123-4567) and local numbers (050-1234567).
+ * Spaces, dashes, dots and parentheses are ignored; E.164 allows at most 15 digits.
+ */
+export const phone: Validator = (value) => {
+  if (!value.trim()) return null;
+  const normalized = value.replace(/[\s\-.()]/g, '');
+  if (normalized.startsWith('+')) {
+    return /^\+[1-9]\d{6,14}$/.test(normalized) ? null : 'invalid_phone';
+  }
+  return /^\d{7,15}$/.test(normalized) ? null : 'invalid_phone';
+};
+
+export const matchesField = <V extends FormValues>(field: keyof V & string): Validator<V> => (value, values) =>
+  value === values[field] ? null : 'passwords_do_not_match';
+
+/**
+ * Async validator that fails with `key` when `isTaken` resolves to true.
+ * Lookup failures and an unknown answer (null) are ignored; the server still enforces uniqueness on save.
+ */
+export const unique = (
+  isTaken: (value: string) => Promise<boolean | null>,
+  key: ValidationMessageKey
+): AsyncValidator => async (value) => {
+  if (!value.trim()) return null;
+  try {
+    return (await isTaken(value.trim())) ? key : null;
+  } catch {
+    return null;
+  }
+};
+
+// ===== Running a schema =====
+
+export const validateField = <V extends FormValues>(
+  schema: ValidationSchema<V>,
+  field: keyof V & string,
+  values: V
+): ValidationMessageKey | null => {
+  for (const validator of schema[field]?.validators || []) {
+    const error = validator(values[field] ?? '', values);
+    if (error) return error;
+  }
+  return null;
+};
+
+export const validateFieldAsync = async <V extends FormValues>(
+  schema: ValidationSchema<V>,
+  field: keyof V & string,
+  values: V
+): Promise<ValidationMessageKey | null> => {
+  const error = validateField(schema, field, values);
+  if (error) return error;
+
+  for (const validator of schema[field]?.asyncValidators || []) {
+    const asyncError = await validator(values[field] ?? '', values);
+    if (asyncError) return asyncError;
+  }
+  return null;
+};
+
+export const validateSchema = <V extends FormValues>(schema: ValidationSchema<V>, values: V): ValidationErrors<V> => {
+  const errors: ValidationErrors<V> = {};
+  (Object.keys(schema) as (keyof V & string)[]).forEach(field => {
+    const error = validateField(schema, field, values);
+    if (error) errors[field] = error;
+  });
+  return errors;
+};
+
+export const validateSchemaAsync = async <V extends FormValues>(
+  schema: ValidationSchema<V>,
+  values: V
+): Promise<ValidationErrors<V>> => {
+  const fields = Object.keys(schema) as (keyof V & string)[];
+  const results = await Promise.all(fields.map(field => validateFieldAsync(schema, field, values)));
+
+  const errors: ValidationErrors<V> = {};
+  fields.forEach((field, index) => {
+    const error = results[index];
+    if (error) errors[field] = error;
+  });
+  return errors;
+};
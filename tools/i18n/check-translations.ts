@@ -0,0 +1,237 @@
+/**
+ * Checks localization/assets/i18n/*.json against each other and against the keys the components use.
+ *
+ *   npx tsx tools/i18n/check-translations.ts [--root <repo>] [--json <file|->] [--strict]
+ *
+ * Errors (exit code 1): keys missing from a locale file, mismatched `{param}` placeholders.
+ * Warnings (exit code 1 only with --strict): unused keys, values identical to English.
+ * Inline `{ he, en, ar }` tables in the components get the same checks.
+ */
+import { readdirSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import {
+  extractFromComponents,
+  extractFromDart,
+  readLocaleFile,
+  type InlineTable,
+  type KeyReference,
+  type Message,
+} from './extract';
+
+const REFERENCE_LOCALE = 'en';
+
+export interface PlaceholderMismatch {
+  locale: string;
+  key: string;
+  expected: string[];
+  actual: string[];
+}
+
+export interface LocaleDiff {
+  // locale -> keys used by the code or present in the reference locale, but missing from the locale
+  missing: Record<string, string[]>;
+  // Keys present in any of the locales, but not used by the code (locale files only)
+  unused: string[];
+  // locale -> keys whose value is identical to English
+  untranslated: Record<string, string[]>;
+  placeholderMismatches: PlaceholderMismatch[];
+}
+
+export interface InlineTableReport extends LocaleDiff {
+  file: string;
+  line: number;
+  name: string;
+}
+
+export interface TranslationReport {
+  referenceLocale: string;
+  locales: string[];
+  usedKeys: { react: number; flutter: number };
+  // Every inline table found, including the ones without problems
+  inlineTableCount: number;
+  localeFiles: LocaleDiff;
+  inlineTables: InlineTableReport[];
+  summary: { errors: number; warnings: number };
+}
+
+const sorted = (keys: Iterable<string>) => [...keys].sort();
+
+const sameParams = (a: string[], b: string[]) => {
+  const left = sorted(new Set(a));
+  const right = sorted(new Set(b));
+  return left.length === right.length && left.every((param, index) => param === right[index]);
+};
+
+// Values without letters ("—", "-", "%") read the same in every language
+const isUntranslated = (message: Message, english: Message) =>
+  message.text.trim() === english.text.trim() && /\p{L}/u.test(english.text);
+
+const diffMessages = (
+  messages: Record<string, Record<string, Message>>,
+  locales: string[],
+  usedKeys: Set<string> | null
+): LocaleDiff => {
+  const english = messages[REFERENCE_LOCALE] ?? {};
+  const expectedKeys = new Set([...Object.keys(english), ...(usedKeys ?? [])]);
+  const diff: LocaleDiff = { missing: {}, unused: [], untranslated: {}, placeholderMismatches: [] };
+  const unused = new Set<string>();
+
+  locales.forEach(locale => {
+    const localeMessages = messages[locale] ?? {};
+    const missing = sorted([...expectedKeys].filter(key => !(key in localeMessages)));
+    if (missing.length > 0) diff.missing[locale] = missing;
+
+    if (usedKeys) {
+      Object.keys(localeMessages).filter(key => !usedKeys.has(key)).forEach(key => unused.add(key));
+    }
+
+    if (locale === REFERENCE_LOCALE) return;
+
+    const untranslated: string[] = [];
+    Object.entries(localeMessages).forEach(([key, message]) => {
+      const reference = english[key];
+      if (!reference) return;
+      if (isUntranslated(message, reference)) untranslated.push(key);
+      if (!sameParams(message.params, reference.params)) {
+        diff.placeholderMismatches.push({ locale, key, expected: reference.params, actual: message.params });
+      }
+    });
+    if (untranslated.length > 0) diff.untranslated[locale] = sorted(untranslated);
+  });
+
+  diff.unused = sorted(unused);
+  return diff;
+};
+
+const countEntries = (record: Record<string, string[]>) =>
+  Object.values(record).reduce((total, keys) => total + keys.length, 0);
+
+const errorCount = (diff: LocaleDiff) => countEntries(diff.missing) + diff.placeholderMismatches.length;
+
+const warningCount = (diff: LocaleDiff) => diff.unused.length + countEntries(diff.untranslated);
+
+export const checkTranslations = (root: string): TranslationReport => {
+  const localesDir = join(root, 'localization/assets/i18n');
+  const locales = readdirSync(localesDir)
+    .filter(entry => entry.endsWith('.json'))
+    .map(entry => entry.replace(/\.json$/, ''))
+    .sort();
+
+  const messages: Record<string, Record<string, Message>> = {};
+  locales.forEach(locale => {
+    messages[locale] = readLocaleFile(join(localesDir, `${locale}.json`));
+  });
+
+  const { keys: reactKeys, inlineTables } = extractFromComponents(join(root, 'react-components'), locales);
+  const flutterKeys = extractFromDart(join(root, 'localization/lib'));
+  const keySet = (references: KeyReference[]) => new Set(references.map(reference => reference.key));
+  const usedKeys = new Set([...keySet(reactKeys), ...keySet(flutterKeys)]);
+
+  const localeFiles = diffMessages(messages, locales, usedKeys);
+  const inlineReports = inlineTables
+    .map((table: InlineTable): InlineTableReport => ({
+      file: table.file,
+      line: table.line,
+      name: table.name,
+      ...diffMessages(table.messages, locales, null),
+    }))
+    .filter(report => errorCount(report) + warningCount(report) > 0);
+
+  return {
+    referenceLocale: REFERENCE_LOCALE,
+    locales,
+    usedKeys: { react: keySet(reactKeys).size, flutter: keySet(flutterKeys).size },
+    localeFiles,
+    inlineTableCount: inlineTables.length,
+    inlineTables: inlineReports,
+    summary: {
+      errors: errorCount(localeFiles) + inlineReports.reduce((total, report) => total + errorCount(report), 0),
+      warnings: warningCount(localeFiles) + inlineReports.reduce((total, report) => total + warningCount(report), 0),
+    },
+  };
+};
+
+// ===== Human-readable report =====
+
+const formatParams = (params: string[]) => (params.length > 0 ? params.map(param => `{${param}}`).join(', ') : 'none');
+
+const formatDiff = (diff: LocaleDiff, locales: string[], indent: string, fileOf: (locale: string) => string) => {
+  const lines: string[] = [];
+  locales.forEach(locale => {
+    const sections: [string, string[] | undefined][] = [
+      ['missing', diff.missing[locale]],
+      ['untranslated', diff.untranslated[locale]],
+    ];
+    const mismatches = diff.placeholderMismatches.filter(mismatch => mismatch.locale === locale);
+    if (sections.every(([, keys]) => !keys) && mismatches.length === 0) return;
+
+    lines.push(`${indent}${fileOf(locale)}`);
+    sections.forEach(([label, keys]) => {
+      if (keys) lines.push(`${indent}  ${label} (${keys.length}): ${keys.join(', ')}`);
+    });
+    mismatches.forEach(mismatch => {
+      lines.push(
+        `${indent}  placeholders of ${mismatch.key}: expected ${formatParams(mismatch.expected)}, found ${formatParams(mismatch.actual)}`
+      );
+    });
+  });
+  if (diff.unused.length > 0) lines.push(`${indent}unused (${diff.unused.length}): ${diff.unused.join(', ')}`);
+  return lines;
+};
+
+export const formatReport = (report: TranslationReport): string => {
+  const lines = [
+    `Locale files (reference: ${report.referenceLocale}.json; keys used by React: ${report.usedKeys.react}, by Flutter: ${report.usedKeys.flutter})`,
+  ];
+  const fileLines = formatDiff(report.localeFiles, report.locales, '  ', locale => `${locale}.json`);
+  lines.push(...(fileLines.length > 0 ? fileLines : ['  OK']));
+
+  lines.push('', `Inline translations in components (${report.inlineTableCount} tables)`);
+  if (report.inlineTables.length === 0) lines.push('  OK');
+  report.inlineTables.forEach(table => {
+    lines.push(`  ${table.file}:${table.line} (${table.name})`);
+    lines.push(...formatDiff(table, report.locales, '    ', locale => locale));
+  });
+
+  lines.push('', `${report.summary.errors} error(s), ${report.summary.warnings} warning(s)`);
+  return lines.join('\n');
+};
+
+// ===== CLI =====
+
+const parseArgs = (argv: string[]) => {
+  const options = { root: process.cwd(), json: null as string | null, strict: false };
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--root':
+        options.root = resolve(argv[++i]);
+        break;
+      case '--json':
+        options.json = argv[++i];
+        break;
+      case '--strict':
+        options.strict = true;
+        break;
+      default:
+        throw new Error(`Unknown option: ${argv[i]}`);
+    }
+  }
+  return options;
+};
+
+const main = () => {
+  const options = parseArgs(process.argv.slice(2));
+  const report = checkTranslations(options.root);
+
+  if (options.json === '-') {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    if (options.json) writeFileSync(options.json, `${JSON.stringify(report, null, 2)}\n`);
+    console.log(formatReport(report));
+  }
+
+  const failed = report.summary.errors > 0 || (options.strict && report.summary.warnings > 0);
+  process.exitCode = failed ? 1 : 0;
+};
+
+main();
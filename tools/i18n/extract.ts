@@ -0,0 +1,192 @@
+import { readFileSync, readdirSync, statSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import * as ts from 'typescript';
+
+// Collects translation keys and inline translation tables from the React components,
+// and the keys the Flutter side reads through AppLocalizations.translate().
+
+export interface KeyReference {
+  key: string;
+  file: string;
+  line: number;
+}
+
+export interface Message {
+  text: string;
+  // `{name}` in JSON files; `${expression}` in template literals
+  params: string[];
+}
+
+// A `{ he: ..., en: ..., ar: ... }` object literal written inside a component
+export interface InlineTable {
+  file: string;
+  line: number;
+  // Variable or property the table is assigned to
+  name: string;
+  // locale -> dotted key path ('' for a single localized string) -> message
+  messages: Record<string, Record<string, Message>>;
+}
+
+// Functions whose first string argument is a key of localization/assets/i18n/*.json
+const TRANSLATE_FUNCTIONS = new Set(['t', 'translate']);
+
+// String literal unions whose members are keys of the locale files
+const KEY_TYPES = new Set(['ValidationMessageKey']);
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx'];
+
+export const listSourceFiles = (dir: string): string[] =>
+  readdirSync(dir).flatMap(entry => {
+    const path = join(dir, entry);
+    if (statSync(path).isDirectory()) {
+      return entry === 'node_modules' ? [] : listSourceFiles(path);
+    }
+    return SOURCE_EXTENSIONS.some(ext => entry.endsWith(ext)) && !entry.endsWith('.d.ts') ? [path] : [];
+  });
+
+const lineOf = (sourceFile: ts.SourceFile, node: ts.Node) =>
+  sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+
+const propertyName = (name: ts.PropertyName): string | null =>
+  ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name) ? name.text : null;
+
+const templateMessage = (template: ts.TemplateExpression, sourceFile: ts.SourceFile): Message => {
+  const params = template.templateSpans.map(span => span.expression.getText(sourceFile));
+  const text = template.templateSpans.reduce(
+    (result, span, index) => `${result}{${params[index]}}${span.literal.text}`,
+    template.head.text
+  );
+  return { text, params };
+};
+
+// Flattens one locale's value into dotted key paths; non-literal values are left out
+const collectMessages = (
+  node: ts.Expression,
+  path: string,
+  sourceFile: ts.SourceFile,
+  messages: Record<string, Message>
+) => {
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    messages[path] = { text: node.text, params: [] };
+  } else if (ts.isTemplateExpression(node)) {
+    messages[path] = templateMessage(node, sourceFile);
+  } else if (ts.isArrowFunction(node) && !ts.isBlock(node.body)) {
+    collectMessages(node.body, path, sourceFile, messages);
+  } else if (ts.isParenthesizedExpression(node)) {
+    collectMessages(node.expression, path, sourceFile, messages);
+  } else if (ts.isArrayLiteralExpression(node)) {
+    node.elements.forEach((element, index) => collectMessages(element, `${path}[${index}]`, sourceFile, messages));
+  } else if (ts.isObjectLiteralExpression(node)) {
+    node.properties.forEach(property => {
+      if (!ts.isPropertyAssignment(property)) return;
+      const name = propertyName(property.name);
+      if (name !== null) collectMessages(property.initializer, path ? `${path}.${name}` : name, sourceFile, messages);
+    });
+  }
+};
+
+const tableName = (node: ts.Node, sourceFile: ts.SourceFile): string => {
+  const parent = node.parent;
+  if (parent && (ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent))) {
+    return parent.name.getText(sourceFile);
+  }
+  return '(anonymous)';
+};
+
+// An object literal is a translation table when every property is a locale and one of them is English
+const asInlineTable = (
+  node: ts.ObjectLiteralExpression,
+  locales: string[],
+  sourceFile: ts.SourceFile,
+  file: string
+): InlineTable | null => {
+  const entries = node.properties.map(property =>
+    ts.isPropertyAssignment(property) ? [propertyName(property.name), property.initializer] as const : null
+  );
+  if (entries.length < 2 || entries.some(entry => !entry || entry[0] === null || !locales.includes(entry[0]))) {
+    return null;
+  }
+  if (!entries.some(entry => entry![0] === 'en')) return null;
+
+  const messages: InlineTable['messages'] = {};
+  entries.forEach(entry => {
+    const [locale, initializer] = entry!;
+    messages[locale!] = {};
+    collectMessages(initializer, '', sourceFile, messages[locale!]);
+  });
+  return { file, line: lineOf(sourceFile, node), name: tableName(node, sourceFile), messages };
+};
+
+export interface ComponentExtraction {
+  keys: KeyReference[];
+  inlineTables: InlineTable[];
+}
+
+export const extractFromComponents = (componentsDir: string, locales: string[]): ComponentExtraction => {
+  const keys: KeyReference[] = [];
+  const inlineTables: InlineTable[] = [];
+
+  listSourceFiles(componentsDir).forEach(path => {
+    const file = relative(componentsDir, path);
+    const sourceFile = ts.createSourceFile(path, readFileSync(path, 'utf8'), ts.ScriptTarget.Latest, true);
+
+    const visit = (node: ts.Node) => {
+      if (
+        ts.isCallExpression(node) &&
+        ts.isIdentifier(node.expression) &&
+        TRANSLATE_FUNCTIONS.has(node.expression.text) &&
+        node.arguments.length > 0 &&
+        ts.isStringLiteralLike(node.arguments[0])
+      ) {
+        keys.push({ key: node.arguments[0].text, file, line: lineOf(sourceFile, node) });
+      }
+
+      if (ts.isTypeAliasDeclaration(node) && KEY_TYPES.has(node.name.text) && ts.isUnionTypeNode(node.type)) {
+        node.type.types.forEach(member => {
+          if (ts.isLiteralTypeNode(member) && ts.isStringLiteral(member.literal)) {
+            keys.push({ key: member.literal.text, file, line: lineOf(sourceFile, member) });
+          }
+        });
+      }
+
+      if (ts.isObjectLiteralExpression(node)) {
+        const table = asInlineTable(node, locales, sourceFile, file);
+        if (table) {
+          inlineTables.push(table);
+          // Nested objects belong to this table
+          return;
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+  });
+
+  return { keys, inlineTables };
+};
+
+/**
+ * Keys read through `translate('key')` in the Flutter localization library.
+ */
+export const extractFromDart = (dartDir: string): KeyReference[] =>
+  readdirSync(dartDir)
+    .filter(entry => entry.endsWith('.dart'))
+    .flatMap(entry => {
+      const lines = readFileSync(join(dartDir, entry), 'utf8').split('\n');
+      return lines.flatMap((text, index) =>
+        [...text.matchAll(/translate\('([^']+)'\)/g)].map(match => ({ key: match[1], file: entry, line: index + 1 }))
+      );
+    });
+
+const JSON_PARAM = /\{(\w+)\}/g;
+
+export const readLocaleFile = (path: string): Record<string, Message> => {
+  const values = JSON.parse(readFileSync(path, 'utf8')) as Record<string, string>;
+  const messages: Record<string, Message> = {};
+  Object.entries(values).forEach(([key, text]) => {
+    messages[key] = { text, params: [...text.matchAll(JSON_PARAM)].map(match => match[1]) };
+  });
+  return messages;
+};
@@ -0,0 +1,346 @@
+/**
+ * Runs the OIDC helpers of react-components/auth/oidc.ts against a mock provider on 127.0.0.1:
+ *
+ *   npx tsx tools/oidc/check-oidc-flow.ts
+ *
+ * The mock provider implements the authorization endpoint (answering in the query or, with
+ * response_mode=fragment, in the fragment) and a token endpoint that verifies the PKCE code_verifier
+ * and puts the request's nonce into an unsigned ID token. Each check prints ✓ or ✗; the exit code is 1
+ * when any check fails.
+ */
+import { createHash } from 'node:crypto';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  OIDC_STORAGE_PREFIX,
+  createAuthorizationRequest,
+  exchangeAuthorizationCode,
+  parseOidcCallback,
+  stripOidcCallbackParams,
+  type OidcCallbackResult,
+  type OidcCallbackSuccess,
+} from '../../react-components/auth/oidc';
+import type { IdentityProvider } from '../../react-components/types';
+
+const CLIENT_ID = 'ovu-web';
+
+// Longer than the 10 minutes oidc.ts allows between the redirect and the callback
+const EXPIRED_AFTER_MS = 11 * 60 * 1000;
+
+// sessionStorage stand-in; oidc.ts only needs the Storage interface
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length() {
+    return this.items.size;
+  }
+
+  clear() {
+    this.items.clear();
+  }
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number) {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, String(value));
+  }
+}
+
+// ===== Mock provider =====
+
+interface IssuedCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string;
+}
+
+interface MockProvider {
+  baseUrl: string;
+  // Makes the token endpoint answer with this nonce instead of the one the code was issued for
+  overrideNonce: string | null;
+  close: () => Promise<void>;
+}
+
+const base64Url = (data: Buffer | string) => Buffer.from(data).toString('base64url');
+
+const unsignedJwt = (claims: Record<string, unknown>) =>
+  `${base64Url(JSON.stringify({ alg: 'none', typ: 'JWT' }))}.${base64Url(JSON.stringify(claims))}.`;
+
+const readBody = (request: IncomingMessage) =>
+  new Promise<string>((resolve, reject) => {
+    let body = '';
+    request.setEncoding('utf8');
+    request.on('data', chunk => (body += chunk));
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+
+const sendJson = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+};
+
+// Sends the answer back to redirect_uri, in the fragment when the client asked for response_mode=fragment
+const redirectBack = (response: ServerResponse, redirectUri: string, answer: Record<string, string>, fragment: boolean) => {
+  const location = new URL(redirectUri);
+  if (fragment) {
+    location.hash = new URLSearchParams(answer).toString();
+  } else {
+    Object.entries(answer).forEach(([name, value]) => location.searchParams.set(name, value));
+  }
+  response.writeHead(302, { Location: location.toString() });
+  response.end();
+};
+
+const startMockProvider = async (): Promise<MockProvider> => {
+  const codes = new Map<string, IssuedCode>();
+  let nextCode = 1;
+
+  const provider: MockProvider = { baseUrl: '', overrideNonce: null, close: async () => {} };
+
+  const server = createServer(async (request, response) => {
+    const url = new URL(request.url ?? '/', provider.baseUrl);
+
+    if (request.method === 'GET' && url.pathname === '/authorize') {
+      const query = Object.fromEntries(url.searchParams);
+      const redirectUri = query.redirect_uri;
+      if (!redirectUri || query.client_id !== CLIENT_ID) {
+        sendJson(response, 400, { error: 'invalid_request' });
+        return;
+      }
+
+      const fragment = query.response_mode === 'fragment';
+      // Lets a check play a user who cancels at the provider
+      if (query.mock_error) {
+        redirectBack(response, redirectUri, { error: query.mock_error, error_description: 'Denied by the mock provider', state: query.state }, fragment);
+        return;
+      }
+      if (query.response_type !== 'code' || query.code_challenge_method !== 'S256' || !query.code_challenge || !query.state || !query.nonce) {
+        redirectBack(response, redirectUri, { error: 'invalid_request', state: query.state ?? '' }, fragment);
+        return;
+      }
+
+      const code = `code-${nextCode++}`;
+      codes.set(code, { clientId: query.client_id, redirectUri, codeChallenge: query.code_challenge, nonce: query.nonce });
+      redirectBack(response, redirectUri, { code, state: query.state }, fragment);
+      return;
+    }
+
+    if (request.method === 'POST' && url.pathname === '/token') {
+      const form = new URLSearchParams(await readBody(request));
+      const code = form.get('code') ?? '';
+      const issued = codes.get(code);
+      // Codes work once, like at a real provider
+      codes.delete(code);
+
+      if (
+        form.get('grant_type') !== 'authorization_code' ||
+        !issued ||
+        form.get('client_id') !== issued.clientId ||
+        form.get('redirect_uri') !== issued.redirectUri
+      ) {
+        sendJson(response, 400, { error: 'invalid_grant', error_description: 'Unknown or already used code' });
+        return;
+      }
+
+      const challenge = base64Url(createHash('sha256').update(form.get('code_verifier') ?? '').digest());
+      if (challenge !== issued.codeChallenge) {
+        sendJson(response, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+        return;
+      }
+
+      sendJson(response, 200, {
+        access_token: `access-${code}`,
+        token_type: 'Bearer',
+        expires_in: 3600,
+        id_token: unsignedJwt({ iss: provider.baseUrl, aud: CLIENT_ID, sub: 'mock-user', nonce: provider.overrideNonce ?? issued.nonce }),
+      });
+      return;
+    }
+
+    sendJson(response, 404, { error: 'not_found' });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  provider.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  provider.close = () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+  return provider;
+};
+
+// ===== Checks =====
+
+const makeProvider = (mock: MockProvider, overrides: Partial<IdentityProvider> = {}): IdentityProvider => ({
+  id: 'mock',
+  label: { en: 'Mock provider' },
+  authorizationEndpoint: `${mock.baseUrl}/authorize`,
+  tokenEndpoint: `${mock.baseUrl}/token`,
+  clientId: CLIENT_ID,
+  redirectUri: 'https://app.example.com/login/callback',
+  ...overrides,
+});
+
+// Follows the authorization URL to the provider and returns where it sends the browser back to
+const authorize = async (url: string) => {
+  const response = await fetch(url, { redirect: 'manual' });
+  const location = response.headers.get('location');
+  if (response.status !== 302 || !location) throw new Error(`Provider answered ${response.status} without a redirect`);
+  return location;
+};
+
+const expectSuccess = (result: OidcCallbackResult): OidcCallbackSuccess => {
+  if (result.type !== 'success') throw new Error(`Expected a successful callback, got "${result.error}"`);
+  return result;
+};
+
+const expectError = (result: OidcCallbackResult, error: string) => {
+  if (result.type !== 'error' || result.error !== error) {
+    throw new Error(`Expected error "${error}", got ${JSON.stringify(result)}`);
+  }
+};
+
+const expectRejection = async (promise: Promise<unknown>, message: RegExp) => {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof Error && message.test(error.message)) return;
+    throw new Error(`Rejected with an unexpected error: ${String(error)}`);
+  }
+  throw new Error(`Expected a rejection matching ${message}`);
+};
+
+const pendingKeys = (storage: Storage) =>
+  Array.from({ length: storage.length }, (_, index) => storage.key(index)).filter(key => key?.startsWith(OIDC_STORAGE_PREFIX));
+
+type Check = [name: string, run: (mock: MockProvider) => Promise<void>];
+
+const checks: Check[] = [
+  ['round trip with the answer in the query', async mock => {
+    const storage = new MemoryStorage();
+    const provider = makeProvider(mock);
+    const { url } = await createAuthorizationRequest(provider, { returnTo: '/users', storage });
+
+    const callback = expectSuccess(parseOidcCallback(await authorize(url), storage));
+    if (callback.providerId !== 'mock' || callback.returnTo !== '/users') throw new Error('Callback lost the pending sign-in');
+
+    const tokens = await exchangeAuthorizationCode(provider, callback);
+    if (!tokens.access_token) throw new Error('No access token');
+  }],
+
+  ['round trip with the answer in the fragment of a callback route with its own query', async mock => {
+    const storage = new MemoryStorage();
+    const provider = makeProvider(mock, {
+      redirectUri: 'https://app.example.com/login/callback?tenant=acme',
+      extraParams: { response_mode: 'fragment' },
+    });
+    const { url } = await createAuthorizationRequest(provider, { storage });
+
+    const callback = expectSuccess(parseOidcCallback(await authorize(url), storage));
+    await exchangeAuthorizationCode(provider, callback);
+  }],
+
+  ['only the answer is removed from the callback URL', async () => {
+    const cases: [string, string][] = [
+      ['https://app.example.com/login/callback?tenant=acme&code=c&state=s&iss=https%3A%2F%2Fidp#/welcome',
+        'https://app.example.com/login/callback?tenant=acme#/welcome'],
+      ['https://app.example.com/login/callback?tenant=acme#code=c&state=s&session_state=x&view=compact',
+        'https://app.example.com/login/callback?tenant=acme#view=compact'],
+      ['https://app.example.com/login/callback#error=access_denied&error_description=No',
+        'https://app.example.com/login/callback'],
+    ];
+    for (const [href, expected] of cases) {
+      const stripped = stripOidcCallbackParams(href);
+      if (stripped !== expected) throw new Error(`Expected ${expected}, got ${stripped}`);
+    }
+  }],
+
+  ['a callback URL only works once', async mock => {
+    const storage = new MemoryStorage();
+    const { url } = await createAuthorizationRequest(makeProvider(mock), { storage });
+    const callbackUrl = await authorize(url);
+
+    expectSuccess(parseOidcCallback(callbackUrl, storage));
+    if (pendingKeys(storage).length > 0) throw new Error('The state was not removed from storage');
+    expectError(parseOidcCallback(callbackUrl, storage), 'invalid_state');
+  }],
+
+  ['a state that was never issued is refused', async mock => {
+    const storage = new MemoryStorage();
+    await createAuthorizationRequest(makeProvider(mock), { storage });
+    expectError(parseOidcCallback('https://app.example.com/login/callback?code=code-x&state=forged', storage), 'invalid_state');
+  }],
+
+  ['a callback after the time limit is refused', async mock => {
+    const storage = new MemoryStorage();
+    const { url } = await createAuthorizationRequest(makeProvider(mock), { storage });
+    expectError(parseOidcCallback(await authorize(url), storage, Date.now() + EXPIRED_AFTER_MS), 'expired');
+  }],
+
+  ['the provider\'s error is passed on and the state consumed', async mock => {
+    const storage = new MemoryStorage();
+    const provider = makeProvider(mock, { extraParams: { mock_error: 'access_denied' } });
+    const { url } = await createAuthorizationRequest(provider, { storage });
+
+    const result = parseOidcCallback(await authorize(url), storage);
+    expectError(result, 'access_denied');
+    if (result.type === 'error' && !result.description) throw new Error('error_description was dropped');
+    if (pendingKeys(storage).length > 0) throw new Error('The state was not removed from storage');
+  }],
+
+  ['the token endpoint refuses a wrong code_verifier', async mock => {
+    const storage = new MemoryStorage();
+    const provider = makeProvider(mock);
+    const { url } = await createAuthorizationRequest(provider, { storage });
+    const callback = expectSuccess(parseOidcCallback(await authorize(url), storage));
+
+    await expectRejection(exchangeAuthorizationCode(provider, { ...callback, codeVerifier: 'x'.repeat(43) }), /PKCE/);
+  }],
+
+  ['an ID token with another nonce is rejected', async mock => {
+    const storage = new MemoryStorage();
+    const provider = makeProvider(mock);
+    const { url } = await createAuthorizationRequest(provider, { storage });
+    const callback = expectSuccess(parseOidcCallback(await authorize(url), storage));
+
+    mock.overrideNonce = 'replayed-nonce';
+    try {
+      await expectRejection(exchangeAuthorizationCode(provider, callback), /nonce/);
+    } finally {
+      mock.overrideNonce = null;
+    }
+  }],
+];
+
+const main = async () => {
+  const mock = await startMockProvider();
+  let failures = 0;
+
+  try {
+    for (const [name, run] of checks) {
+      try {
+        await run(mock);
+        console.log(`✓ ${name}`);
+      } catch (error) {
+        failures++;
+        console.log(`✗ ${name}\n    ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  } finally {
+    await mock.close();
+  }
+
+  console.log(`\n${checks.length - failures} of ${checks.length} check(s) passed`);
+  process.exitCode = failures > 0 ? 1 : 0;
+};
+
+main();
@@ -0,0 +1,350 @@
+/**
+ * Generates the design-token files of the React components and the Flutter apps from
+ * interface-resources/tokens/tokens.json:
+ *
+ *   react-components/theme/tokenValues.ts            typed token values (re-exported by theme/tokens.ts)
+ *   react-components/theme/themes.css                CSS variables per theme / brand, for apps without ThemeProvider
+ *   interface-resources/flutter/lib/themes/app_colors.dart   the Flutter AppColors class
+ *
+ *   npx tsx tools/tokens/generate-tokens.ts [--root <repo>] [--check]
+ *
+ * With --check nothing is written; the exit code is 1 when any generated file differs from the JSON.
+ *
+ * String values may reference another token as "{palette.primary}" or "{brands.ulm.primaryLight}".
+ * Palette entries are grouped by the section comments of app_colors.dart; references skip the group name.
+ */
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { scaleVariables, themeColorVariables } from '../../react-components/theme/cssVariables';
+import type { BrandColors, ThemeDefinition } from '../../react-components/theme/tokens';
+
+const SOURCE = 'interface-resources/tokens/tokens.json';
+const GENERATOR = 'tools/tokens/generate-tokens.ts';
+
+const OUTPUTS = {
+  typescript: 'react-components/theme/tokenValues.ts',
+  css: 'react-components/theme/themes.css',
+  dart: 'interface-resources/flutter/lib/themes/app_colors.dart',
+};
+
+type Tokens = Record<string, string>;
+
+interface ThemeSource extends ThemeDefinition {
+  $description?: string;
+}
+
+export interface TokenSource {
+  // Group label -> colour name -> #RRGGBB or #RRGGBBAA
+  palette: Record<string, Tokens>;
+  primarySwatch: Tokens;
+  spacing: Tokens;
+  radius: Tokens;
+  typography: { fontFamily: string } & Tokens;
+  brands: Record<string, BrandColors>;
+  themes: Record<string, ThemeSource>;
+}
+
+export interface GeneratedFile {
+  path: string;
+  content: string;
+}
+
+const HEX_COLOR = /^#([0-9a-f]{6}|[0-9a-f]{8})$/i;
+const REFERENCE = /^\{([\w.-]+)\}$/;
+
+const header = (comment: string) => `${comment} Generated by ${GENERATOR} from ${SOURCE}. Do not edit.`;
+
+// ===== Reading =====
+
+const flatPalette = (source: TokenSource): Tokens => Object.assign({}, ...Object.values(source.palette));
+
+const lookup = (source: TokenSource, path: string): unknown => {
+  const [head, ...rest] = path.split('.');
+  const start: unknown = head === 'palette' ? flatPalette(source) : (source as unknown as Record<string, unknown>)[head];
+  return rest.reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    start
+  );
+};
+
+const resolveReferences = <T>(value: T, source: TokenSource, location: string, seen: string[] = []): T => {
+  if (typeof value === 'string') {
+    const match = REFERENCE.exec(value);
+    if (!match) return value;
+    const path = match[1];
+    if (seen.includes(path)) {
+      throw new Error(`${location}: circular reference ${[...seen, path].join(' -> ')}`);
+    }
+    const target = lookup(source, path);
+    if (typeof target !== 'string') {
+      throw new Error(`${location}: "${value}" does not name a token`);
+    }
+    return resolveReferences(target, source, location, [...seen, path]) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveReferences(item, source, `${location}.${key}`, seen)])
+    ) as T;
+  }
+  return value;
+};
+
+const assertHexColors = (tokens: Tokens, location: string) => {
+  Object.entries(tokens).forEach(([name, value]) => {
+    if (!HEX_COLOR.test(value)) {
+      throw new Error(`${location}.${name}: expected #RRGGBB or #RRGGBBAA, got "${value}"`);
+    }
+  });
+};
+
+export const readTokenSource = (root: string): TokenSource => {
+  const raw = JSON.parse(readFileSync(join(root, SOURCE), 'utf8')) as TokenSource;
+  const source = resolveReferences(raw, raw, 'tokens');
+
+  // Everything that ends up in app_colors.dart must be a plain colour
+  Object.entries(source.palette).forEach(([group, colors]) => assertHexColors(colors, `palette.${group}`));
+  assertHexColors(source.primarySwatch, 'primarySwatch');
+  Object.entries(source.brands).forEach(([name, brand]) => assertHexColors({ ...brand }, `brands.${name}`));
+  return source;
+};
+
+// ===== TypeScript =====
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+const tsKey = (key: string) => (IDENTIFIER.test(key) || /^\d+$/.test(key) ? key : `'${key}'`);
+
+const tsString = (value: string) => (value.includes("'") ? JSON.stringify(value) : `'${value}'`);
+
+const tsValue = (value: unknown, indent: string): string => {
+  if (typeof value === 'string') return tsString(value);
+  if (typeof value !== 'object' || value === null) return String(value);
+
+  const inner = `${indent}  `;
+  const lines = Object.entries(value).map(([key, item]) => `${inner}${tsKey(key)}: ${tsValue(item, inner)},`);
+  return `{\n${lines.join('\n')}\n${indent}}`;
+};
+
+export const generateTypeScript = (source: TokenSource): string => {
+  const constant = (name: string, value: unknown, suffix = 'as const') =>
+    `export const ${name} = ${tsValue(value, '')} ${suffix};`;
+
+  const themes = Object.entries(source.themes).map(([name, { $description, ...theme }]) => {
+    const comment = $description ? `  // ${$description}\n` : '';
+    return `${comment}  ${tsKey(name)}: ${tsValue(theme, '  ')},`;
+  });
+
+  return [
+    header('//'),
+    "import type { BrandColors, ThemeDefinition } from './tokens';",
+    '',
+    constant('palette', flatPalette(source)),
+    '',
+    constant('primarySwatch', source.primarySwatch),
+    '',
+    constant('spacing', source.spacing),
+    '',
+    constant('radius', source.radius),
+    '',
+    constant('typography', source.typography),
+    '',
+    constant('BRANDS', source.brands, 'as const satisfies Record<string, BrandColors>'),
+    '',
+    `export const BUILT_IN_THEMES = {\n${themes.join('\n')}\n} satisfies Record<string, ThemeDefinition>;`,
+    '',
+  ].join('\n');
+};
+
+// ===== CSS =====
+
+const cssBlock = (selectors: string[], variables: Record<string, string>) =>
+  [
+    `${selectors.join(',\n')} {`,
+    ...Object.entries(variables).map(([name, value]) => `  ${name}: ${value};`),
+    '}',
+  ].join('\n');
+
+/**
+ * The first theme is the default. A theme named after its colour scheme (light, dark) also applies
+ * through `data-theme` alone, so the components' own `[data-theme="dark"]` switch picks up its colours.
+ * Brands override the accent colours of every brandable theme, so non-brandable themes come last.
+ */
+export const generateCss = (source: TokenSource): string => {
+  const entries = Object.entries(source.themes);
+  const themeSelectors = (name: string, theme: ThemeDefinition, index: number) => [
+    ...(index === 0 ? [':root'] : []),
+    ...(name === theme.colorScheme ? [`:root[data-theme="${name}"]`] : []),
+    `:root[data-theme-name="${name}"]`,
+  ];
+  const themeBlock = ([name, theme]: [string, ThemeDefinition], index: number) =>
+    cssBlock(themeSelectors(name, theme, index), {
+      ...themeColorVariables(theme),
+      ...(index === 0 ? scaleVariables(source) : {}),
+    });
+
+  const indexed = entries.map((entry, index) => ({ entry, index }));
+  const brandBlocks = Object.entries(source.brands).map(([name, brand]) =>
+    cssBlock([`:root[data-brand="${name}"]`], {
+      '--primary-color': brand.primary,
+      '--primary-color-light': brand.primaryLight,
+    })
+  );
+
+  const blocks = [
+    ...indexed.filter(({ entry }) => entry[1].brandable !== false).map(({ entry, index }) => themeBlock(entry, index)),
+    ...brandBlocks,
+    ...indexed.filter(({ entry }) => entry[1].brandable === false).map(({ entry, index }) => themeBlock(entry, index)),
+  ];
+
+  return [
+    `/* ${header('').trim()} */`,
+    '/* <html data-theme="dark" data-theme-name="high-contrast" data-brand="aam"> - ThemeProvider does the same at runtime */',
+    '',
+    blocks.join('\n\n'),
+    '',
+  ].join('\n');
+};
+
+// ===== Dart =====
+
+// #RRGGBB[AA] -> 0xAARRGGBB
+const dartColor = (hex: string) => {
+  const digits = hex.slice(1).toUpperCase();
+  const alpha = digits.length === 8 ? digits.slice(6) : 'FF';
+  return `0x${alpha}${digits.slice(0, 6)}`;
+};
+
+export const generateDart = (source: TokenSource): string => {
+  const palette = flatPalette(source);
+  const groups = Object.entries(source.palette).map(([group, colors]) =>
+    [
+      `  // ${group}`,
+      ...Object.entries(colors).map(([name, value]) => `  static const Color ${name} = Color(${dartColor(value)});`),
+    ].join('\n')
+  );
+  const swatch = Object.entries(source.primarySwatch).map(
+    ([shade, value]) => `      ${shade}: Color(${dartColor(value)}),`
+  );
+
+  return `${header('//')}
+import 'package:flutter/material.dart';
+
+/// OVU System Color Palette
+class AppColors {
+${groups.join('\n\n')}
+
+  // Gradients
+  static const LinearGradient primaryGradient = LinearGradient(
+    begin: Alignment.topLeft,
+    end: Alignment.bottomRight,
+    colors: [primary, primaryDark],
+  );
+
+  static const LinearGradient secondaryGradient = LinearGradient(
+    begin: Alignment.topLeft,
+    end: Alignment.bottomRight,
+    colors: [secondary, secondaryDark],
+  );
+
+  // Material Color Swatches
+  static const MaterialColor primarySwatch = MaterialColor(
+    ${dartColor(palette.primary)},
+    <int, Color>{
+${swatch.join('\n')}
+    },
+  );
+
+  // Dark Mode Helpers
+  static Color getTextColor(BuildContext context) {
+    return Theme.of(context).brightness == Brightness.dark
+        ? Colors.white
+        : textPrimary;
+  }
+
+  static Color getBackgroundColor(BuildContext context) {
+    return Theme.of(context).brightness == Brightness.dark
+        ? backgroundDark
+        : background;
+  }
+
+  static Color getSurfaceColor(BuildContext context) {
+    return Theme.of(context).brightness == Brightness.dark
+        ? surfaceDark
+        : surface;
+  }
+
+  static Color getDividerColor(BuildContext context) {
+    return Theme.of(context).brightness == Brightness.dark
+        ? dividerDark
+        : divider;
+  }
+}
+`;
+};
+
+export const generateTokenFiles = (root: string): GeneratedFile[] => {
+  const source = readTokenSource(root);
+  return [
+    { path: OUTPUTS.typescript, content: generateTypeScript(source) },
+    { path: OUTPUTS.css, content: generateCss(source) },
+    { path: OUTPUTS.dart, content: generateDart(source) },
+  ];
+};
+
+/**
+ * Generated files whose content on disk differs from what the JSON produces.
+ */
+export const findStaleFiles = (root: string, files: GeneratedFile[]): string[] =>
+  files
+    .filter(({ path, content }) => {
+      const target = join(root, path);
+      return !existsSync(target) || readFileSync(target, 'utf8') !== content;
+    })
+    .map(({ path }) => path);
+
+// ===== CLI =====
+
+const parseArgs = (argv: string[]) => {
+  const options = { root: process.cwd(), check: false };
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--root':
+        options.root = resolve(argv[++i]);
+        break;
+      case '--check':
+        options.check = true;
+        break;
+      default:
+        throw new Error(`Unknown option: ${argv[i]}`);
+    }
+  }
+  return options;
+};
+
+const main = () => {
+  const options = parseArgs(process.argv.slice(2));
+  const files = generateTokenFiles(options.root);
+  const stale = findStaleFiles(options.root, files);
+
+  if (options.check) {
+    if (stale.length === 0) {
+      console.log('Design tokens are up to date');
+      return;
+    }
+    console.log(`Out of date with ${SOURCE}:`);
+    stale.forEach(path => console.log(`  ${path}`));
+    console.log(`Run: npx tsx ${GENERATOR}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  files
+    .filter(({ path }) => stale.includes(path))
+    .forEach(({ path, content }) => {
+      writeFileSync(join(options.root, path), content);
+      console.log(`Wrote ${path}`);
+    });
+  if (stale.length === 0) console.log('Design tokens are up to date');
+};
+
+main();